@@ -1,12 +1,20 @@
 /// <reference types="wxt/browser" />
 
+import { BILIBILI_FETCH_MESSAGE, handleBilibiliFetch } from '@/api/bilibili-proxy';
+
 export default defineBackground(() => {
   console.log('BiliTube-Wormhole: Background service worker started');
 
   // Listen for messages from content scripts
-  browser.runtime.onMessage.addListener((message: any) => {
+  browser.runtime.onMessage.addListener((message: any, _sender, sendResponse) => {
     console.log('Received message:', message);
 
+    if (message.type === BILIBILI_FETCH_MESSAGE) {
+      // Content scripts are bound by the page's CORS rules; the background is not
+      handleBilibiliFetch(message).then(sendResponse);
+      return true;
+    }
+
     if (message.type === 'GET_MAPPING') {
       // Handle mapping requests
       // This could be used for caching or analytics
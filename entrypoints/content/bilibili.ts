@@ -1,18 +1,49 @@
 /// <reference types="wxt/browser" />
 
 import { mappingClient } from '@/utils/mapping-client';
+import { BilibiliAPI } from '@/api/bilibili';
+import { createProxyFetch } from '@/api/bilibili-proxy';
+import { YouTubeAPI } from '@/api/youtube';
+import { YouTubeVideoMatcher } from '@/utils/video-matcher';
+import { loadDanmakuSettings } from '@/danmaku/settings';
+import { mountDanmakuEngine } from '@/danmaku/mount';
+import {
+  invertTimeOffset,
+  loadSavedTimeOffset,
+  NO_TIME_OFFSET,
+  toTimeOffset,
+} from '@/danmaku/offset';
+import { commentsToDanmaku } from '@/danmaku/comments';
+import type { BilibiliVideo, TimeOffset } from '../../types';
 
 export default defineContentScript({
   matches: ['https://www.bilibili.com/*', 'https://space.bilibili.com/*'],
   main() {
     console.log('BiliTube-Wormhole: Bilibili content script loaded');
 
+    const biliApi = new BilibiliAPI(
+      undefined,
+      createProxyFetch(request => browser.runtime.sendMessage(request))
+    );
+    // The worker holds the Data API key, so none ships in the extension
+    const workerUrl = import.meta.env.VITE_WORKER_URL;
+    const ytApi = workerUrl ? new YouTubeAPI(null, `${workerUrl}/youtube`) : null;
+    const youtubeMatcher = ytApi ? new YouTubeVideoMatcher(ytApi) : null;
+
+    let teardownOverlay: (() => void) | null = null;
+
     // Extract Bilibili UID from URL
     function getBilibiliUid(): string | null {
       const match = window.location.href.match(/space\.bilibili\.com\/(\d+)/);
       return match?.[1] ?? null;
     }
 
+    // Extract the BV ID of the video page
+    function getBvid(): string | null {
+      const match = window.location.pathname.match(/\/video\/(BV[0-9A-Za-z]{10})/);
+      return match?.[1] ?? null;
+    }
+
     // Create YouTube logo button
     function createYouTubeLogo(youtubeChannelId: string, channelName: string): HTMLElement {
       const container = document.createElement('div');
@@ -85,8 +116,149 @@ export default defineContentScript({
       }
     }
 
+    // Wait for the player to create its video element
+    async function waitForVideo(): Promise<HTMLVideoElement | null> {
+      for (let attempt = 0; attempt < 20; attempt++) {
+        const video =
+          document.querySelector<HTMLVideoElement>('.bpx-player-video-wrap video') ??
+          document.querySelector<HTMLVideoElement>('video');
+        if (video) return video;
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+      return null;
+    }
+
+    // Inject the comment overlay above Bilibili's own danmaku layer
+    function injectOverlayContainer(video: HTMLVideoElement): HTMLElement {
+      document.getElementById('bilitube-comment-overlay')?.remove();
+
+      const container = document.createElement('div');
+      container.id = 'bilitube-comment-overlay';
+      container.style.cssText = `
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        pointer-events: none;
+        overflow: hidden;
+        z-index: 10;
+      `;
+
+      const playerArea =
+        video.closest<HTMLElement>('.bpx-player-video-area') ?? video.parentElement;
+      if (playerArea) {
+        playerArea.style.position = 'relative';
+        playerArea.appendChild(container);
+      }
+
+      return container;
+    }
+
+    // Summarise the video page for matching against YouTube uploads
+    function toBilibiliVideo(info: any): BilibiliVideo {
+      const duration = Number(info.duration) || 0;
+      return {
+        bvid: info.bvid,
+        aid: info.aid,
+        title: info.title,
+        pic: info.pic,
+        author: info.owner?.name ?? '',
+        mid: info.owner?.mid ?? 0,
+        created: info.pubdate ?? 0,
+        length: `${Math.floor(duration / 60)}:${String(duration % 60).padStart(2, '0')}`,
+        play: info.stat?.view ?? 0,
+        danmaku: info.stat?.danmaku ?? 0,
+      };
+    }
+
+    // Find the original YouTube upload, preferring a stored pair over fuzzy matching
+    // The offset maps Bilibili times onto YouTube, as stored with the pair
+    async function findYouTubePair(
+      bvid: string,
+      info: any
+    ): Promise<{ videoId: string; offset: TimeOffset } | null> {
+      const stored = await mappingClient.getVideoMappingByBvid(bvid);
+      if (stored) {
+        console.log('Found stored video mapping:', stored);
+        const saved = await loadSavedTimeOffset(stored.youtubeVideoId);
+        return { videoId: stored.youtubeVideoId, offset: saved ?? toTimeOffset(stored) };
+      }
+
+      const mapping = await mappingClient.getMappingByBiliUid(String(info.owner?.mid ?? ''));
+      if (!mapping || !youtubeMatcher) return null;
+
+      const match = await youtubeMatcher.findMatch(mapping, toBilibiliVideo(info));
+      if (!match) return null;
+
+      console.log('Matched YouTube video:', match);
+      const saved = await loadSavedTimeOffset(match.videoId);
+      return { videoId: match.videoId, offset: saved ?? NO_TIME_OFFSET };
+    }
+
+    // Bumped on every teardown, so loads started before it can tell they are stale
+    let loadGeneration = 0;
+
+    // Stop and remove the comment overlay
+    function destroyOverlay() {
+      loadGeneration++;
+      teardownOverlay?.();
+      teardownOverlay = null;
+    }
+
+    // Show the paired YouTube video's comments as danmaku on a video page
+    async function loadComments() {
+      destroyOverlay();
+      const generation = loadGeneration;
+      const isStale = () => generation !== loadGeneration;
+
+      const bvid = getBvid();
+      if (!bvid) return;
+      if (!ytApi) {
+        console.log('Worker URL not configured; not showing YouTube comments');
+        return;
+      }
+
+      try {
+        const info = await biliApi.getVideoInfo(bvid);
+        if (isStale()) return;
+        const pair = await findYouTubePair(bvid, info);
+        if (isStale()) return;
+        if (!pair) {
+          console.log('No matching YouTube video found for', bvid);
+          return;
+        }
+
+        const video = await waitForVideo();
+        if (!video || isStale()) return;
+
+        // Comments are placed on the YouTube timeline, then mapped back onto this upload
+        const comments = await ytApi.getVideoComments(pair.videoId, 100, 'relevance');
+        if (isStale()) return;
+        const youtubeDuration = (Number(info.duration) || 0) + pair.offset.shift;
+        const items = commentsToDanmaku(comments, youtubeDuration);
+        console.log(`Showing ${items.length} YouTube comments from ${pair.videoId}`);
+
+        const settings = await loadDanmakuSettings();
+        if (isStale()) return;
+
+        // Nothing below awaits, so the overlay cannot outlive a navigation unnoticed
+        const { engine, destroy } = mountDanmakuEngine(
+          video,
+          injectOverlayContainer(video),
+          settings
+        );
+        engine.setTimeOffset(invertTimeOffset(pair.offset));
+        engine.load(items);
+        teardownOverlay = destroy;
+      } catch (error) {
+        console.error('Failed to load YouTube comments:', error);
+      }
+    }
+
     // Run on page load
     checkAndShowMapping();
+    loadComments();
 
     // Re-run on navigation (for SPA)
     let lastUrl = window.location.href;
@@ -95,6 +267,7 @@ export default defineContentScript({
       if (currentUrl !== lastUrl) {
         lastUrl = currentUrl;
         checkAndShowMapping();
+        loadComments();
       }
     }).observe(document.body, { childList: true, subtree: true });
   },
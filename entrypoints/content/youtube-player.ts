@@ -0,0 +1,24 @@
+/// <reference types="wxt/browser" />
+
+import { servePlayerRequests } from '@/utils/youtube-player';
+
+/**
+ * YouTube player element's API, visible from the page's main world only
+ */
+interface PlayerElement extends HTMLElement {
+  getPlayerResponse?: () => unknown;
+}
+
+// Runs in the page's main world and answers the YouTube content script's questions
+// about the video the player shows
+export default defineContentScript({
+  matches: ['https://www.youtube.com/*'],
+  world: 'MAIN',
+  main() {
+    servePlayerRequests(window, () => {
+      const player = document.getElementById('movie_player') as PlayerElement | null;
+      // The initial response only describes the first video, which parsing checks
+      return player?.getPlayerResponse?.() ?? (window as any).ytInitialPlayerResponse;
+    });
+  },
+});
@@ -1,19 +1,127 @@
 /// <reference types="wxt/browser" />
 
 import { mappingClient } from '@/utils/mapping-client';
-import type { BilibiliDanmaku } from '../../types';
+import type { DanmakuEngine } from '@/danmaku/engine';
+import { mountDanmakuEngine } from '@/danmaku/mount';
+import {
+  loadDanmakuSettings,
+  onDanmakuSettingsChanged,
+  saveDanmakuSettings,
+  toEngineOptions,
+  toPreprocessOptions,
+} from '@/danmaku/settings';
+import type { DanmakuSettings } from '@/danmaku/settings';
+import { createDensityLimiter, preprocessDanmaku } from '@/danmaku/preprocess';
+import { densityBuckets } from '@/danmaku/heatmap';
+import { EXPORT_FORMATS, exportDanmaku } from '@/danmaku/export';
+import type { DanmakuExportFormat } from '@/danmaku/export';
+import {
+  filterDanmaku,
+  loadFilterRules,
+  onFilterRulesChanged,
+  saveFilterRules,
+} from '@/danmaku/filter';
+import type { DanmakuFilterRules } from '@/danmaku/filter';
+import {
+  applyTimeOffset,
+  clearSavedTimeOffset,
+  loadSavedTimeOffset,
+  nudgeTimeOffset,
+  saveTimeOffset,
+  toTimeOffset,
+} from '@/danmaku/offset';
+import { BilibiliAPI, partDuration } from '@/api/bilibili';
+import { createProxyFetch } from '@/api/bilibili-proxy';
+import { BilibiliLiveClient } from '@/api/bilibili-live';
+import { liveDanmakuToBilibili } from '@/api/live-protocol';
+import { VideoMatcher } from '@/utils/video-matcher';
+import { DanmakuSettingsPanel } from '@/ui/settings-panel';
+import { DanmakuHeatmap } from '@/ui/heatmap';
+import { DanmakuListPanel } from '@/ui/danmaku-list';
+import { normalizeHandle, parseChannelPage, parseChannelReference } from '@/utils/youtube-channel';
+import type { ChannelReference } from '@/utils/youtube-channel';
+import { requestPlayerVideo } from '@/utils/youtube-player';
+import type { BilibiliDanmaku, TimeOffset, UserMapping } from '../../types';
 
 export default defineContentScript({
   matches: ['https://www.youtube.com/*'],
   main() {
     console.log('BiliTube-Wormhole: YouTube content script loaded');
 
+    const biliApi = new BilibiliAPI(
+      undefined,
+      createProxyFetch(request => browser.runtime.sendMessage(request))
+    );
+    const videoMatcher = new VideoMatcher(biliApi);
+
+    // Channel IDs already resolved from handles and legacy names
+    const resolvedChannelIds = new Map<string, string>();
+
+    // Read the ID of the channel page on screen, if it is the page for `handle`
+    // The canonical link follows in-app navigation; the handle in the header confirms
+    // it has caught up with this channel rather than still naming the previous one.
+    function readLiveChannelId(handle: string): string | null {
+      const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+      const channelId = canonical?.href.match(/youtube\.com\/channel\/(UC[\w-]{22})/)?.[1];
+      const header = document.querySelector(
+        'ytd-browse[page-subtype="channels"]:not([hidden]) #page-header'
+      );
+      const shown = header?.textContent?.match(/@[^\s•]+/)?.[0];
+      return channelId && shown && normalizeHandle(shown) === handle ? channelId : null;
+    }
+
+    // Resolve a handle or legacy name from the page on screen, or by downloading the
+    // channel page at `url` when the page has not caught up yet
+    async function resolveChannelId(
+      reference: ChannelReference,
+      url: string
+    ): Promise<string | null> {
+      const cached = resolvedChannelIds.get(reference.value);
+      if (cached) return cached;
+
+      let channelId = reference.kind === 'handle' ? readLiveChannelId(reference.value) : null;
+      if (!channelId) {
+        try {
+          const response = await fetch(url);
+          if (response.ok) channelId = parseChannelPage(await response.text()).channelId;
+        } catch (error) {
+          console.warn(`Failed to resolve YouTube channel ${reference.value}:`, error);
+        }
+      }
+
+      if (channelId) resolvedChannelIds.set(reference.value, channelId);
+      return channelId;
+    }
+
+    // Channel ID a URL refers to
+    // Falls back to the handle, which the mapping index also knows, if it cannot be resolved
+    async function channelIdFromReference(
+      reference: ChannelReference,
+      url: string
+    ): Promise<string | null> {
+      if (reference.kind === 'id') return reference.value;
+      const channelId = await resolveChannelId(reference, url);
+      return channelId ?? (reference.kind === 'handle' ? reference.value : null);
+    }
+
     // Extract YouTube channel ID from page
-    function getYouTubeChannelId(): string | null {
+    async function getYouTubeChannelId(): Promise<string | null> {
       // Try from URL
-      const urlMatch = window.location.href.match(/youtube\.com\/(channel|c|user|@)([\w-]+)/);
-      if (urlMatch && urlMatch[2]) {
-        return urlMatch[2];
+      const url = window.location.href;
+      const reference = parseChannelReference(url);
+      if (reference) return channelIdFromReference(reference, url);
+
+      // Watch pages: the channel of the video in the player, else the owner link below it
+      const videoId = getVideoId();
+      if (videoId) {
+        const video = await requestPlayerVideo(window, videoId);
+        if (video?.channelId) return video.channelId;
+
+        const owner = document.querySelector<HTMLAnchorElement>(
+          'ytd-watch-flexy:not([hidden]) ytd-video-owner-renderer a[href]'
+        );
+        const ownerReference = owner ? parseChannelReference(owner.href) : null;
+        return owner && ownerReference ? channelIdFromReference(ownerReference, owner.href) : null;
       }
 
       // Try from page metadata
@@ -82,11 +190,8 @@ export default defineContentScript({
     }
 
     // Inject danmaku container
-    function injectDanmakuContainer(): HTMLElement {
-      const video = document.querySelector('video');
-      if (!video) {
-        throw new Error('Video element not found');
-      }
+    function injectDanmakuContainer(video: HTMLVideoElement): HTMLElement {
+      document.getElementById('bilitube-danmaku-container')?.remove();
 
       const container = document.createElement('div');
       container.id = 'bilitube-danmaku-container';
@@ -101,104 +206,189 @@ export default defineContentScript({
         z-index: 100;
       `;
 
-      const videoContainer = video.parentElement;
-      if (videoContainer) {
-        videoContainer.style.position = 'relative';
-        videoContainer.appendChild(container);
+      const playerContainer =
+        video.closest<HTMLElement>('.html5-video-player') ?? video.parentElement;
+      if (playerContainer) {
+        playerContainer.style.position = 'relative';
+        playerContainer.appendChild(container);
       }
 
       return container;
     }
 
-    // Render danmaku item (currently unused - placeholder for future implementation)
-    // @ts-expect-error - Function will be used when danmaku rendering is implemented
-    function _renderDanmaku(
-      danmaku: BilibiliDanmaku,
-      container: HTMLElement,
-      _videoWidth: number,
-      videoHeight: number
-    ) {
-      const item = document.createElement('div');
-      item.className = 'bilitube-danmaku-item';
-      item.textContent = danmaku.content;
-
-      // Bilibili-style danmaku
-      const fontSize = danmaku.size || 25;
-      const color = `#${danmaku.color.toString(16).padStart(6, '0')}`;
-
-      item.style.cssText = `
+    // Step used by the offset nudge buttons (seconds)
+    const OFFSET_STEP = 0.5;
+
+    // Create the danmaku offset nudge control
+    function createOffsetControl(
+      youtubeVideoId: string,
+      danmakuEngine: DanmakuEngine,
+      pairOffset: TimeOffset,
+      onChange: () => void
+    ): HTMLElement {
+      const control = document.createElement('div');
+      control.className = 'bilitube-offset-control';
+      control.style.cssText = `
         position: absolute;
-        white-space: nowrap;
-        font-size: ${fontSize}px;
-        color: ${color};
-        font-family: "Microsoft YaHei", "SimHei", sans-serif;
-        font-weight: bold;
-        text-shadow:
-          1px 0 1px #000,
-          0 1px 1px #000,
-          0 -1px 1px #000,
-          -1px 0 1px #000;
-        pointer-events: none;
-        z-index: 100;
+        top: 12px;
+        left: 12px;
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        padding: 4px 8px;
+        border-radius: 4px;
+        background: rgba(0, 0, 0, 0.6);
+        color: #fff;
+        font-size: 12px;
+        pointer-events: auto;
+        opacity: 0;
+        transition: opacity 0.2s ease;
       `;
 
-      // Position based on type
-      if (danmaku.type === 1) {
-        // Scrolling danmaku
-        const top = Math.random() * (videoHeight * 0.8);
-        item.style.top = `${top}px`;
-        item.style.right = `-${item.offsetWidth}px`;
-        item.style.animation = 'bilitube-scroll 10s linear';
-      } else if (danmaku.type === 4) {
-        // Bottom danmaku
-        item.style.bottom = '50px';
-        item.style.left = '50%';
-        item.style.transform = 'translateX(-50%)';
-        item.style.animation = 'bilitube-fade 3s ease-out';
-      } else if (danmaku.type === 5) {
-        // Top danmaku
-        item.style.top = '50px';
-        item.style.left = '50%';
-        item.style.transform = 'translateX(-50%)';
-        item.style.animation = 'bilitube-fade 3s ease-out';
-      }
+      const label = document.createElement('span');
+      const updateLabel = () => {
+        const shift = danmakuEngine.timeOffset.shift;
+        label.textContent = `弹幕偏移 ${shift >= 0 ? '+' : ''}${shift.toFixed(1)}s`;
+      };
+
+      const button = (text: string, title: string, onClick: () => void) => {
+        const element = document.createElement('button');
+        element.textContent = text;
+        element.title = title;
+        element.style.cssText = `
+          border: none;
+          border-radius: 3px;
+          padding: 2px 6px;
+          background: rgba(255, 255, 255, 0.15);
+          color: inherit;
+          font-size: inherit;
+          cursor: pointer;
+        `;
+        element.addEventListener('click', event => {
+          event.stopPropagation();
+          onClick();
+          updateLabel();
+          onChange();
+        });
+        return element;
+      };
+
+      const nudge = (delta: number) => {
+        danmakuEngine.setTimeOffset(nudgeTimeOffset(danmakuEngine.timeOffset, delta));
+      };
+
+      control.append(
+        button('−', '弹幕提前', () => nudge(-OFFSET_STEP)),
+        label,
+        button('+', '弹幕延后', () => nudge(OFFSET_STEP)),
+        button('保存', '保存此视频的偏移', () => {
+          saveTimeOffset(youtubeVideoId, danmakuEngine.timeOffset).catch(error =>
+            console.error('Failed to save danmaku offset:', error)
+          );
+        }),
+        button('重置', '恢复默认偏移', () => {
+          danmakuEngine.setTimeOffset(pairOffset);
+          clearSavedTimeOffset(youtubeVideoId).catch(error =>
+            console.error('Failed to clear danmaku offset:', error)
+          );
+        })
+      );
+
+      control.addEventListener('mouseenter', () => (control.style.opacity = '1'));
+      control.addEventListener('mouseleave', () => (control.style.opacity = '0'));
+
+      updateLabel();
+      return control;
+    }
 
-      container.appendChild(item);
+    // Teardown of the active danmaku engine
+    let teardownEngine: (() => void) | null = null;
+
+    // Save text as a file through a temporary download link
+    function downloadText(filename: string, content: string, mimeType: string) {
+      const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
 
-      // Remove after animation
-      setTimeout(() => {
-        item.remove();
-      }, 10000);
+    // Create a danmaku engine bound to the video element, with its player controls
+    function createEngine(
+      video: HTMLVideoElement,
+      container: HTMLElement,
+      initialSettings: DanmakuSettings,
+      rules: DanmakuFilterRules,
+      onExport: (format: DanmakuExportFormat) => void
+    ): DanmakuEngine {
+      const { engine: danmakuEngine, destroy } = mountDanmakuEngine(
+        video,
+        container,
+        initialSettings
+      );
+
+      const player = container.parentElement;
+      const panel = player
+        ? new DanmakuSettingsPanel(
+            player,
+            initialSettings,
+            update => {
+              saveDanmakuSettings(update).catch(error =>
+                console.error('Failed to save danmaku settings:', error)
+              );
+            },
+            rules,
+            update => {
+              saveFilterRules(update).catch(error =>
+                console.error('Failed to save danmaku filter rules:', error)
+              );
+            },
+            onExport
+          )
+        : null;
+      const removeFilterListener = onFilterRulesChanged(updated => panel?.updateRules(updated));
+      const removeSettingsListener = onDanmakuSettingsChanged(updated => panel?.update(updated));
+
+      teardownEngine = () => {
+        removeSettingsListener();
+        removeFilterListener();
+        panel?.destroy();
+        destroy();
+      };
+
+      return danmakuEngine;
     }
 
-    // Inject CSS animations
-    function injectStyles() {
-      if (document.getElementById('bilitube-styles')) return;
+    // Bumped on every teardown, so loads started before it can tell they are stale
+    let loadGeneration = 0;
 
-      const style = document.createElement('style');
-      style.id = 'bilitube-styles';
-      style.textContent = `
-        @keyframes bilitube-scroll {
-          from { right: -100%; }
-          to { right: 100%; }
-        }
-        @keyframes bilitube-fade {
-          0% { opacity: 0; }
-          10% { opacity: 1; }
-          90% { opacity: 1; }
-          100% { opacity: 0; }
-        }
-      `;
-      document.head.appendChild(style);
+    // Stop and remove the current danmaku engine
+    function destroyEngine() {
+      loadGeneration++;
+      teardownEngine?.();
+      teardownEngine = null;
+    }
+
+    // Tear down the current engine and start a new load
+    // The returned check turns true once a later navigation or load has started.
+    function startLoad(): () => boolean {
+      destroyEngine();
+      const generation = loadGeneration;
+      return () => generation !== loadGeneration;
     }
 
     // Check for mapping and show Bilibili logo
     async function checkAndShowMapping() {
-      const channelId = getYouTubeChannelId();
-      if (!channelId) return;
+      // A later navigation makes this check stale; its results must not reach the page
+      const isStale = startLoad();
+
+      const channelId = await getYouTubeChannelId();
+      if (!channelId || isStale()) return;
 
       try {
         const mapping = await mappingClient.getMappingByYouTubeId(channelId);
+        if (isStale()) return;
         if (mapping) {
           console.log('Found Bilibili mapping:', mapping);
 
@@ -212,10 +402,12 @@ export default defineContentScript({
           const logo = createBilibiliLogo(mapping.bilibiliUid, mapping.bilibiliUsername);
           document.body.appendChild(logo);
 
-          // Load danmaku if on video page
+          // Load danmaku if on video page; live streams follow the creator's live room
           const videoId = getVideoId();
-          if (videoId) {
-            loadDanmaku(mapping.bilibiliUid, videoId);
+          if (videoId && isLiveNow()) {
+            loadLiveDanmaku(mapping, videoId);
+          } else if (videoId) {
+            loadDanmaku(mapping, videoId);
           }
         }
       } catch (error) {
@@ -223,23 +415,266 @@ export default defineContentScript({
       }
     }
 
-    // Load and display danmaku (placeholder for future implementation)
-    async function loadDanmaku(_biliUid: string, _youtubeVideoId: string) {
+    // Whether the watch page shows a stream that is live right now
+    function isLiveNow(): boolean {
+      if (document.querySelector('.html5-video-player.ytp-live')) return true;
+      return (
+        document.querySelector('meta[itemprop="isLiveBroadcast"][content="True"]') !== null &&
+        document.querySelector('meta[itemprop="endDate"]') === null
+      );
+    }
+
+    // Find the Bilibili counterpart, preferring a stored pair over fuzzy matching
+    // The video's details come from the player, since the page's <head> still describes the
+    // first video after in-app navigation
+    async function findVideoPair(
+      mapping: UserMapping,
+      youtubeVideoId: string,
+      isStale: () => boolean
+    ): Promise<{ bvid: string; cid: number; offset: TimeOffset } | null> {
+      const stored = await mappingClient.getVideoMappingByYouTubeId(youtubeVideoId);
+      if (stored) {
+        console.log('Found stored video mapping:', stored);
+        return { bvid: stored.bvid, cid: stored.cid, offset: toTimeOffset(stored) };
+      }
+
+      const pageVideo = await requestPlayerVideo(window, youtubeVideoId, { isStale });
+      if (!pageVideo) return null;
+
+      const match = await videoMatcher.findMatch(mapping, pageVideo);
+      if (match) {
+        console.log('Matched Bilibili video:', match);
+        return { bvid: match.bvid, cid: match.cid, offset: { shift: 0 } };
+      }
+
+      return null;
+    }
+
+    // Fetch full segmented danmaku, falling back to the capped XML pool
+    // Segments cover the Bilibili upload, which may run longer than the YouTube video.
+    async function getDanmaku(bvid: string, cid: number): Promise<BilibiliDanmaku[]> {
+      try {
+        const duration = partDuration(await biliApi.getVideoInfo(bvid), cid);
+        return await biliApi.getSegmentedDanmaku(cid, duration);
+      } catch (error) {
+        console.warn('Segmented danmaku failed, falling back to XML:', error);
+        return biliApi.getDanmaku(cid);
+      }
+    }
+
+    // Filter and preprocess danmaku, then load them into the engine
+    // Returns the items that passed the filters, before merging and sampling
+    function loadFiltered(
+      danmakuEngine: DanmakuEngine,
+      danmaku: BilibiliDanmaku[],
+      rules: DanmakuFilterRules,
+      settings: DanmakuSettings
+    ): BilibiliDanmaku[] {
+      const { kept, removed, invalidPatterns } = filterDanmaku(danmaku, rules);
+      if (invalidPatterns.length > 0) {
+        console.warn('Ignoring invalid danmaku filter patterns:', invalidPatterns);
+      }
+
+      const processed = preprocessDanmaku(kept, toPreprocessOptions(settings));
+      console.log(
+        `Showing ${processed.length} of ${danmaku.length} danmaku (${kept.length} after filters), hidden:`,
+        removed
+      );
+      danmakuEngine.load(processed);
+      return kept;
+    }
+
+    // Load and display danmaku
+    async function loadDanmaku(mapping: UserMapping, youtubeVideoId: string) {
       try {
-        injectStyles();
-        injectDanmakuContainer();
+        const isStale = startLoad();
         const video = document.querySelector('video');
         if (!video) return;
 
-        // TODO: Implement video matching and danmaku loading
-        // This would require finding the corresponding Bilibili video
-        // and fetching its danmaku
-        console.log('Danmaku loading not yet implemented');
+        const pair = await findVideoPair(mapping, youtubeVideoId, isStale);
+        if (isStale()) return;
+        if (!pair) {
+          console.log('No matching Bilibili video found for', youtubeVideoId);
+          return;
+        }
+
+        const danmaku = await getDanmaku(pair.bvid, pair.cid);
+        if (isStale()) return;
+        const savedOffset = await loadSavedTimeOffset(youtubeVideoId);
+        if (isStale()) return;
+        let rules = await loadFilterRules();
+        if (isStale()) return;
+        let settings = await loadDanmakuSettings();
+        if (isStale()) return;
+
+        // Danmaku that passed the filters, before merging and sampling
+        let filtered: BilibiliDanmaku[] = [];
+
+        // Exports use the YouTube timeline, so subtitles line up with this video
+        const onExport = (format: DanmakuExportFormat) => {
+          const items = applyTimeOffset(filtered, danmakuEngine.timeOffset);
+          const content = exportDanmaku(items, format, {
+            cid: pair.cid,
+            scrollDuration: toEngineOptions(settings).scrollDuration,
+            opacity: settings.opacity,
+            displayArea: settings.displayArea,
+          });
+          const { extension, mimeType } = EXPORT_FORMATS[format];
+          downloadText(`${youtubeVideoId}.${extension}`, content, mimeType);
+        };
+
+        // Nothing below awaits, so the engine cannot outlive a navigation unnoticed
+        const container = injectDanmakuContainer(video);
+        const danmakuEngine = createEngine(video, container, settings, rules, onExport);
+        danmakuEngine.setTimeOffset(savedOffset ?? pair.offset);
+
+        // Density curve of the danmaku that passed the filters, on the YouTube timeline
+        const heatmap = container.parentElement
+          ? new DanmakuHeatmap(container.parentElement)
+          : null;
+        heatmap?.setVisible(settings.showHeatmap);
+        const refreshHeatmap = () => {
+          heatmap?.update(
+            densityBuckets(applyTimeOffset(filtered, danmakuEngine.timeOffset), video.duration)
+          );
+        };
+        video.addEventListener('durationchange', refreshHeatmap);
+
+        // Searchable list of the same danmaku beside the video, following playback
+        const listHost =
+          document.querySelector<HTMLElement>('#secondary-inner') ??
+          document.querySelector<HTMLElement>('#secondary');
+        const list = listHost
+          ? new DanmakuListPanel(listHost, time => {
+              video.currentTime = time;
+            })
+          : null;
+        list?.setVisible(settings.showList);
+        const onTimeUpdate = () => list?.setCurrentTime(video.currentTime);
+        video.addEventListener('timeupdate', onTimeUpdate);
+
+        // Offset changes move every item on the YouTube timeline
+        const refreshTimeline = () => {
+          refreshHeatmap();
+          list?.setItems(applyTimeOffset(filtered, danmakuEngine.timeOffset));
+          onTimeUpdate();
+        };
+
+        const reload = () => {
+          filtered = loadFiltered(danmakuEngine, danmaku, rules, settings);
+          refreshTimeline();
+        };
+        reload();
+        container.appendChild(
+          createOffsetControl(youtubeVideoId, danmakuEngine, pair.offset, refreshTimeline)
+        );
+
+        // Rules and preprocessing settings change which items are loaded
+        const removeFilterListener = onFilterRulesChanged(updated => {
+          rules = updated;
+          reload();
+        });
+        const removeSettingsListener = onDanmakuSettingsChanged(updated => {
+          const previous = settings;
+          settings = updated;
+          heatmap?.setVisible(updated.showHeatmap);
+          list?.setVisible(updated.showList);
+          if (
+            updated.mergeDuplicates !== previous.mergeDuplicates ||
+            updated.densityBudget !== previous.densityBudget
+          ) {
+            reload();
+          }
+        });
+
+        const teardown = teardownEngine;
+        teardownEngine = () => {
+          removeFilterListener();
+          removeSettingsListener();
+          video.removeEventListener('durationchange', refreshHeatmap);
+          video.removeEventListener('timeupdate', onTimeUpdate);
+          heatmap?.destroy();
+          list?.destroy();
+          teardown?.();
+        };
       } catch (error) {
         console.error('Failed to load danmaku:', error);
       }
     }
 
+    // Stream danmaku from the creator's Bilibili live room onto their YouTube stream
+    async function loadLiveDanmaku(mapping: UserMapping, youtubeVideoId: string) {
+      try {
+        const isStale = startLoad();
+        const video = document.querySelector('video');
+        if (!video) return;
+
+        const room = await biliApi.getLiveRoom(mapping.bilibiliUid);
+        if (isStale()) return;
+        if (!room || room.liveStatus !== 1) {
+          console.log('Bilibili live room is not streaming for', mapping.bilibiliUid);
+          return;
+        }
+
+        const { token, urls } = await biliApi.getDanmuInfo(room.roomId);
+        if (isStale()) return;
+        let rules = await loadFilterRules();
+        if (isStale()) return;
+        let settings = await loadDanmakuSettings();
+        if (isStale()) return;
+
+        // Live danmaku shown so far, at the player time they arrived
+        const received: BilibiliDanmaku[] = [];
+
+        const onExport = (format: DanmakuExportFormat) => {
+          const content = exportDanmaku(received, format, {
+            scrollDuration: toEngineOptions(settings).scrollDuration,
+            opacity: settings.opacity,
+            displayArea: settings.displayArea,
+          });
+          const { extension, mimeType } = EXPORT_FORMATS[format];
+          downloadText(`${youtubeVideoId}-live.${extension}`, content, mimeType);
+        };
+
+        const container = injectDanmakuContainer(video);
+        const danmakuEngine = createEngine(video, container, settings, rules, onExport);
+
+        // Items arrive one by one, so the per-second budget is applied as they come
+        const fitsDensity = createDensityLimiter();
+        const client = new BilibiliLiveClient(
+          { roomId: room.roomId, token, url: urls[0]! },
+          {
+            onDanmaku: live => {
+              const danmaku = liveDanmakuToBilibili(live, video.currentTime);
+              if (filterDanmaku([danmaku], rules).kept.length === 0) return;
+              if (!fitsDensity(danmaku.time, settings.densityBudget)) return;
+              received.push(danmaku);
+              danmakuEngine.push([danmaku]);
+            },
+          }
+        );
+        client.connect();
+        console.log(`Streaming live danmaku from Bilibili room ${room.roomId}`);
+
+        const removeFilterListener = onFilterRulesChanged(updated => {
+          rules = updated;
+        });
+        const removeSettingsListener = onDanmakuSettingsChanged(updated => {
+          settings = updated;
+        });
+
+        const teardown = teardownEngine;
+        teardownEngine = () => {
+          client.close();
+          removeFilterListener();
+          removeSettingsListener();
+          teardown?.();
+        };
+      } catch (error) {
+        console.error('Failed to load live danmaku:', error);
+      }
+    }
+
     // Run on page load
     checkAndShowMapping();
 
@@ -0,0 +1,148 @@
+import { parseArgs } from 'util';
+import { BilibiliAPI } from '../src/api/bilibili';
+import { YouTubeAPI } from '../src/api/youtube';
+import {
+  RecordedBilibiliAPI,
+  RecordedYouTubeAPI,
+  buildReport,
+  createRecordedImageHashes,
+  createRecordedShortLinks,
+  evaluatePairs,
+} from '../src/workflows/calibration';
+import type {
+  CalibrationDataset,
+  CalibrationReport,
+  ConfusionStats,
+} from '../src/workflows/calibration';
+import { UserVerifier } from '../src/workflows/verifier';
+import { DEFAULT_VERIFIER_CONFIG, loadVerifierConfig } from '../src/workflows/verifier-config';
+
+const USAGE = `Usage: bun run verifier:calibrate [options]
+
+Options:
+  -d, --dataset <file>       Labeled pairs and recordings (default: calibration/dataset.json)
+  -c, --config <file>        Verifier config to evaluate (default: config/verifier.json)
+      --min-precision <n>    Precision floor (default: the dataset's minPrecision)
+      --record               Fetch missing recordings (needs YOUTUBE_API_KEY) and save them
+      --json <file>          Also write the full report, including ROC points`;
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatStats({ precision, recall, truePositives, falsePositives }: ConfusionStats): string {
+  return `precision ${percent(precision)}  recall ${percent(recall)}  (${truePositives} TP, ${falsePositives} FP)`;
+}
+
+function printReport(report: CalibrationReport): void {
+  console.log(`${report.pairs} pairs, ${report.matches} matches\n`);
+
+  console.log(`Automatic (Levels 1-3): ${formatStats(report.overall)}`);
+  console.log(`Confidence ROC AUC: ${report.confidence.auc?.toFixed(3) ?? 'n/a'}\n`);
+
+  console.log('By level:');
+  for (const { level, accepted, precision, recall } of report.levels) {
+    console.log(
+      `  Level ${level}: ${accepted} accepted  precision ${percent(precision)}  recall ${percent(recall)}`
+    );
+  }
+
+  console.log('\nBy signal:');
+  for (const { name, measured, stats, roc } of report.signals) {
+    console.log(
+      `  ${name.padEnd(16)} ${formatStats(stats)}  AUC ${roc.auc?.toFixed(3) ?? 'n/a'}  (${measured} measured)`
+    );
+  }
+
+  if (report.mistakes.length > 0) {
+    console.log('\nMistakes:');
+    for (const { pair, level, confidence } of report.mistakes) {
+      const kind = pair.isMatch ? 'missed' : 'false match';
+      console.log(
+        `  ${pair.biliUid} -> ${pair.ytChannelId}: ${kind} at Level ${level} (${confidence.toFixed(2)})` +
+          (pair.note ? ` - ${pair.note}` : '')
+      );
+    }
+  }
+}
+
+/**
+ * Verifier calibration entry point
+ * Sets a non-zero exit code when precision falls below the floor.
+ */
+export async function main() {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      dataset: { type: 'string', short: 'd', default: 'calibration/dataset.json' },
+      config: { type: 'string', short: 'c' },
+      'min-precision': { type: 'string' },
+      record: { type: 'boolean' },
+      json: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const dataset: CalibrationDataset = await Bun.file(values.dataset).json();
+  const config = values.config ? await loadVerifierConfig(values.config) : DEFAULT_VERIFIER_CONFIG;
+  const minPrecision = Number(values['min-precision'] ?? dataset.minPrecision);
+
+  let sources: { biliApi: BilibiliAPI; ytApi: YouTubeAPI } | null = null;
+  if (values.record) {
+    const youtubeApiKey = process.env['YOUTUBE_API_KEY'];
+    if (!youtubeApiKey) {
+      throw new Error('YOUTUBE_API_KEY environment variable is required to record');
+    }
+    sources = {
+      biliApi: new BilibiliAPI(process.env['BILIBILI_SESSDATA']),
+      ytApi: new YouTubeAPI(youtubeApiKey),
+    };
+  }
+
+  const { recordings } = dataset;
+  const verifier = new UserVerifier(
+    new RecordedBilibiliAPI(recordings, sources?.biliApi),
+    new RecordedYouTubeAPI(recordings, sources?.ytApi),
+    {
+      config,
+      loadImageHashes: createRecordedImageHashes(recordings, values.record),
+      resolveShortLink: createRecordedShortLinks(recordings, values.record),
+    }
+  );
+
+  const report = buildReport(await evaluatePairs(verifier, dataset.pairs), config);
+  if (dataset.synthetic) {
+    console.log(
+      `${values.dataset} is a synthetic regression set; these numbers do not describe real channels\n`
+    );
+  }
+  printReport(report);
+
+  if (values.record) {
+    await Bun.write(values.dataset, `${JSON.stringify(dataset, null, 2)}\n`);
+    console.log(`\nSaved recordings to ${values.dataset}`);
+  }
+  if (values.json) {
+    await Bun.write(values.json, JSON.stringify(report, null, 2));
+  }
+
+  if (report.overall.precision < minPrecision) {
+    console.error(
+      `\nPrecision ${percent(report.overall.precision)} is below the floor of ${percent(minPrecision)}`
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,119 @@
+import { parseArgs } from 'util';
+import { BilibiliAPI, partDuration } from '../src/api/bilibili';
+import { parseDanmakuXml } from '../src/api/danmaku-xml';
+import { EXPORT_FORMATS, exportDanmaku } from '../src/danmaku/export';
+import type { DanmakuExportFormat } from '../src/danmaku/export';
+import { applyTimeOffset } from '../src/danmaku/offset';
+import type { BilibiliDanmaku } from '../types';
+
+const USAGE = `Usage: bun run danmaku:export <BV id | cid | list.xml> [options]
+
+Options:
+  -f, --format <ass|srt|xml>  Output format (default: ass)
+  -o, --output <file>         Output file (default: named after the source)
+      --offset <seconds>      Shift every danmaku by this many seconds
+      --duration <seconds>    Video length, required when the source is a cid
+      --width <px>            ASS script width (default: 1920)
+      --height <px>           ASS script height (default: 1080)`;
+
+function isExportFormat(format: string): format is DanmakuExportFormat {
+  return Object.hasOwn(EXPORT_FORMATS, format);
+}
+
+/**
+ * Read a size option, rejecting anything that is not a positive number
+ */
+function parseSize(name: string, value: string): number {
+  const size = Number(value);
+  if (!Number.isFinite(size) || size <= 0) {
+    throw new Error(`--${name} must be a positive number, got: ${value}`);
+  }
+  return size;
+}
+
+/**
+ * Read danmaku from a saved XML file, or fetch them for a video or cid
+ */
+async function loadSource(
+  source: string,
+  duration: number
+): Promise<{ danmaku: BilibiliDanmaku[]; cid: number }> {
+  if (source.endsWith('.xml')) {
+    const xml = await Bun.file(source).text();
+    const { danmaku, skipped } = parseDanmakuXml(xml);
+    if (skipped.length > 0) {
+      console.warn(`Skipped ${skipped.length} unparseable danmaku in ${source}`);
+    }
+    const cid = Number(/<chatid>(\d+)<\/chatid>/.exec(xml)?.[1] ?? 0);
+    return { danmaku, cid };
+  }
+
+  const api = new BilibiliAPI(process.env['BILIBILI_SESSDATA']);
+
+  if (/^BV[0-9A-Za-z]{10}$/.test(source)) {
+    const info = await api.getVideoInfo(source);
+    const danmaku = await api.getSegmentedDanmaku(info.cid, partDuration(info, info.cid));
+    return { danmaku, cid: info.cid };
+  }
+
+  const cid = Number(source);
+  if (!Number.isInteger(cid) || cid <= 0) {
+    throw new Error(`Not a BV id, cid or XML file: ${source}`);
+  }
+  if (!(duration > 0)) {
+    throw new Error('--duration is required to export danmaku by cid');
+  }
+  return { danmaku: await api.getSegmentedDanmaku(cid, duration), cid };
+}
+
+/**
+ * Danmaku export entry point
+ */
+export async function main() {
+  const { values, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      format: { type: 'string', short: 'f', default: 'ass' },
+      output: { type: 'string', short: 'o' },
+      offset: { type: 'string', default: '0' },
+      duration: { type: 'string', default: '0' },
+      width: { type: 'string', default: '1920' },
+      height: { type: 'string', default: '1080' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  });
+
+  const source = positionals[0];
+  if (values.help || !source) {
+    console.log(USAGE);
+    return;
+  }
+
+  const format = values.format;
+  if (!isExportFormat(format)) {
+    throw new Error(`Unknown format: ${format}`);
+  }
+  const width = parseSize('width', values.width);
+  const height = parseSize('height', values.height);
+
+  const { danmaku, cid } = await loadSource(source, Number(values.duration));
+  const items = applyTimeOffset(danmaku, { shift: Number(values.offset) || 0 });
+
+  const content = exportDanmaku(items, format, {
+    cid,
+    width,
+    height,
+  });
+  // Never overwrite an XML source with its own export
+  const base = source.endsWith('.xml') ? `${source.slice(0, -4)}.export` : source;
+  const output = values.output ?? `${base}.${EXPORT_FORMATS[format].extension}`;
+
+  await Bun.write(output, content);
+  console.log(`Exported ${items.length} danmaku to ${output}`);
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  main().catch(console.error);
+}
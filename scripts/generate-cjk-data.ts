@@ -0,0 +1,104 @@
+/**
+ * Regenerate src/utils/cjk-data.ts from ICU's transforms
+ * Needs the `uconv` tool from ICU (e.g. the icu-devtools package).
+ */
+
+const OUTPUT = 'src/utils/cjk-data.ts';
+
+/**
+ * Every character of a double-byte encoding's hanzi block
+ */
+function decodeRange(
+  encoding: string,
+  leads: [number, number],
+  trails: [number, number][]
+): string[] {
+  const decoder = new TextDecoder(encoding);
+  const characters: string[] = [];
+
+  for (let lead = leads[0]; lead <= leads[1]; lead++) {
+    for (const [from, to] of trails) {
+      for (let trail = from; trail <= to; trail++) {
+        const character = decoder.decode(new Uint8Array([lead, trail]));
+        if (/^\p{Script=Han}$/u.test(character)) characters.push(character);
+      }
+    }
+  }
+  return characters;
+}
+
+/**
+ * Run an ICU transform over one character per line
+ */
+function transform(id: string, characters: string[]): string[] {
+  const result = Bun.spawnSync(['uconv', '-x', id], {
+    stdin: new TextEncoder().encode(characters.join('\n')),
+  });
+  if (result.exitCode !== 0) {
+    throw new Error(`uconv -x ${id} failed: ${result.stderr.toString()}`);
+  }
+  return result.stdout.toString().split('\n').slice(0, characters.length);
+}
+
+function toneless(pinyin: string): string {
+  return pinyin.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().trim();
+}
+
+export async function main() {
+  // GB2312 level 1 and 2 hanzi, and Big5 common and less common hanzi
+  const simplified = decodeRange('gbk', [0xb0, 0xf7], [[0xa1, 0xfe]]);
+  const traditional = decodeRange(
+    'big5',
+    [0xa4, 0xf9],
+    [
+      [0x40, 0x7e],
+      [0xa1, 0xfe],
+    ]
+  );
+
+  const pinyin = new Map<string, string>();
+  transform('Han-Latin', simplified).forEach((reading, index) => {
+    const syllable = toneless(reading);
+    if (!/^[a-z]+$/.test(syllable)) return;
+    pinyin.set(syllable, (pinyin.get(syllable) ?? '') + simplified[index]);
+  });
+
+  let fromTraditional = '';
+  let toSimplified = '';
+  transform('Traditional-Simplified', traditional).forEach((converted, index) => {
+    const character = traditional[index]!;
+    if (converted !== character && [...converted].length === 1) {
+      fromTraditional += character;
+      toSimplified += converted;
+    }
+  });
+
+  const syllables = [...pinyin.keys()].sort();
+  const source = `// Generated by scripts/generate-cjk-data.ts from ICU's Han-Latin and
+// Traditional-Simplified transforms. Do not edit by hand.
+
+/**
+ * GB2312 hanzi by toneless pinyin
+ */
+export const PINYIN: Record<string, string> = {
+${syllables.map(syllable => `  ${syllable}: '${pinyin.get(syllable)}',`).join('\n')}
+};
+
+/**
+ * Big5 hanzi whose simplified form differs, aligned with SIMPLIFIED
+ */
+export const TRADITIONAL = '${fromTraditional}';
+
+export const SIMPLIFIED = '${toSimplified}';
+`;
+
+  await Bun.write(OUTPUT, source);
+  console.log(
+    `Wrote ${pinyin.size} syllables and ${[...fromTraditional].length} traditional forms to ${OUTPUT}`
+  );
+}
+
+// Run if executed directly
+if (import.meta.main) {
+  main().catch(console.error);
+}
@@ -0,0 +1,233 @@
+import {
+  LiveOperation,
+  LiveProtocolVersion,
+  decodePackets,
+  encodeAuthPacket,
+  encodeHeartbeatPacket,
+  inflateBody,
+  parseDanmuMsg,
+  readJsonBody,
+  readPopularity,
+} from './live-protocol';
+import type { CompressedProtocolVersion, LiveDanmaku, LiveDecompressor } from './live-protocol';
+
+/**
+ * The parts of a WebSocket the client relies on
+ * The browser WebSocket satisfies this interface; tests substitute a local stand-in.
+ */
+export interface LiveSocket {
+  binaryType: string;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: Uint8Array): void;
+  close(): void;
+}
+
+/**
+ * Live client options
+ */
+export interface LiveClientOptions {
+  roomId: number;
+  /** Token from getDanmuInfo */
+  token: string;
+  /** WebSocket endpoint, e.g. wss://broadcastlv.chat.bilibili.com/sub */
+  url: string;
+  /** Viewer UID, 0 for anonymous */
+  uid: number;
+  buvid?: string;
+  /** Compression the server should use; brotli needs a matching decompressor */
+  protover: CompressedProtocolVersion;
+  decompress: LiveDecompressor;
+  createSocket: (url: string) => LiveSocket;
+  /** Milliseconds between heartbeats */
+  heartbeatInterval: number;
+  /** Milliseconds before the first reconnect attempt; doubles up to a minute, 0 disables */
+  reconnectDelay: number;
+}
+
+const DEFAULT_LIVE_OPTIONS = {
+  uid: 0,
+  protover: LiveProtocolVersion.ZLIB,
+  decompress: inflateBody,
+  createSocket: (url: string): LiveSocket => new WebSocket(url),
+  heartbeatInterval: 30_000,
+  reconnectDelay: 5_000,
+} satisfies Partial<LiveClientOptions>;
+
+const MAX_RECONNECT_DELAY = 60_000;
+
+/**
+ * Live client callbacks
+ */
+export interface LiveClientHandlers {
+  onDanmaku?: (danmaku: LiveDanmaku) => void;
+  /** Viewer count from heartbeat replies */
+  onPopularity?: (popularity: number) => void;
+  /** Every command, including DANMU_MSG, as parsed from JSON */
+  onCommand?: (command: unknown) => void;
+  onAuthenticated?: () => void;
+  /** Connection lost; the client reconnects unless it was closed or auth failed */
+  onDisconnect?: () => void;
+}
+
+/**
+ * Client for a Bilibili live room's danmaku stream
+ */
+export class BilibiliLiveClient {
+  private options: LiveClientOptions;
+  private handlers: LiveClientHandlers;
+  private socket: LiveSocket | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private closed = true;
+  // Messages are decoded asynchronously; this keeps them in arrival order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    options: Pick<LiveClientOptions, 'roomId' | 'token' | 'url'> & Partial<LiveClientOptions>,
+    handlers: LiveClientHandlers = {}
+  ) {
+    this.options = { ...DEFAULT_LIVE_OPTIONS, ...options };
+    this.handlers = handlers;
+  }
+
+  /**
+   * Whether the socket is open and authenticated
+   */
+  get connected(): boolean {
+    return this.socket !== null && this.heartbeatTimer !== null;
+  }
+
+  /**
+   * Open the socket and authenticate
+   */
+  connect(): void {
+    this.closed = false;
+    this.open();
+  }
+
+  /**
+   * Close the socket and stop reconnecting
+   */
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.teardownSocket();
+  }
+
+  private open(): void {
+    const { url, uid, roomId, protover, buvid, token } = this.options;
+    const socket = this.options.createSocket(url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(
+        encodeAuthPacket({
+          uid,
+          roomid: roomId,
+          protover,
+          ...(buvid && { buvid }),
+          platform: 'web',
+          type: 2,
+          key: token,
+        })
+      );
+    };
+
+    socket.onmessage = event => {
+      const data = new Uint8Array(event.data as ArrayBuffer);
+      this.queue = this.queue
+        // Skip messages still queued when this socket was closed or replaced
+        .then(() => (this.socket === socket ? this.handleMessage(data) : undefined))
+        .catch(error => console.error('Failed to decode live message:', error));
+    };
+
+    socket.onerror = event => {
+      console.error('Live danmaku socket error:', event);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.teardownSocket();
+      this.handlers.onDisconnect?.();
+      this.scheduleReconnect();
+    };
+  }
+
+  private async handleMessage(data: Uint8Array): Promise<void> {
+    for (const packet of await decodePackets(data, this.options.decompress)) {
+      switch (packet.op) {
+        case LiveOperation.AUTH_REPLY: {
+          const { code } = readJsonBody(packet);
+          if (code !== 0) {
+            console.error(`Live danmaku authentication failed with code ${code}`);
+            this.close();
+            return;
+          }
+          this.reconnectAttempts = 0;
+          this.startHeartbeat();
+          this.handlers.onAuthenticated?.();
+          break;
+        }
+        case LiveOperation.HEARTBEAT_REPLY:
+          this.handlers.onPopularity?.(readPopularity(packet));
+          break;
+        case LiveOperation.COMMAND: {
+          const command = readJsonBody(packet);
+          this.handlers.onCommand?.(command);
+          const danmaku = parseDanmuMsg(command);
+          if (danmaku) this.handlers.onDanmaku?.(danmaku);
+          break;
+        }
+      }
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    const beat = () => this.socket?.send(encodeHeartbeatPacket());
+    beat();
+    this.heartbeatTimer = setInterval(beat, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.options.reconnectDelay <= 0) return;
+
+    const delay = Math.min(
+      this.options.reconnectDelay * 2 ** this.reconnectAttempts,
+      MAX_RECONNECT_DELAY
+    );
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.closed) this.open();
+    }, delay);
+  }
+
+  private teardownSocket(): void {
+    this.stopHeartbeat();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.close();
+    }
+  }
+}
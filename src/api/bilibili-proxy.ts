@@ -0,0 +1,107 @@
+/**
+ * fetch-compatible function BilibiliAPI sends its requests through
+ */
+export type BilibiliFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Message type a content script sends to have the background fetch a Bilibili URL
+ */
+export const BILIBILI_FETCH_MESSAGE = 'BILIBILI_FETCH';
+
+/**
+ * Request a content script sends to the background
+ */
+export interface BilibiliFetchRequest {
+  type: typeof BILIBILI_FETCH_MESSAGE;
+  url: string;
+}
+
+/**
+ * Background's answer; the body is base64 since messages only carry JSON
+ */
+export interface BilibiliFetchReply {
+  status: number;
+  statusText: string;
+  body: string;
+  error?: string;
+}
+
+/**
+ * Whether a URL points at Bilibili over HTTPS, the only requests the background makes for others
+ */
+export function isBilibiliUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (
+      protocol === 'https:' && (hostname === 'bilibili.com' || hostname.endsWith('.bilibili.com'))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Statuses whose Response may not carry a body
+ */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Fetch a Bilibili URL on behalf of a content script (background side)
+ * The extension's host permissions exempt this fetch from CORS, and the browser
+ * adds the user's own Bilibili cookies and User-Agent.
+ */
+export async function handleBilibiliFetch(
+  request: BilibiliFetchRequest,
+  fetcher: BilibiliFetch = fetch
+): Promise<BilibiliFetchReply> {
+  if (!isBilibiliUrl(request.url)) {
+    return { status: 0, statusText: '', body: '', error: `Not a Bilibili URL: ${request.url}` };
+  }
+
+  try {
+    const response = await fetcher(request.url, { credentials: 'include' });
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      body: toBase64(new Uint8Array(await response.arrayBuffer())),
+    };
+  } catch (error) {
+    return { status: 0, statusText: '', body: '', error: String(error) };
+  }
+}
+
+/**
+ * Create a fetch that goes through the background (content script side)
+ * Content scripts run under the page's CORS rules, so they cannot call Bilibili's API directly.
+ * Only the URL is forwarded; headers are left to the browser.
+ * @param sendMessage Sends a message to the background and resolves with its answer
+ */
+export function createProxyFetch(
+  sendMessage: (request: BilibiliFetchRequest) => Promise<BilibiliFetchReply | undefined>
+): BilibiliFetch {
+  return async url => {
+    const reply = await sendMessage({ type: BILIBILI_FETCH_MESSAGE, url });
+    if (!reply || reply.error !== undefined) {
+      throw new TypeError(
+        `Bilibili request failed: ${reply?.error ?? 'no answer from background'}`
+      );
+    }
+
+    return new Response(NULL_BODY_STATUSES.has(reply.status) ? null : fromBase64(reply.body), {
+      status: reply.status,
+      statusText: reply.statusText,
+    });
+  };
+}
@@ -1,5 +1,39 @@
-import crypto from 'crypto';
-import type { BilibiliUser, BilibiliVideo, BilibiliDanmaku } from '../../types';
+import type {
+  BilibiliUser,
+  BilibiliVideo,
+  BilibiliDanmaku,
+  BilibiliDanmuInfo,
+  BilibiliLiveRoom,
+} from '../../types';
+import { md5Hex } from '../utils/md5';
+import type { BilibiliFetch } from './bilibili-proxy';
+import { decodeDmSegMobileReply, toBilibiliDanmaku } from './danmaku-proto';
+import { parseDanmakuXml } from './danmaku-xml';
+
+/**
+ * Length of one segmented danmaku chunk (6 minutes)
+ */
+const DANMAKU_SEGMENT_SECONDS = 360;
+
+/**
+ * Length in seconds of one part of a video, from its getVideoInfo response
+ * Multi-part videos report the total length at the top level, so the part's own is preferred.
+ */
+export function partDuration(info: any, cid: number): number {
+  const page = info.pages?.find((page: any) => page.cid === cid);
+  return Number(page?.duration ?? info.duration) || 0;
+}
+
+/**
+ * Key identifying a danmaku repeated across segment boundaries
+ * The decoder leaves the ID at '0' when an element has none, so those fall back to
+ * what they show and when.
+ */
+function segmentMergeKey(danmaku: BilibiliDanmaku): string {
+  return danmaku.id && danmaku.id !== '0'
+    ? danmaku.id
+    : `${danmaku.time}|${danmaku.type}|${danmaku.content}`;
+}
 
 /**
  * Bilibili API client
@@ -7,11 +41,25 @@ import type { BilibiliUser, BilibiliVideo, BilibiliDanmaku } from '../../types';
  */
 export class BilibiliAPI {
   private baseUrl = 'https://api.bilibili.com';
+  private liveBaseUrl = 'https://api.live.bilibili.com';
   private wbiKeys: { imgKey: string; subKey: string } | null = null;
   private sessdata: string | null = null;
+  private fetcher: BilibiliFetch | null = null;
 
-  constructor(sessdata?: string) {
+  /**
+   * @param fetcher Sends the requests instead of the global fetch, e.g. the background
+   *   proxy in content scripts (see createProxyFetch)
+   */
+  constructor(sessdata?: string, fetcher?: BilibiliFetch) {
     this.sessdata = sessdata || null;
+    this.fetcher = fetcher ?? null;
+  }
+
+  /**
+   * Send a request through the configured fetcher
+   */
+  private fetch(url: string, init?: RequestInit): Promise<Response> {
+    return (this.fetcher ?? fetch)(url, init);
   }
 
   /**
@@ -22,7 +70,7 @@ export class BilibiliAPI {
       return this.wbiKeys;
     }
 
-    const response = await fetch('https://api.bilibili.com/x/web-interface/nav');
+    const response = await this.fetch('https://api.bilibili.com/x/web-interface/nav');
     const data = await response.json();
 
     const imgUrl = data.data.wbi_img.img_url;
@@ -49,7 +97,7 @@ export class BilibiliAPI {
 
     const wts = Math.floor(Date.now() / 1000);
     const toSign = `${sortedParams}&wts=${wts}${mixinKey}`;
-    const wRid = crypto.createHash('md5').update(toSign).digest('hex');
+    const wRid = md5Hex(toSign);
 
     return `${sortedParams}&wts=${wts}&w_rid=${wRid}`;
   }
@@ -73,16 +121,17 @@ export class BilibiliAPI {
       fullUrl = queryParams ? `${url}?${queryParams}` : url;
     }
 
-    const headers: HeadersInit = {
-      'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-      Referer: 'https://www.bilibili.com',
-    };
-
-    if (this.sessdata) {
-      headers['Cookie'] = `SESSDATA=${this.sessdata}`;
+    // Browsers forbid setting these and send their own, so they only go out from scripts
+    const headers: Record<string, string> = {};
+    if (!this.fetcher) {
+      headers['User-Agent'] = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36';
+      headers['Referer'] = 'https://www.bilibili.com';
+      if (this.sessdata) {
+        headers['Cookie'] = `SESSDATA=${this.sessdata}`;
+      }
     }
 
-    const response = await fetch(fullUrl, { headers });
+    const response = await this.fetch(fullUrl, { headers });
     const data = await response.json();
 
     if (data.code !== 0) {
@@ -142,6 +191,7 @@ export class BilibiliAPI {
       length: v.length,
       play: v.play,
       danmaku: v.video_review,
+      description: v.description,
     }));
   }
 
@@ -150,34 +200,53 @@ export class BilibiliAPI {
    */
   async getDanmaku(cid: number): Promise<BilibiliDanmaku[]> {
     const url = `https://api.bilibili.com/x/v1/dm/list.so?oid=${cid}`;
-    const response = await fetch(url);
+    const response = await this.fetch(url);
     const xml = await response.text();
 
-    // Parse XML danmaku
-    const danmakuList: BilibiliDanmaku[] = [];
-    const regex = /<d p="([^"]+)">([^<]+)<\/d>/g;
-    let match;
-
-    while ((match = regex.exec(xml)) !== null) {
-      const params = match[1]?.split(',');
-      const content = match[2];
-
-      if (!params || params.length < 8) continue;
-
-      danmakuList.push({
-        time: parseFloat(params[0] || '0'),
-        type: parseInt(params[1] || '1') as 1 | 4 | 5,
-        size: parseInt(params[2] || '25'),
-        color: parseInt(params[3] || '16777215'),
-        timestamp: parseInt(params[4] || '0'),
-        pool: parseInt(params[5] || '0'),
-        userHash: params[6] || '',
-        id: params[7] || '',
-        content: content || '',
-      });
+    const { danmaku, skipped } = parseDanmakuXml(xml);
+    if (skipped.length > 0) {
+      console.warn(`Skipped ${skipped.length} malformed danmaku for cid ${cid}`);
+    }
+
+    return danmaku;
+  }
+
+  /**
+   * Fetch one 6-minute segment of protobuf danmaku
+   * @param segmentIndex 1-based segment index
+   */
+  async getDanmakuSegment(cid: number, segmentIndex: number): Promise<BilibiliDanmaku[]> {
+    const url = `${this.baseUrl}/x/v2/dm/web/seg.so?type=1&oid=${cid}&segment_index=${segmentIndex}`;
+    const response = await this.fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to get danmaku segment ${segmentIndex}: ${response.statusText}`);
     }
 
-    return danmakuList;
+    const buffer = new Uint8Array(await response.arrayBuffer());
+    return toBilibiliDanmaku(decodeDmSegMobileReply(buffer));
+  }
+
+  /**
+   * Get full video danmaku from the segmented protobuf endpoint
+   * Unlike the XML endpoint, this is not capped to a fixed pool size.
+   * Segments may be empty during quiet stretches, so the length decides how many are fetched.
+   * @param duration Length of the Bilibili video part in seconds, see partDuration
+   */
+  async getSegmentedDanmaku(cid: number, duration: number): Promise<BilibiliDanmaku[]> {
+    if (!(duration > 0)) {
+      throw new Error(`Unknown duration for cid ${cid}; cannot tell how many segments to fetch`);
+    }
+    const segmentCount = Math.ceil(duration / DANMAKU_SEGMENT_SECONDS);
+
+    const merged = new Map<string, BilibiliDanmaku>();
+    for (let index = 1; index <= segmentCount; index++) {
+      const segment = await this.getDanmakuSegment(cid, index);
+      for (const danmaku of segment) {
+        merged.set(segmentMergeKey(danmaku), danmaku);
+      }
+    }
+
+    return [...merged.values()].sort((a, b) => a.time - b.time);
   }
 
   /**
@@ -188,11 +257,46 @@ export class BilibiliAPI {
     return data;
   }
 
+  /**
+   * Get a user's live room, or null if they never opened one
+   */
+  async getLiveRoom(uid: string): Promise<BilibiliLiveRoom | null> {
+    const data = await this.request<any>(`${this.liveBaseUrl}/room/v1/Room/getRoomInfoOld`, {
+      mid: uid,
+    });
+    if (!data?.roomid) return null;
+
+    return {
+      roomId: data.roomid,
+      uid,
+      title: data.title ?? '',
+      liveStatus: data.liveStatus,
+    };
+  }
+
+  /**
+   * Get the token and WebSocket endpoints for a live room's danmaku stream
+   */
+  async getDanmuInfo(roomId: number): Promise<BilibiliDanmuInfo> {
+    const data = await this.request<any>(
+      `${this.liveBaseUrl}/xlive/web-room/v1/index/getDanmuInfo`,
+      { id: roomId, type: 0 }
+    );
+
+    const urls = (data.host_list ?? []).map(
+      (host: any) => `wss://${host.host}:${host.wss_port}/sub`
+    );
+    return {
+      token: data.token,
+      urls: urls.length > 0 ? urls : ['wss://broadcastlv.chat.bilibili.com/sub'],
+    };
+  }
+
   /**
    * Get hot rankings
    */
   async getHotRankings(): Promise<BilibiliUser[]> {
-    const response = await fetch('https://api.bilibili.com/x/web-interface/ranking/v2');
+    const response = await this.fetch('https://api.bilibili.com/x/web-interface/ranking/v2');
     const data = await response.json();
 
     if (data.code !== 0) {
@@ -224,7 +328,7 @@ export class BilibiliAPI {
    * Get must-watch list (入站必刷榜)
    */
   async getMustWatchList(): Promise<BilibiliUser[]> {
-    const response = await fetch('https://api.bilibili.com/x/web-interface/popular/precious');
+    const response = await this.fetch('https://api.bilibili.com/x/web-interface/popular/precious');
     const data = await response.json();
 
     if (data.code !== 0) {
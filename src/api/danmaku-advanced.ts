@@ -0,0 +1,141 @@
+import type { AdvancedDanmaku, StagePoint } from '../../types';
+
+/**
+ * Player size that Bilibili's pixel coordinates refer to
+ */
+export const ADVANCED_REFERENCE_WIDTH = 672;
+export const ADVANCED_REFERENCE_HEIGHT = 438;
+
+/**
+ * Default time on screen when the payload does not specify one (seconds)
+ */
+const DEFAULT_ADVANCED_DURATION = 4.5;
+
+/**
+ * Read a numeric payload field, which Bilibili sends as either a number or a string
+ */
+function toNumber(value: unknown, fallback: number): number {
+  if (typeof value !== 'number' && typeof value !== 'string') return fallback;
+  if (typeof value === 'string' && value.trim() === '') return fallback;
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Read a boolean payload field (`true`, `1`, `"true"` or `"1"`)
+ */
+function toBoolean(value: unknown, fallback: boolean): boolean {
+  if (value === undefined || value === null || value === '') return fallback;
+  return value === true || value === 1 || value === 'true' || value === '1';
+}
+
+/**
+ * Convert a coordinate to a fraction of the stage
+ * Decimals between 0 and 1 are already relative; anything else is in reference pixels.
+ */
+function toFraction(value: unknown, reference: number, fallback: number): number {
+  const parsed = toNumber(value, NaN);
+  if (Number.isNaN(parsed)) return fallback;
+
+  const isDecimal = typeof value === 'string' ? value.includes('.') : !Number.isInteger(parsed);
+  if (isDecimal && parsed >= 0 && parsed <= 1) {
+    return parsed;
+  }
+  return parsed / reference;
+}
+
+/**
+ * Parse an opacity field ("from-to" or a single value)
+ */
+function parseAlpha(value: unknown): [number, number] {
+  if (typeof value === 'string' && value.includes('-')) {
+    const [from, to] = value.split('-');
+    return [clampAlpha(toNumber(from, 1)), clampAlpha(toNumber(to, 1))];
+  }
+  const alpha = clampAlpha(toNumber(value, 1));
+  return [alpha, alpha];
+}
+
+function clampAlpha(alpha: number): number {
+  return Math.min(Math.max(alpha, 0), 1);
+}
+
+/**
+ * Parse an SVG-like motion path ("M10,20L30,40...") in reference pixels
+ */
+function parsePath(value: unknown): StagePoint[] | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const points: StagePoint[] = [];
+  for (const match of value.matchAll(/[ML]\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)/gi)) {
+    points.push({
+      x: parseFloat(match[1]!) / ADVANCED_REFERENCE_WIDTH,
+      y: parseFloat(match[2]!) / ADVANCED_REFERENCE_HEIGHT,
+    });
+  }
+
+  return points.length >= 2 ? points : undefined;
+}
+
+/**
+ * Parse the JSON payload of an advanced (mode 7) danmaku
+ *
+ * Payload layout: [x, y, "alphaFrom-alphaTo", duration, text, rotateZ, rotateY,
+ * toX, toY, moveDuration (ms), moveDelay (ms), stroke, fontFamily, linear, path]
+ * @returns Parsed payload, or null if the content is not a valid payload
+ */
+export function parseAdvancedDanmaku(content: string): AdvancedDanmaku | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(payload) || payload.length < 5 || typeof payload[4] !== 'string') {
+    return null;
+  }
+
+  const fields: unknown[] = payload;
+  const start: StagePoint = {
+    x: toFraction(fields[0], ADVANCED_REFERENCE_WIDTH, 0),
+    y: toFraction(fields[1], ADVANCED_REFERENCE_HEIGHT, 0),
+  };
+  const end: StagePoint = {
+    x: toFraction(fields[7], ADVANCED_REFERENCE_WIDTH, start.x),
+    y: toFraction(fields[8], ADVANCED_REFERENCE_HEIGHT, start.y),
+  };
+
+  const duration = Math.max(toNumber(fields[3], DEFAULT_ADVANCED_DURATION), 0);
+  const [alphaFrom, alphaTo] = parseAlpha(fields[2]);
+  const moveDuration = toNumber(fields[9], 0) / 1000;
+
+  const advanced: AdvancedDanmaku = {
+    // Older payloads escape line breaks as a literal "/n"
+    text: (fields[4] as string).replace(/\/n/g, '\n'),
+    start,
+    end,
+    alphaFrom,
+    alphaTo,
+    duration,
+    moveDelay: Math.max(toNumber(fields[10], 0) / 1000, 0),
+    // A missing movement time means the item moves for its whole lifetime
+    moveDuration: moveDuration > 0 ? moveDuration : duration,
+    rotateZ: toNumber(fields[5], 0),
+    rotateY: toNumber(fields[6], 0),
+    stroke: toBoolean(fields[11], true),
+    linear: toBoolean(fields[13], false),
+  };
+
+  if (typeof fields[12] === 'string' && fields[12].trim() !== '') {
+    advanced.fontFamily = fields[12].trim();
+  }
+
+  const path = parsePath(fields[14]);
+  if (path) {
+    advanced.path = path;
+  }
+
+  return advanced;
+}
@@ -0,0 +1,254 @@
+import type { BilibiliDanmaku } from '../../types';
+import { parseAdvancedDanmaku } from './danmaku-advanced';
+import { isDanmakuMode } from './danmaku-xml';
+
+/**
+ * Raw `DanmakuElem` message from Bilibili's `DmSegMobileReply`
+ * Reference: bilibili.community.service.dm.v1 (dm.proto)
+ */
+export interface DanmakuElem {
+  id: string;
+  /** Offset into the video in milliseconds */
+  progress: number;
+  mode: number;
+  fontsize: number;
+  color: number;
+  midHash: string;
+  content: string;
+  /** Send time in seconds */
+  ctime: number;
+  weight: number;
+  action: string;
+  pool: number;
+  idStr: string;
+  attr: number;
+}
+
+/**
+ * Protobuf wire types
+ */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Minimal protobuf reader covering the wire types used by the danmaku protocol
+ */
+class ProtoReader {
+  private buffer: Uint8Array;
+  private decoder = new TextDecoder();
+  pos: number;
+  end: number;
+
+  constructor(buffer: Uint8Array, pos: number = 0, end: number = buffer.length) {
+    this.buffer = buffer;
+    this.pos = pos;
+    this.end = end;
+  }
+
+  /**
+   * Read a base-128 varint (up to 64 bits)
+   */
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+
+    while (this.pos < this.end) {
+      const byte = this.buffer[this.pos++]!;
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      shift += 7n;
+      if (shift > 63n) break;
+    }
+
+    throw new Error('Malformed protobuf varint');
+  }
+
+  int32(): number {
+    return Number(BigInt.asIntN(32, this.varint()));
+  }
+
+  uint32(): number {
+    return Number(BigInt.asUintN(32, this.varint()));
+  }
+
+  int64(): string {
+    return BigInt.asIntN(64, this.varint()).toString();
+  }
+
+  /**
+   * Read a length-delimited field and return a reader scoped to it
+   */
+  bytes(): ProtoReader {
+    const length = Number(this.varint());
+    const start = this.pos;
+    if (start + length > this.end) {
+      throw new Error('Truncated protobuf message');
+    }
+    this.pos += length;
+    return new ProtoReader(this.buffer, start, start + length);
+  }
+
+  string(): string {
+    const field = this.bytes();
+    return this.decoder.decode(this.buffer.subarray(field.pos, field.end));
+  }
+
+  /**
+   * Skip a field of the given wire type
+   */
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_FIXED64:
+        this.pos += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.bytes();
+        break;
+      case WIRE_FIXED32:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type: ${wireType}`);
+    }
+  }
+
+  /**
+   * Read a field tag
+   */
+  tag(): { field: number; wireType: number } {
+    const tag = Number(this.varint());
+    return { field: tag >>> 3, wireType: tag & 0x07 };
+  }
+}
+
+/**
+ * Decode a single `DanmakuElem`
+ */
+function decodeDanmakuElem(reader: ProtoReader): DanmakuElem {
+  const elem: DanmakuElem = {
+    id: '0',
+    progress: 0,
+    mode: 1,
+    fontsize: 25,
+    color: 16777215,
+    midHash: '',
+    content: '',
+    ctime: 0,
+    weight: 0,
+    action: '',
+    pool: 0,
+    idStr: '',
+    attr: 0,
+  };
+
+  while (reader.pos < reader.end) {
+    const { field, wireType } = reader.tag();
+
+    switch (field) {
+      case 1:
+        elem.id = reader.int64();
+        break;
+      case 2:
+        elem.progress = reader.int32();
+        break;
+      case 3:
+        elem.mode = reader.int32();
+        break;
+      case 4:
+        elem.fontsize = reader.int32();
+        break;
+      case 5:
+        elem.color = reader.uint32();
+        break;
+      case 6:
+        elem.midHash = reader.string();
+        break;
+      case 7:
+        elem.content = reader.string();
+        break;
+      case 8:
+        elem.ctime = Number(reader.int64());
+        break;
+      case 9:
+        elem.weight = reader.int32();
+        break;
+      case 10:
+        elem.action = reader.string();
+        break;
+      case 11:
+        elem.pool = reader.int32();
+        break;
+      case 12:
+        elem.idStr = reader.string();
+        break;
+      case 13:
+        elem.attr = reader.int32();
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  return elem;
+}
+
+/**
+ * Decode a `DmSegMobileReply` into its raw danmaku elements
+ */
+export function decodeDmSegMobileReply(buffer: Uint8Array): DanmakuElem[] {
+  const reader = new ProtoReader(buffer);
+  const elems: DanmakuElem[] = [];
+
+  while (reader.pos < reader.end) {
+    const { field, wireType } = reader.tag();
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+      elems.push(decodeDanmakuElem(reader.bytes()));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return elems;
+}
+
+/**
+ * Convert raw danmaku elements to `BilibiliDanmaku` items, skipping unknown modes
+ */
+export function toBilibiliDanmaku(elems: DanmakuElem[]): BilibiliDanmaku[] {
+  const danmakuList: BilibiliDanmaku[] = [];
+
+  for (const elem of elems) {
+    if (!isDanmakuMode(elem.mode)) continue;
+
+    const danmaku: BilibiliDanmaku = {
+      time: elem.progress / 1000,
+      type: elem.mode,
+      size: elem.fontsize,
+      color: elem.color,
+      timestamp: elem.ctime,
+      pool: elem.pool,
+      userHash: elem.midHash,
+      id: elem.idStr || elem.id,
+      content: elem.content,
+      weight: elem.weight,
+    };
+
+    if (elem.mode === 7) {
+      const advanced = parseAdvancedDanmaku(elem.content);
+      if (advanced) {
+        danmaku.advanced = advanced;
+      }
+    }
+
+    danmakuList.push(danmaku);
+  }
+
+  return danmakuList;
+}
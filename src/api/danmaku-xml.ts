@@ -0,0 +1,143 @@
+import type { BilibiliDanmaku, DanmakuMode } from '../../types';
+import { parseAdvancedDanmaku } from './danmaku-advanced';
+
+/**
+ * Danmaku entry that could not be parsed
+ */
+export interface SkippedDanmaku {
+  /** Raw `<d>` element */
+  raw: string;
+  reason: string;
+}
+
+/**
+ * Result of parsing a Bilibili danmaku XML document
+ */
+export interface DanmakuXmlResult {
+  danmaku: BilibiliDanmaku[];
+  skipped: SkippedDanmaku[];
+}
+
+/**
+ * Named XML/HTML entities seen in Bilibili danmaku
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Whether a number is a known danmaku mode
+ */
+export function isDanmakuMode(mode: number): mode is DanmakuMode {
+  return Number.isInteger(mode) && mode >= 1 && mode <= 8;
+}
+
+/**
+ * Decode named and numeric character references
+ * Unknown or invalid references are left untouched.
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (reference, body: string) => {
+    if (body[0] === '#') {
+      const codePoint =
+        body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1));
+      if (codePoint > 0 && codePoint <= 0x10ffff) {
+        return String.fromCodePoint(codePoint);
+      }
+      return reference;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? reference;
+  });
+}
+
+/**
+ * Parse the `p` attribute of a danmaku element
+ * Format: time,mode,size,color,timestamp,pool,userHash,id[,weight]
+ */
+function parseAttributes(p: string, content: string): BilibiliDanmaku | string {
+  const params = p.split(',');
+  if (params.length < 8) {
+    return `Expected at least 8 p fields, got ${params.length}`;
+  }
+
+  const [time, mode, size, color, timestamp, pool, userHash, id, weight] = params;
+
+  const parsedTime = parseFloat(time!);
+  if (!Number.isFinite(parsedTime) || parsedTime < 0) {
+    return `Invalid time: ${time}`;
+  }
+
+  const parsedMode = parseInt(mode!);
+  if (!isDanmakuMode(parsedMode)) {
+    return `Unknown mode: ${mode}`;
+  }
+
+  // Danmaku without a color are shown in the default white; 0 is an explicit black
+  const parsedColor = parseInt(color!);
+
+  const danmaku: BilibiliDanmaku = {
+    time: parsedTime,
+    type: parsedMode,
+    size: parseInt(size!) || 25,
+    color: Number.isFinite(parsedColor) ? parsedColor : 16777215,
+    timestamp: parseInt(timestamp!) || 0,
+    pool: parseInt(pool!) || 0,
+    userHash: userHash!,
+    id: id!,
+    content,
+  };
+
+  const parsedWeight = parseInt(weight ?? '');
+  if (Number.isFinite(parsedWeight)) {
+    danmaku.weight = parsedWeight;
+  }
+
+  if (parsedMode === 7) {
+    const advanced = parseAdvancedDanmaku(content);
+    if (advanced) {
+      danmaku.advanced = advanced;
+    }
+  }
+
+  return danmaku;
+}
+
+/**
+ * Parse a Bilibili danmaku XML document (`x/v1/dm/list.so`)
+ * Handles empty and self-closing elements, CDATA, entity-encoded content and
+ * every danmaku mode, reporting entries that cannot be parsed instead of dropping them silently.
+ */
+export function parseDanmakuXml(xml: string): DanmakuXmlResult {
+  const danmaku: BilibiliDanmaku[] = [];
+  const skipped: SkippedDanmaku[] = [];
+  const elementRegex = /<d\b([^>]*?)(?:\/>|>([\s\S]*?)<\/d\s*>)/g;
+
+  let match;
+  while ((match = elementRegex.exec(xml)) !== null) {
+    const [raw, attributes = '', body = ''] = match;
+
+    const pMatch = attributes.match(/\bp\s*=\s*(?:"([^"]*)"|'([^']*)')/);
+    const p = pMatch?.[1] ?? pMatch?.[2];
+    if (p === undefined) {
+      skipped.push({ raw, reason: 'Missing p attribute' });
+      continue;
+    }
+
+    const cdata = body.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+    const content = cdata ? cdata[1]! : decodeXmlEntities(body);
+
+    const result = parseAttributes(decodeXmlEntities(p), content);
+    if (typeof result === 'string') {
+      skipped.push({ raw, reason: result });
+    } else {
+      danmaku.push(result);
+    }
+  }
+
+  return { danmaku, skipped };
+}
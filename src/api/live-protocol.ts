@@ -0,0 +1,272 @@
+import type { BilibiliDanmaku, DanmakuMode } from '../../types';
+import { isDanmakuMode } from './danmaku-xml';
+
+/**
+ * Bilibili live danmaku WebSocket protocol
+ *
+ * Every packet starts with a 16-byte big-endian header:
+ * packet length (u32), header length (u16), protocol version (u16),
+ * operation (u32) and sequence (u32). Compressed packets carry further
+ * packets in their body; one WebSocket message may hold several packets.
+ * Reference: https://github.com/SocialSisterYi/bilibili-API-collect (live message stream)
+ */
+
+export const LIVE_HEADER_LENGTH = 16;
+
+/**
+ * Packet operations
+ */
+export const LiveOperation = {
+  HEARTBEAT: 2,
+  HEARTBEAT_REPLY: 3,
+  COMMAND: 5,
+  AUTH: 7,
+  AUTH_REPLY: 8,
+} as const;
+
+/**
+ * Body encodings
+ * JSON for commands, INT32 for heartbeat replies, and compressed packet batches.
+ */
+export const LiveProtocolVersion = {
+  JSON: 0,
+  INT32: 1,
+  ZLIB: 2,
+  BROTLI: 3,
+} as const;
+
+export type CompressedProtocolVersion =
+  | typeof LiveProtocolVersion.ZLIB
+  | typeof LiveProtocolVersion.BROTLI;
+
+/**
+ * One decoded packet
+ */
+export interface LivePacket {
+  protover: number;
+  op: number;
+  seq: number;
+  body: Uint8Array;
+}
+
+/**
+ * Inflates a compressed packet body
+ */
+export type LiveDecompressor = (
+  body: Uint8Array,
+  protover: CompressedProtocolVersion
+) => Promise<Uint8Array> | Uint8Array;
+
+/**
+ * Authentication packet body
+ */
+export interface LiveAuthBody {
+  /** Viewer UID, 0 for anonymous */
+  uid: number;
+  roomid: number;
+  /** Protocol version the server should use for command batches */
+  protover: CompressedProtocolVersion;
+  /** Browser id cookie; anonymous viewers without one receive censored names */
+  buvid?: string;
+  platform: 'web';
+  type: 2;
+  /** Token from getDanmuInfo */
+  key: string;
+}
+
+/**
+ * Live danmaku read from a DANMU_MSG command
+ */
+export interface LiveDanmaku {
+  text: string;
+  mode: DanmakuMode;
+  size: number;
+  color: number;
+  /** Send time in milliseconds */
+  timestamp: number;
+  uid: number;
+  uname: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Build one packet
+ */
+export function encodePacket(
+  op: number,
+  body: string | Uint8Array = '',
+  protover: number = LiveProtocolVersion.INT32,
+  seq: number = 1
+): Uint8Array {
+  const payload = typeof body === 'string' ? encoder.encode(body) : body;
+  const packet = new Uint8Array(LIVE_HEADER_LENGTH + payload.length);
+  const view = new DataView(packet.buffer);
+
+  view.setUint32(0, packet.length);
+  view.setUint16(4, LIVE_HEADER_LENGTH);
+  view.setUint16(6, protover);
+  view.setUint32(8, op);
+  view.setUint32(12, seq);
+  packet.set(payload, LIVE_HEADER_LENGTH);
+
+  return packet;
+}
+
+/**
+ * Build the authentication packet sent right after the socket opens
+ */
+export function encodeAuthPacket(auth: LiveAuthBody): Uint8Array {
+  return encodePacket(LiveOperation.AUTH, JSON.stringify(auth));
+}
+
+/**
+ * Build a heartbeat packet; the server closes sockets silent for about 70 seconds
+ */
+export function encodeHeartbeatPacket(): Uint8Array {
+  return encodePacket(LiveOperation.HEARTBEAT, '[object Object]');
+}
+
+/**
+ * Split a buffer into the packets it holds, without decompressing them
+ * @throws Error if a header is truncated or inconsistent
+ */
+export function splitPackets(buffer: Uint8Array): LivePacket[] {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const packets: LivePacket[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    if (buffer.length - offset < LIVE_HEADER_LENGTH) {
+      throw new Error(`Truncated live packet header at byte ${offset}`);
+    }
+
+    const packetLength = view.getUint32(offset);
+    const headerLength = view.getUint16(offset + 4);
+    if (
+      headerLength < LIVE_HEADER_LENGTH ||
+      packetLength < headerLength ||
+      offset + packetLength > buffer.length
+    ) {
+      throw new Error(`Malformed live packet at byte ${offset}`);
+    }
+
+    packets.push({
+      protover: view.getUint16(offset + 6),
+      op: view.getUint32(offset + 8),
+      seq: view.getUint32(offset + 12),
+      body: buffer.subarray(offset + headerLength, offset + packetLength),
+    });
+    offset += packetLength;
+  }
+
+  return packets;
+}
+
+/**
+ * Decode a WebSocket message into plain packets, expanding compressed batches
+ */
+export async function decodePackets(
+  buffer: Uint8Array,
+  decompress: LiveDecompressor = inflateBody
+): Promise<LivePacket[]> {
+  const packets: LivePacket[] = [];
+
+  for (const packet of splitPackets(buffer)) {
+    if (
+      packet.protover === LiveProtocolVersion.ZLIB ||
+      packet.protover === LiveProtocolVersion.BROTLI
+    ) {
+      const inflated = await decompress(packet.body, packet.protover);
+      packets.push(...(await decodePackets(inflated, decompress)));
+    } else {
+      packets.push(packet);
+    }
+  }
+
+  return packets;
+}
+
+/**
+ * Default decompressor built on the browser's DecompressionStream
+ * Browsers cannot inflate brotli streams, so clients using it must ask for zlib.
+ */
+export async function inflateBody(
+  body: Uint8Array,
+  protover: CompressedProtocolVersion
+): Promise<Uint8Array> {
+  if (protover !== LiveProtocolVersion.ZLIB) {
+    throw new Error('Brotli live packets need a custom decompressor');
+  }
+
+  const stream = new Blob([body.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read a JSON body
+ */
+export function readJsonBody(packet: LivePacket): any {
+  return JSON.parse(decoder.decode(packet.body));
+}
+
+/**
+ * Read the viewer count carried by a heartbeat reply
+ */
+export function readPopularity(packet: LivePacket): number {
+  if (packet.body.length < 4) return 0;
+  return new DataView(packet.body.buffer, packet.body.byteOffset, 4).getUint32(0);
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return value !== null && value !== '' && Number.isFinite(number) ? number : fallback;
+}
+
+/**
+ * Read a DANMU_MSG command
+ * The command name may carry suffixes ("DANMU_MSG:4:0:2:2:2:0"); returns null
+ * for other commands or an unexpected shape.
+ */
+export function parseDanmuMsg(command: any): LiveDanmaku | null {
+  if (typeof command?.cmd !== 'string' || command.cmd.split(':')[0] !== 'DANMU_MSG') {
+    return null;
+  }
+
+  const info = command.info;
+  const meta = info?.[0];
+  const text = info?.[1];
+  const user = info?.[2];
+  if (!Array.isArray(meta) || typeof text !== 'string' || !Array.isArray(user)) {
+    return null;
+  }
+
+  const mode = toNumber(meta[1], 1);
+  return {
+    text,
+    mode: isDanmakuMode(mode) ? mode : 1,
+    size: toNumber(meta[2], 25),
+    color: toNumber(meta[3], 0xffffff),
+    timestamp: toNumber(meta[4], 0),
+    uid: toNumber(user[0], 0),
+    uname: String(user[1] ?? ''),
+  };
+}
+
+/**
+ * Place a live danmaku on the player timeline at the given video time
+ */
+export function liveDanmakuToBilibili(danmaku: LiveDanmaku, time: number): BilibiliDanmaku {
+  return {
+    time,
+    type: danmaku.mode,
+    size: danmaku.size,
+    color: danmaku.color,
+    timestamp: Math.floor(danmaku.timestamp / 1000),
+    pool: 0,
+    userHash: danmaku.uid ? String(danmaku.uid) : danmaku.uname,
+    id: `live-${danmaku.timestamp}-${danmaku.uid}-${danmaku.text}`,
+    content: danmaku.text,
+  };
+}
@@ -1,14 +1,56 @@
-import type { YouTubeChannel, YouTubeVideo } from '../../types';
+import type { YouTubeChannel, YouTubeComment, YouTubeVideo } from '../../types';
+import { parseChannelReference } from '../utils/youtube-channel';
+
+/**
+ * Targets of the youtube.com/redirect links in a YouTube page
+ */
+export function parseRedirectLinks(html: string): string[] {
+  const targets = new Set<string>();
+  for (const [url] of html.matchAll(/https:\/\/www\.youtube\.com\/redirect\?[^"\s]+/g)) {
+    const target = new URL(url.replace(/\\u0026/g, '&')).searchParams.get('q');
+    if (target) targets.add(target);
+  }
+  return [...targets];
+}
+
+/** Most items the Data API returns per request */
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Map a videos resource to a YouTubeVideo
+ */
+function toVideo(item: any): YouTubeVideo {
+  return {
+    id: item.id,
+    title: item.snippet.title,
+    description: item.snippet.description,
+    channelId: item.snippet.channelId,
+    channelTitle: item.snippet.channelTitle,
+    publishedAt: item.snippet.publishedAt,
+    thumbnails: {
+      default: item.snippet.thumbnails.default.url,
+      medium: item.snippet.thumbnails.medium.url,
+      high: item.snippet.thumbnails.high.url,
+    },
+    duration: item.contentDetails.duration,
+    viewCount: parseInt(item.statistics.viewCount || '0'),
+  };
+}
 
 /**
  * YouTube Data API v3 client
  */
 export class YouTubeAPI {
-  private apiKey: string;
-  private baseUrl = 'https://www.googleapis.com/youtube/v3';
+  private apiKey: string | null;
+  private baseUrl: string;
 
-  constructor(apiKey: string) {
+  /**
+   * @param apiKey Data API key, or null when `baseUrl` is a proxy that adds its own
+   * @param baseUrl Where Data API requests go, e.g. the worker's /youtube route
+   */
+  constructor(apiKey: string | null, baseUrl = 'https://www.googleapis.com/youtube/v3') {
     this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
   }
 
   /**
@@ -16,7 +58,9 @@ export class YouTubeAPI {
    */
   private async request<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
     const url = new URL(`${this.baseUrl}/${endpoint}`);
-    url.searchParams.append('key', this.apiKey);
+    if (this.apiKey) {
+      url.searchParams.append('key', this.apiKey);
+    }
 
     for (const [key, value] of Object.entries(params)) {
       url.searchParams.append(key, value.toString());
@@ -63,6 +107,42 @@ export class YouTubeAPI {
     };
   }
 
+  /**
+   * Resolve a channel URL, handle or legacy username to a channel ID
+   * @returns The channel ID, or null if no channel goes by that name
+   */
+  async resolveChannelId(input: string): Promise<string | null> {
+    const reference = parseChannelReference(input) ?? parseChannelReference(`@${input}`);
+    if (!reference) return null;
+    if (reference.kind === 'id') return reference.value;
+
+    const data = await this.request<any>('channels', {
+      part: 'id',
+      ...(reference.kind === 'handle'
+        ? { forHandle: reference.value }
+        : { forUsername: reference.value }),
+    });
+    return data.items?.[0]?.id ?? null;
+  }
+
+  /**
+   * Get the external links on a channel's About page
+   * The Data API does not expose them, so they are read from the page's redirect links.
+   * @returns Link targets, or an empty list if the page could not be read
+   */
+  async getChannelLinks(channelId: string): Promise<string[]> {
+    try {
+      const response = await fetch(`https://www.youtube.com/channel/${channelId}/about`);
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      return parseRedirectLinks(await response.text());
+    } catch (error) {
+      console.warn(`Failed to get links of channel ${channelId}:`, error);
+      return [];
+    }
+  }
+
   /**
    * Search channels by keyword
    */
@@ -91,32 +171,35 @@ export class YouTubeAPI {
   }
 
   /**
-   * Get channel's videos
+   * Get a channel's latest uploads, newest first
+   * Pages through the uploads playlist, then looks up durations and view counts.
    */
   async getChannelVideos(channelId: string, maxResults: number = 10): Promise<YouTubeVideo[]> {
-    const data = await this.request<any>('search', {
-      part: 'snippet',
-      channelId,
-      type: 'video',
-      order: 'date',
-      maxResults,
-    });
-
-    return data.items.map((item: any) => ({
-      id: item.id.videoId,
-      title: item.snippet.title,
-      description: item.snippet.description,
-      channelId: item.snippet.channelId,
-      channelTitle: item.snippet.channelTitle,
-      publishedAt: item.snippet.publishedAt,
-      thumbnails: {
-        default: item.snippet.thumbnails.default.url,
-        medium: item.snippet.thumbnails.medium.url,
-        high: item.snippet.thumbnails.high.url,
-      },
-      duration: '',
-      viewCount: 0,
-    }));
+    // Every channel's uploads playlist is its ID with "UC" replaced by "UU"
+    const playlistId = `UU${channelId.slice(2)}`;
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const data = await this.request<any>('playlistItems', {
+        part: 'contentDetails',
+        playlistId,
+        maxResults: Math.min(maxResults - videoIds.length, MAX_PAGE_SIZE),
+        ...(pageToken && { pageToken }),
+      });
+      videoIds.push(...data.items.map((item: any) => item.contentDetails.videoId));
+      pageToken = data.nextPageToken;
+    } while (pageToken && videoIds.length < maxResults);
+
+    const videos: YouTubeVideo[] = [];
+    for (let start = 0; start < videoIds.length; start += MAX_PAGE_SIZE) {
+      const data = await this.request<any>('videos', {
+        part: 'snippet,contentDetails,statistics',
+        id: videoIds.slice(start, start + MAX_PAGE_SIZE).join(','),
+      });
+      videos.push(...data.items.map(toVideo));
+    }
+    return videos;
   }
 
   /**
@@ -132,35 +215,24 @@ export class YouTubeAPI {
       throw new Error(`Video not found: ${videoId}`);
     }
 
-    const item = data.items[0];
-
-    return {
-      id: item.id,
-      title: item.snippet.title,
-      description: item.snippet.description,
-      channelId: item.snippet.channelId,
-      channelTitle: item.snippet.channelTitle,
-      publishedAt: item.snippet.publishedAt,
-      thumbnails: {
-        default: item.snippet.thumbnails.default.url,
-        medium: item.snippet.thumbnails.medium.url,
-        high: item.snippet.thumbnails.high.url,
-      },
-      duration: item.contentDetails.duration,
-      viewCount: parseInt(item.statistics.viewCount || '0'),
-    };
+    return toVideo(data.items[0]);
   }
 
   /**
    * Get video comments (as danmaku alternative)
    */
-  async getVideoComments(videoId: string, maxResults: number = 100): Promise<any[]> {
+  async getVideoComments(
+    videoId: string,
+    maxResults: number = 100,
+    order: 'time' | 'relevance' = 'time'
+  ): Promise<YouTubeComment[]> {
     try {
       const data = await this.request<any>('commentThreads', {
         part: 'snippet',
         videoId,
         maxResults,
-        order: 'time',
+        order,
+        textFormat: 'plainText',
       });
 
       return data.items.map((item: any) => ({
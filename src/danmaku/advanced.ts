@@ -0,0 +1,64 @@
+import type { AdvancedDanmaku, StagePoint } from '../../types';
+
+/**
+ * Placement of an advanced danmaku at one moment, in stage pixels
+ */
+export interface AdvancedFrame {
+  x: number;
+  y: number;
+  /** Opacity (0-1) */
+  alpha: number;
+  /** Rotation around the Z axis in degrees */
+  rotateZ: number;
+  /** Rotation around the Y axis in degrees */
+  rotateY: number;
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Point reached after travelling a fraction of the way along a path
+ * Every segment takes the same share of the movement time, as in Bilibili's player.
+ */
+function pointAlong(path: readonly StagePoint[], progress: number): StagePoint {
+  const position = progress * (path.length - 1);
+  const index = Math.min(Math.floor(position), path.length - 2);
+  const from = path[index]!;
+  const to = path[index + 1]!;
+  const t = position - index;
+
+  return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+}
+
+/**
+ * Compute where an advanced danmaku is drawn a given time after it appeared
+ */
+export function advancedFrameAt(
+  advanced: AdvancedDanmaku,
+  elapsed: number,
+  stageWidth: number,
+  stageHeight: number
+): AdvancedFrame {
+  const moveProgress =
+    advanced.moveDuration > 0 ? clamp((elapsed - advanced.moveDelay) / advanced.moveDuration) : 1;
+  const eased = advanced.linear ? moveProgress : 1 - (1 - moveProgress) ** 2;
+
+  const point = advanced.path
+    ? pointAlong(advanced.path, eased)
+    : {
+        x: advanced.start.x + (advanced.end.x - advanced.start.x) * eased,
+        y: advanced.start.y + (advanced.end.y - advanced.start.y) * eased,
+      };
+
+  const lifeProgress = advanced.duration > 0 ? clamp(elapsed / advanced.duration) : 1;
+
+  return {
+    x: point.x * stageWidth,
+    y: point.y * stageHeight,
+    alpha: advanced.alphaFrom + (advanced.alphaTo - advanced.alphaFrom) * lifeProgress,
+    rotateZ: advanced.rotateZ,
+    rotateY: advanced.rotateY,
+  };
+}
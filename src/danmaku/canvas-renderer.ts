@@ -0,0 +1,247 @@
+import type { BilibiliDanmaku } from '../../types';
+import { advancedFrameAt } from './advanced';
+import type { ActiveDanmaku, DanmakuRenderer, DanmakuRenderStyle } from './engine';
+import { DEFAULT_RENDER_STYLE, displayLines, positionAt } from './engine';
+import { danmakuFontFamily, toCssColor } from './dom-renderer';
+
+/**
+ * Pre-rendered danmaku text
+ */
+interface Sprite {
+  image: HTMLCanvasElement | OffscreenCanvas;
+  /** Size in CSS pixels */
+  width: number;
+  height: number;
+}
+
+/**
+ * Canvas renderer options
+ */
+export interface CanvasRendererOptions {
+  /** Maximum number of cached text sprites */
+  cacheSize: number;
+  /** Outline width around the text in CSS pixels */
+  strokeWidth: number;
+}
+
+const DEFAULT_CANVAS_OPTIONS: CanvasRendererOptions = {
+  cacheSize: 512,
+  strokeWidth: 2,
+};
+
+/**
+ * Create a canvas for off-screen drawing
+ */
+function createScratchCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Canvas renderer that draws every on-screen item onto a single canvas
+ *
+ * Each distinct text is rasterised once (stroke included) into a sprite, and
+ * frames are composed by blitting sprites, so dense videos cost one drawImage
+ * per item instead of one DOM node and style recalculation per item.
+ */
+export class CanvasDanmakuRenderer implements DanmakuRenderer {
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D | null;
+  private options: CanvasRendererOptions;
+  private style: DanmakuRenderStyle = DEFAULT_RENDER_STYLE;
+  private sprites: Map<string, Sprite> = new Map();
+  private itemSprites: Map<ActiveDanmaku, Sprite> = new Map();
+  private width = 0;
+  private height = 0;
+  private ratio = 1;
+
+  constructor(container: HTMLElement, options: Partial<CanvasRendererOptions> = {}) {
+    this.options = { ...DEFAULT_CANVAS_OPTIONS, ...options };
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'bilitube-danmaku-canvas';
+    this.canvas.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      pointer-events: none;
+    `;
+    container.appendChild(this.canvas);
+    this.context = this.canvas.getContext('2d');
+  }
+
+  measure(danmaku: BilibiliDanmaku, fontSize: number): number {
+    const lines = displayLines(danmaku);
+    const context = this.context;
+    if (!context) {
+      return Math.max(...lines.map(line => line.length)) * fontSize;
+    }
+    context.font = this.font(danmaku, fontSize);
+    return Math.max(...lines.map(line => context.measureText(line).width));
+  }
+
+  add(item: ActiveDanmaku): void {
+    this.itemSprites.set(item, this.getSprite(item));
+  }
+
+  remove(item: ActiveDanmaku): void {
+    this.itemSprites.delete(item);
+  }
+
+  render(items: readonly ActiveDanmaku[], currentTime: number): void {
+    const context = this.context;
+    if (!context) return;
+
+    context.setTransform(this.ratio, 0, 0, this.ratio, 0, 0);
+    context.clearRect(0, 0, this.width, this.height);
+
+    const padding = this.options.strokeWidth;
+    for (const item of items) {
+      const sprite = this.itemSprites.get(item);
+      if (!sprite) continue;
+
+      const advanced = item.danmaku.advanced;
+      if (advanced) {
+        const frame = advancedFrameAt(
+          advanced,
+          currentTime - item.startTime,
+          this.width,
+          this.height
+        );
+        context.save();
+        context.globalAlpha = frame.alpha;
+        context.translate(frame.x, frame.y);
+        context.rotate((frame.rotateZ * Math.PI) / 180);
+        // Canvas has no 3D transforms; a Y rotation is approximated by squashing horizontally
+        context.scale(Math.cos((frame.rotateY * Math.PI) / 180), 1);
+        context.drawImage(sprite.image, -padding, 0, sprite.width, sprite.height);
+        context.restore();
+        continue;
+      }
+
+      const x = positionAt(item, currentTime, this.width);
+      context.drawImage(sprite.image, x - padding, item.top, sprite.width, sprite.height);
+    }
+  }
+
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+
+    // Sprites are rasterised at the device pixel ratio, so a zoom change invalidates them
+    const ratio = window.devicePixelRatio || 1;
+    if (ratio !== this.ratio) {
+      this.ratio = ratio;
+      this.sprites.clear();
+    }
+
+    this.canvas.width = Math.round(width * this.ratio);
+    this.canvas.height = Math.round(height * this.ratio);
+  }
+
+  setStyle(style: DanmakuRenderStyle): void {
+    const previous = this.style;
+    this.style = style;
+    this.canvas.style.opacity = `${style.opacity}`;
+
+    // Opacity is applied to the whole canvas; font and stroke are baked into sprites
+    if (style.fontFamily !== previous.fontFamily || style.stroke !== previous.stroke) {
+      this.sprites.clear();
+      for (const item of this.itemSprites.keys()) {
+        this.itemSprites.set(item, this.getSprite(item));
+      }
+    }
+  }
+
+  clear(): void {
+    this.itemSprites.clear();
+    this.context?.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  destroy(): void {
+    this.clear();
+    this.sprites.clear();
+    this.canvas.remove();
+  }
+
+  /**
+   * CSS font shorthand for an item
+   */
+  private font(danmaku: BilibiliDanmaku, fontSize: number): string {
+    return `bold ${fontSize}px ${danmakuFontFamily(danmaku, this.style.fontFamily)}`;
+  }
+
+  /**
+   * Get the cached sprite for an item, rasterising it on first use
+   */
+  private getSprite(item: ActiveDanmaku): Sprite {
+    const { danmaku } = item;
+    const stroke = danmaku.advanced?.stroke === false ? 'none' : this.style.stroke;
+    const key = `${item.fontSize}|${danmaku.color}|${stroke}|${danmaku.advanced?.fontFamily ?? ''}|${danmaku.count ?? 1}|${danmaku.content}`;
+
+    const cached = this.sprites.get(key);
+    if (cached) {
+      // Refresh insertion order so the cache evicts least recently used sprites
+      this.sprites.delete(key);
+      this.sprites.set(key, cached);
+      return cached;
+    }
+
+    const padding = this.options.strokeWidth;
+    const width = Math.ceil(item.width + padding * 2);
+    const height = Math.ceil(item.height);
+    const image = createScratchCanvas(
+      Math.max(Math.round(width * this.ratio), 1),
+      Math.max(Math.round(height * this.ratio), 1)
+    );
+
+    const context = image.getContext('2d') as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null;
+    if (context) {
+      context.scale(this.ratio, this.ratio);
+      context.font = this.font(danmaku, item.fontSize);
+      context.textBaseline = 'middle';
+      context.lineJoin = 'round';
+      context.lineWidth = padding;
+      context.strokeStyle = '#000';
+      context.fillStyle = toCssColor(danmaku.color);
+      if (stroke === 'shadow') {
+        context.shadowColor = 'rgba(0, 0, 0, 0.8)';
+        context.shadowOffsetX = 1;
+        context.shadowOffsetY = 1;
+        context.shadowBlur = 2;
+      }
+
+      const lines = displayLines(danmaku);
+      const lineHeight = height / lines.length;
+      lines.forEach((line, index) => {
+        const y = lineHeight * (index + 0.5);
+        if (stroke === 'stroke') {
+          context.strokeText(line, padding, y);
+        }
+        context.fillText(line, padding, y);
+      });
+    }
+
+    const sprite: Sprite = { image, width, height };
+    this.sprites.set(key, sprite);
+
+    if (this.sprites.size > this.options.cacheSize) {
+      const oldest = this.sprites.keys().next().value;
+      if (oldest !== undefined) {
+        this.sprites.delete(oldest);
+      }
+    }
+
+    return sprite;
+  }
+}
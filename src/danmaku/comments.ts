@@ -0,0 +1,198 @@
+import type { BilibiliDanmaku, YouTubeComment } from '../../types';
+
+/**
+ * Comment-to-danmaku conversion options
+ */
+export interface CommentDanmakuOptions {
+  /** Longer comments are cut to this many characters */
+  maxLength: number;
+  /** Spread comments without a timestamp evenly across the video, or leave them out */
+  untimed: 'distribute' | 'omit';
+}
+
+export const DEFAULT_COMMENT_OPTIONS: CommentDanmakuOptions = {
+  maxLength: 60,
+  untimed: 'distribute',
+};
+
+/**
+ * Timestamp found in a comment
+ */
+export interface CommentTimestamp {
+  /** Video time in seconds */
+  time: number;
+  /** Position of the timestamp in the text */
+  start: number;
+  end: number;
+}
+
+/**
+ * m:ss, mm:ss or h:mm:ss, with ASCII or full-width digits and colons
+ * A timestamp must not touch other digits or colons, so ratios, versions and
+ * longer colon-separated numbers are not mistaken for times.
+ */
+const TIMESTAMP =
+  /(?<![0-9０-９:：.,])(?:([0-9０-９]{1,2})[:：])?([0-9０-９]{1,3})[:：]([0-9０-９]{2})(?![0-9０-９:：]|[.,][0-9０-９])/g;
+
+/**
+ * Characters that may separate a timestamp from the text it labels
+ */
+const SEPARATORS = '\\s\\-–—~～:：|｜.。,，、)）\\]】»>';
+
+function toNumber(digits: string): number {
+  return parseInt(digits.replace(/[０-９]/g, char => String(char.charCodeAt(0) - 0xff10)));
+}
+
+/**
+ * Find every timestamp in a comment
+ * Minutes above 59 are accepted without an hour part ("75:30"), as YouTube does.
+ */
+export function extractTimestamps(text: string): CommentTimestamp[] {
+  const stamps: CommentTimestamp[] = [];
+
+  for (const match of text.matchAll(TIMESTAMP)) {
+    const [raw, hours, minutes, seconds] = match;
+    if (toNumber(seconds!) >= 60) continue;
+    if (hours !== undefined && (minutes!.length !== 2 || toNumber(minutes!) >= 60)) continue;
+    if (hours === undefined && minutes!.length > 2) continue;
+
+    stamps.push({
+      time: toNumber(hours ?? '0') * 3600 + toNumber(minutes!) * 60 + toNumber(seconds!),
+      start: match.index,
+      end: match.index + raw.length,
+    });
+  }
+
+  return stamps;
+}
+
+/**
+ * Remove a timestamp that leads or trails its text ("3:15 lol" → "lol")
+ * Timestamps inside a sentence are kept, as the sentence reads badly without them.
+ */
+function stripTimestamp(text: string, start: number, end: number): string {
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  const separatorsOnly = new RegExp(`^[${SEPARATORS}]*$`, 'u');
+
+  if (separatorsOnly.test(before)) {
+    const label = after.replace(new RegExp(`^[${SEPARATORS}]+`, 'u'), '');
+    if (label.trim() !== '') return label;
+  } else if (separatorsOnly.test(after)) {
+    const label = before.replace(new RegExp(`[${SEPARATORS}]+$`, 'u'), '');
+    if (label.trim() !== '') return label;
+  }
+  return text;
+}
+
+/**
+ * Text shown for one timestamp of a comment
+ * A lone timestamp labels the whole comment. In a chapter list (one timestamp
+ * per line) each timestamp gets its own line; otherwise the full comment is shown.
+ */
+function labelFor(
+  text: string,
+  stamps: readonly CommentTimestamp[],
+  stamp: CommentTimestamp
+): string {
+  if (stamps.length === 1) {
+    return stripTimestamp(text, stamp.start, stamp.end);
+  }
+
+  const lineStart = text.lastIndexOf('\n', stamp.start - 1) + 1;
+  const newline = text.indexOf('\n', stamp.end);
+  const lineEnd = newline === -1 ? text.length : newline;
+  const onLine = stamps.filter(other => other.start >= lineStart && other.end <= lineEnd);
+  if (onLine.length === 1) {
+    return stripTimestamp(
+      text.slice(lineStart, lineEnd),
+      stamp.start - lineStart,
+      stamp.end - lineStart
+    );
+  }
+  return text;
+}
+
+/**
+ * Collapse a comment onto one line and cut it to length
+ */
+function toDanmakuText(text: string, maxLength: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  const chars = [...line];
+  if (chars.length <= maxLength) return line;
+  const cut = chars.slice(0, maxLength - 1).join('');
+  return `${cut.trimEnd()}…`;
+}
+
+function toDanmaku(
+  comment: YouTubeComment,
+  time: number,
+  content: string,
+  id: string
+): BilibiliDanmaku {
+  const published = Date.parse(comment.publishedAt);
+  return {
+    time,
+    type: 1,
+    size: 25,
+    color: 0xffffff,
+    timestamp: Number.isFinite(published) ? Math.floor(published / 1000) : 0,
+    pool: 0,
+    userHash: comment.author,
+    id,
+    content,
+  };
+}
+
+/**
+ * Turn YouTube comments into scrolling danmaku on the YouTube timeline
+ *
+ * A comment appears at each distinct time it mentions; timestamps past the end
+ * of the video are ignored, and a comment whose timestamps all are is dropped.
+ * Comments without a timestamp are spread evenly across the video or omitted,
+ * and are always omitted when the duration is unknown.
+ */
+export function commentsToDanmaku(
+  comments: readonly YouTubeComment[],
+  duration: number,
+  options: Partial<CommentDanmakuOptions> = {}
+): BilibiliDanmaku[] {
+  const { maxLength, untimed } = { ...DEFAULT_COMMENT_OPTIONS, ...options };
+  const known = duration > 0;
+  const timed: BilibiliDanmaku[] = [];
+  const unplaced: YouTubeComment[] = [];
+
+  for (const comment of comments) {
+    if (toDanmakuText(comment.text, maxLength) === '') continue;
+
+    const stamps = extractTimestamps(comment.text);
+    if (stamps.length === 0) {
+      unplaced.push(comment);
+      continue;
+    }
+
+    const seen = new Set<number>();
+    for (const stamp of stamps) {
+      if ((known && stamp.time > duration) || seen.has(stamp.time)) continue;
+      seen.add(stamp.time);
+
+      const content = toDanmakuText(labelFor(comment.text, stamps, stamp), maxLength);
+      const id = seen.size === 1 ? `yt-${comment.id}` : `yt-${comment.id}-${seen.size}`;
+      timed.push(toDanmaku(comment, stamp.time, content, id));
+    }
+  }
+
+  const spread =
+    known && untimed === 'distribute'
+      ? unplaced.map((comment, index) =>
+          toDanmaku(
+            comment,
+            ((index + 0.5) * duration) / unplaced.length,
+            toDanmakuText(comment.text, maxLength),
+            `yt-${comment.id}`
+          )
+        )
+      : [];
+
+  return [...timed, ...spread].sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,173 @@
+import type { BilibiliDanmaku } from '../../types';
+import { advancedFrameAt } from './advanced';
+import type {
+  ActiveDanmaku,
+  DanmakuRenderer,
+  DanmakuRenderStyle,
+  DanmakuStrokeStyle,
+} from './engine';
+import { DEFAULT_RENDER_STYLE, displayLines, positionAt } from './engine';
+
+/**
+ * CSS text-shadow for each stroke style
+ */
+const TEXT_SHADOWS: Record<DanmakuStrokeStyle, string> = {
+  stroke: '1px 0 1px #000, 0 1px 1px #000, 0 -1px 1px #000, -1px 0 1px #000',
+  shadow: '1px 1px 2px rgba(0, 0, 0, 0.8)',
+  none: 'none',
+};
+
+/**
+ * Font stack for an item, honouring advanced danmaku font overrides
+ */
+export function danmakuFontFamily(danmaku: BilibiliDanmaku, fontFamily: string): string {
+  const override = danmaku.advanced?.fontFamily;
+  return override ? `"${override.replace(/"/g, '')}", ${fontFamily}` : fontFamily;
+}
+
+/**
+ * Convert a decimal danmaku color to a CSS hex color
+ */
+export function toCssColor(color: number): string {
+  return `#${(color & 0xffffff).toString(16).padStart(6, '0')}`;
+}
+
+/**
+ * DOM renderer that positions one recycled element per on-screen item
+ */
+export class DomDanmakuRenderer implements DanmakuRenderer {
+  private container: HTMLElement;
+  private pool: HTMLElement[] = [];
+  private nodes: Map<ActiveDanmaku, HTMLElement> = new Map();
+  private measureContext: CanvasRenderingContext2D | null;
+  private style: DanmakuRenderStyle = DEFAULT_RENDER_STYLE;
+  private width = 0;
+  private height = 0;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.measureContext = document.createElement('canvas').getContext('2d');
+  }
+
+  measure(danmaku: BilibiliDanmaku, fontSize: number): number {
+    const lines = displayLines(danmaku);
+    const context = this.measureContext;
+    if (!context) {
+      return Math.max(...lines.map(line => line.length)) * fontSize;
+    }
+    context.font = `bold ${fontSize}px ${danmakuFontFamily(danmaku, this.style.fontFamily)}`;
+    return Math.max(...lines.map(line => context.measureText(line).width));
+  }
+
+  add(item: ActiveDanmaku): void {
+    const { danmaku } = item;
+    const lines = displayLines(danmaku);
+    const node = this.pool.pop() ?? this.createNode();
+    node.textContent = lines.join('\n');
+    node.style.fontSize = `${item.fontSize}px`;
+    node.style.lineHeight = `${item.height / lines.length}px`;
+    node.style.color = toCssColor(danmaku.color);
+    this.applyStyle(item, node);
+    node.style.display = '';
+    this.nodes.set(item, node);
+  }
+
+  remove(item: ActiveDanmaku): void {
+    const node = this.nodes.get(item);
+    if (!node) return;
+
+    this.nodes.delete(item);
+    this.recycle(node);
+  }
+
+  render(items: readonly ActiveDanmaku[], currentTime: number): void {
+    for (const item of items) {
+      const node = this.nodes.get(item);
+      if (!node) continue;
+
+      const advanced = item.danmaku.advanced;
+      if (advanced) {
+        const frame = advancedFrameAt(
+          advanced,
+          currentTime - item.startTime,
+          this.width,
+          this.height
+        );
+        node.style.opacity = `${frame.alpha * this.style.opacity}`;
+        node.style.transform = `translate3d(${frame.x}px, ${frame.y}px, 0) rotateZ(${frame.rotateZ}deg) rotateY(${frame.rotateY}deg)`;
+        continue;
+      }
+
+      const x = positionAt(item, currentTime, this.width);
+      node.style.transform = `translate3d(${x}px, ${item.top}px, 0)`;
+    }
+  }
+
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+
+  setStyle(style: DanmakuRenderStyle): void {
+    this.style = style;
+    for (const [item, node] of this.nodes) {
+      this.applyStyle(item, node);
+    }
+  }
+
+  clear(): void {
+    for (const node of this.nodes.values()) {
+      this.recycle(node);
+    }
+    this.nodes.clear();
+  }
+
+  destroy(): void {
+    this.clear();
+    for (const node of this.pool) {
+      node.remove();
+    }
+    this.pool = [];
+  }
+
+  /**
+   * Create a new danmaku element
+   */
+  private createNode(): HTMLElement {
+    const node = document.createElement('div');
+    node.className = 'bilitube-danmaku-item';
+    node.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      white-space: pre;
+      font-weight: bold;
+      transform-origin: 0 0;
+      pointer-events: none;
+      will-change: transform;
+    `;
+    this.container.appendChild(node);
+    return node;
+  }
+
+  /**
+   * Apply the shared appearance to an item's element
+   */
+  private applyStyle(item: ActiveDanmaku, node: HTMLElement): void {
+    const { danmaku } = item;
+    node.style.fontFamily = danmakuFontFamily(danmaku, this.style.fontFamily);
+    node.style.textShadow =
+      danmaku.advanced?.stroke === false ? 'none' : TEXT_SHADOWS[this.style.stroke];
+    node.style.opacity = `${this.style.opacity}`;
+  }
+
+  /**
+   * Hide an element and return it to the pool
+   */
+  private recycle(node: HTMLElement): void {
+    node.style.display = 'none';
+    node.style.opacity = '';
+    node.textContent = '';
+    this.pool.push(node);
+  }
+}
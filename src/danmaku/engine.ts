@@ -0,0 +1,516 @@
+import type { BilibiliDanmaku, TimeOffset } from '../../types';
+import { LaneAllocator } from './lanes';
+import { applyTimeOffset, NO_TIME_OFFSET } from './offset';
+
+/**
+ * Playback clock followed by the engine
+ * An HTMLVideoElement satisfies this interface directly
+ */
+export interface PlaybackClock {
+  readonly currentTime: number;
+  readonly paused: boolean;
+  readonly playbackRate: number;
+}
+
+/**
+ * Default danmaku font stack (matches Bilibili's player)
+ */
+export const DANMAKU_FONT_FAMILY = '"Microsoft YaHei", "PingFang SC", "SimHei", sans-serif';
+
+/**
+ * How danmaku text is set off from the video
+ */
+export type DanmakuStrokeStyle = 'stroke' | 'shadow' | 'none';
+
+/**
+ * Appearance shared by every item a renderer draws
+ */
+export interface DanmakuRenderStyle {
+  /** Opacity (0-1) */
+  opacity: number;
+  /** Font stack; advanced danmaku may override it */
+  fontFamily: string;
+  stroke: DanmakuStrokeStyle;
+}
+
+export const DEFAULT_RENDER_STYLE: DanmakuRenderStyle = {
+  opacity: 1,
+  fontFamily: DANMAKU_FONT_FAMILY,
+  stroke: 'stroke',
+};
+
+/**
+ * Danmaku item currently on screen
+ */
+export interface ActiveDanmaku {
+  danmaku: BilibiliDanmaku;
+  /** Video time (seconds) at which the item entered the stage */
+  startTime: number;
+  /** Time on screen in video seconds */
+  duration: number;
+  /** Font size in pixels after scaling */
+  fontSize: number;
+  /** Rendered text width in pixels */
+  width: number;
+  /** Total height of the item's lines in pixels */
+  height: number;
+  /** Distance from the top of the stage in pixels */
+  top: number;
+}
+
+/**
+ * Rendering backend driven by the engine
+ */
+export interface DanmakuRenderer {
+  /** Measure the rendered width of an item at a font size in pixels (its widest line) */
+  measure(danmaku: BilibiliDanmaku, fontSize: number): number;
+  /** Called once when an item enters the stage */
+  add(item: ActiveDanmaku): void;
+  /** Called once when an item leaves the stage */
+  remove(item: ActiveDanmaku): void;
+  /** Position every active item for the given video time */
+  render(items: readonly ActiveDanmaku[], currentTime: number): void;
+  /** Stage size changed */
+  resize(width: number, height: number): void;
+  /** Appearance changed; applies to items already on stage */
+  setStyle(style: DanmakuRenderStyle): void;
+  /** Remove every item from the stage */
+  clear(): void;
+  /** Release all resources */
+  destroy(): void;
+}
+
+/**
+ * Engine options
+ */
+export interface DanmakuEngineOptions {
+  /** Time a scrolling item takes to cross the stage (seconds) */
+  scrollDuration: number;
+  /** Time a top/bottom item stays on screen (seconds) */
+  fixedDuration: number;
+  /** Jumps larger than this are treated as a seek (seconds) */
+  seekThreshold: number;
+  /** Line height relative to the font size */
+  lineHeight: number;
+  /** Height of one lane in pixels at a font scale of 1 */
+  laneHeight: number;
+  /** How long an item may wait for a free lane before it is dropped (seconds) */
+  maxDelay: number;
+  /** Multiplier applied to every font size */
+  fontScale: number;
+  /** Fraction of the stage height (from the top) that lane-based items may use */
+  displayArea: number;
+  /** Maximum items on screen at once; 0 allows as many as the lanes fit */
+  maxOnScreen: number;
+}
+
+const DEFAULT_ENGINE_OPTIONS: DanmakuEngineOptions = {
+  scrollDuration: 8,
+  fixedDuration: 4,
+  seekThreshold: 1,
+  lineHeight: 1.2,
+  laneHeight: 30,
+  maxDelay: 1,
+  fontScale: 1,
+  displayArea: 1,
+  maxOnScreen: 0,
+};
+
+/**
+ * Whether a danmaku scrolls across the stage (Bilibili modes 1-3, and 6 in reverse)
+ */
+export function isScrolling(danmaku: BilibiliDanmaku): boolean {
+  return danmaku.type <= 3 || danmaku.type === 6;
+}
+
+/**
+ * Whether the engine can display a danmaku
+ * Code (8) danmaku and advanced (7) danmaku with an unreadable payload are not scheduled.
+ */
+export function isRenderable(danmaku: BilibiliDanmaku): boolean {
+  if (danmaku.type === 7) return danmaku.advanced !== undefined;
+  return danmaku.type !== 8;
+}
+
+/**
+ * Lines of text displayed for a danmaku, with a ×N suffix on merged duplicates
+ */
+export function displayLines(danmaku: BilibiliDanmaku): string[] {
+  const lines = (danmaku.advanced?.text ?? danmaku.content).split('\n');
+  if (danmaku.count !== undefined && danmaku.count > 1) {
+    lines[lines.length - 1] += ` ×${danmaku.count}`;
+  }
+  return lines;
+}
+
+/**
+ * Index of the first item whose time is >= the given time
+ */
+export function lowerBound(items: readonly BilibiliDanmaku[], time: number): number {
+  let low = 0;
+  let high = items.length;
+
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (items[mid]!.time < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Horizontal position of an active item at the given video time
+ * Positions are derived from video time rather than wall-clock time, so pausing
+ * freezes the stage and playback rate changes are honoured without extra work.
+ */
+export function positionAt(item: ActiveDanmaku, currentTime: number, stageWidth: number): number {
+  if (!isScrolling(item.danmaku)) {
+    return (stageWidth - item.width) / 2;
+  }
+
+  const progress = Math.min(Math.max((currentTime - item.startTime) / item.duration, 0), 1);
+  const travelled = progress * (stageWidth + item.width);
+
+  // Reverse danmaku enter from the left edge
+  if (item.danmaku.type === 6) {
+    return travelled - item.width;
+  }
+  return stageWidth - travelled;
+}
+
+/**
+ * Danmaku engine that schedules items against a playback clock
+ */
+export class DanmakuEngine {
+  private clock: PlaybackClock;
+  private renderer: DanmakuRenderer;
+  private options: DanmakuEngineOptions;
+  private style: DanmakuRenderStyle = DEFAULT_RENDER_STYLE;
+  private source: BilibiliDanmaku[] = [];
+  private offset: TimeOffset = NO_TIME_OFFSET;
+  private items: BilibiliDanmaku[] = [];
+  private active: ActiveDanmaku[] = [];
+  private pending: BilibiliDanmaku[] = [];
+  private lanes: LaneAllocator;
+  private cursor = 0;
+  private lastTime = 0;
+  private droppedCount = 0;
+  private width = 0;
+  private height = 0;
+  private frameId: number | null = null;
+
+  constructor(
+    clock: PlaybackClock,
+    renderer: DanmakuRenderer,
+    options: Partial<DanmakuEngineOptions> = {}
+  ) {
+    this.clock = clock;
+    this.renderer = renderer;
+    this.options = { ...DEFAULT_ENGINE_OPTIONS, ...options };
+    this.lanes = this.createLanes();
+    this.renderer.setStyle(this.style);
+  }
+
+  /**
+   * Replace the loaded danmaku list
+   * Times are on the Bilibili timeline; the current time offset maps them onto the video.
+   */
+  load(items: BilibiliDanmaku[]): void {
+    this.source = items.filter(isRenderable);
+    this.schedule();
+  }
+
+  /**
+   * Add items to the loaded list while playing, e.g. danmaku arriving from a live stream
+   * Items at or just before the current time are shown on the next tick.
+   */
+  push(items: BilibiliDanmaku[]): void {
+    const renderable = items.filter(isRenderable);
+    this.source.push(...renderable);
+
+    for (const danmaku of applyTimeOffset(renderable, this.offset)) {
+      // New items usually belong at the end, so search from there
+      let index = this.items.length;
+      while (index > 0 && this.items[index - 1]!.time > danmaku.time) {
+        index--;
+      }
+      this.items.splice(index, 0, danmaku);
+
+      if (index < this.cursor) {
+        this.cursor++;
+        this.pending.push(danmaku);
+      }
+    }
+  }
+
+  /**
+   * Offset currently applied to danmaku times
+   */
+  get timeOffset(): TimeOffset {
+    return this.offset;
+  }
+
+  /**
+   * Change how danmaku times map onto the video and reschedule from the current time
+   */
+  setTimeOffset(offset: TimeOffset): void {
+    this.offset = offset;
+    this.schedule();
+  }
+
+  /**
+   * Number of loaded items
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Items currently on screen
+   */
+  get activeItems(): readonly ActiveDanmaku[] {
+    return this.active;
+  }
+
+  /**
+   * Number of items dropped because no lane became free in time
+   */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Update stage size
+   */
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    this.lanes.resize(width, height * this.options.displayArea);
+    this.renderer.resize(width, height);
+  }
+
+  /**
+   * Change engine options while running
+   * Layout options (font scale, display area, lane height) clear the stage and
+   * continue from the current time.
+   */
+  setOptions(options: Partial<DanmakuEngineOptions>): void {
+    const previous = this.options;
+    this.options = { ...previous, ...options };
+
+    if (
+      this.options.fontScale !== previous.fontScale ||
+      this.options.displayArea !== previous.displayArea ||
+      this.options.laneHeight !== previous.laneHeight ||
+      this.options.lineHeight !== previous.lineHeight
+    ) {
+      this.lanes = this.createLanes();
+      this.seek(this.clock.currentTime);
+    }
+  }
+
+  /**
+   * Change the appearance of every item
+   * A new font changes text widths, so the stage is re-laid out from the current time.
+   */
+  setStyle(style: DanmakuRenderStyle): void {
+    const fontChanged = style.fontFamily !== this.style.fontFamily;
+    this.style = style;
+    this.renderer.setStyle(style);
+
+    if (fontChanged) {
+      this.seek(this.clock.currentTime);
+    }
+  }
+
+  /**
+   * Swap the rendering backend, carrying over the items on screen
+   */
+  setRenderer(renderer: DanmakuRenderer): void {
+    this.renderer.destroy();
+    this.renderer = renderer;
+    this.renderer.setStyle(this.style);
+    this.renderer.resize(this.width, this.height);
+
+    for (const item of this.active) {
+      this.renderer.add(item);
+    }
+  }
+
+  /**
+   * Clear the stage and continue scheduling from the given time
+   */
+  seek(time: number): void {
+    this.clearStage();
+    this.pending = [];
+    this.cursor = lowerBound(this.items, time);
+    this.lastTime = time;
+  }
+
+  /**
+   * Advance the engine to the clock's current time and render one frame
+   */
+  tick(): void {
+    const currentTime = this.clock.currentTime;
+
+    if (currentTime < this.lastTime || currentTime - this.lastTime > this.options.seekThreshold) {
+      this.seek(currentTime);
+    }
+
+    this.expire(currentTime);
+    this.emit(currentTime);
+    this.lastTime = currentTime;
+
+    this.renderer.render(this.active, currentTime);
+  }
+
+  /**
+   * Start the animation loop
+   */
+  start(): void {
+    if (this.frameId !== null) return;
+
+    const loop = () => {
+      this.tick();
+      this.frameId = requestAnimationFrame(loop);
+    };
+    this.frameId = requestAnimationFrame(loop);
+  }
+
+  /**
+   * Stop the animation loop, keeping items on screen
+   */
+  stop(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  /**
+   * Stop the engine and release the renderer
+   */
+  destroy(): void {
+    this.stop();
+    this.active = [];
+    this.source = [];
+    this.items = [];
+    this.renderer.destroy();
+  }
+
+  /**
+   * Create a lane allocator for the current layout options
+   */
+  private createLanes(): LaneAllocator {
+    const lanes = new LaneAllocator(this.options.laneHeight * this.options.fontScale);
+    lanes.resize(this.width, this.height * this.options.displayArea);
+    return lanes;
+  }
+
+  /**
+   * Rebuild the time-ordered schedule from the loaded items
+   */
+  private schedule(): void {
+    // Copied, as an empty offset hands back the source list and push() appends to both
+    this.items = [...applyTimeOffset(this.source, this.offset)].sort((a, b) => a.time - b.time);
+    this.seek(this.clock.currentTime);
+  }
+
+  /**
+   * Remove items whose display time has elapsed
+   */
+  private expire(currentTime: number): void {
+    const remaining: ActiveDanmaku[] = [];
+
+    for (const item of this.active) {
+      if (currentTime >= item.startTime + item.duration) {
+        this.renderer.remove(item);
+      } else {
+        remaining.push(item);
+      }
+    }
+
+    this.active = remaining;
+  }
+
+  /**
+   * Put every item that became due since the last tick on stage
+   * Items that find no free lane, or no room under the on-screen cap, wait in a queue
+   * and are retried on later ticks.
+   */
+  private emit(currentTime: number): void {
+    const deferred = this.pending;
+    this.pending = [];
+
+    for (const danmaku of deferred) {
+      this.place(danmaku, currentTime, currentTime);
+    }
+
+    while (this.cursor < this.items.length) {
+      const danmaku = this.items[this.cursor]!;
+      if (danmaku.time > currentTime) break;
+
+      this.cursor++;
+      this.place(danmaku, danmaku.time, currentTime);
+    }
+  }
+
+  /**
+   * Allocate a lane for an item and hand it to the renderer
+   */
+  private place(danmaku: BilibiliDanmaku, startTime: number, currentTime: number): void {
+    if (currentTime - danmaku.time > this.options.maxDelay) {
+      this.droppedCount++;
+      return;
+    }
+
+    if (this.options.maxOnScreen > 0 && this.active.length >= this.options.maxOnScreen) {
+      this.pending.push(danmaku);
+      return;
+    }
+
+    const fontSize = danmaku.size * this.options.fontScale;
+    const lineHeight = fontSize * this.options.lineHeight;
+    const item: ActiveDanmaku = {
+      danmaku,
+      startTime,
+      duration: isScrolling(danmaku) ? this.options.scrollDuration : this.options.fixedDuration,
+      fontSize,
+      width: this.renderer.measure(danmaku, fontSize),
+      height: lineHeight,
+      top: 0,
+    };
+
+    // Advanced danmaku position themselves and never compete for lanes
+    if (danmaku.advanced) {
+      item.duration = danmaku.advanced.duration;
+      item.height = displayLines(danmaku).length * lineHeight;
+      this.active.push(item);
+      this.renderer.add(item);
+      return;
+    }
+
+    const top = this.lanes.allocate({ ...item, type: danmaku.type });
+    if (top === null) {
+      this.pending.push(danmaku);
+      return;
+    }
+
+    item.top = top;
+    this.active.push(item);
+    this.renderer.add(item);
+  }
+
+  /**
+   * Remove every item from the stage
+   */
+  private clearStage(): void {
+    this.active = [];
+    this.lanes.reset();
+    this.renderer.clear();
+  }
+}
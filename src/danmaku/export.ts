@@ -0,0 +1,415 @@
+import type { BilibiliDanmaku } from '../../types';
+import { displayLines, isScrolling } from './engine';
+import { LaneAllocator } from './lanes';
+
+/**
+ * File formats danmaku can be exported to
+ */
+export type DanmakuExportFormat = 'ass' | 'srt' | 'xml';
+
+export const EXPORT_FORMATS: Record<DanmakuExportFormat, { extension: string; mimeType: string }> =
+  {
+    ass: { extension: 'ass', mimeType: 'text/x-ssa' },
+    srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+    xml: { extension: 'xml', mimeType: 'application/xml' },
+  };
+
+/**
+ * Subtitle layout options
+ */
+export interface SubtitleExportOptions {
+  /** Script resolution (PlayResX/PlayResY) */
+  width: number;
+  height: number;
+  /** Font name written to the ASS style */
+  fontFamily: string;
+  /** Pixels per Bilibili font size unit at the script resolution */
+  fontScale: number;
+  /** Line height relative to the font size */
+  lineHeight: number;
+  /** Text opacity (0-1) */
+  opacity: number;
+  /** Time a scrolling item takes to cross the screen (seconds) */
+  scrollDuration: number;
+  /** Time a top/bottom item stays on screen (seconds) */
+  fixedDuration: number;
+  /** Fraction of the screen height (from the top) that lane-based items may use */
+  displayArea: number;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleExportOptions = {
+  width: 1920,
+  height: 1080,
+  fontFamily: 'Microsoft YaHei',
+  fontScale: 2,
+  lineHeight: 1.2,
+  opacity: 1,
+  scrollDuration: 8,
+  fixedDuration: 4,
+  displayArea: 1,
+};
+
+/**
+ * Bilibili's default font size, which needs no \fs override
+ */
+const DEFAULT_FONT_SIZE = 25;
+
+function sortByTime(items: readonly BilibiliDanmaku[]): BilibiliDanmaku[] {
+  return [...items].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Seconds a danmaku stays on screen
+ */
+function displayDuration(danmaku: BilibiliDanmaku, options: SubtitleExportOptions): number {
+  if (danmaku.advanced) return danmaku.advanced.duration;
+  return isScrolling(danmaku) ? options.scrollDuration : options.fixedDuration;
+}
+
+/**
+ * Whether a danmaku can be turned into a subtitle event
+ * Code danmaku have no text to show and unreadable advanced payloads have no layout.
+ */
+function isExportable(danmaku: BilibiliDanmaku): boolean {
+  if (danmaku.type === 8) return false;
+  if (danmaku.type === 7) return danmaku.advanced !== undefined;
+  return true;
+}
+
+/**
+ * Hangul, CJK, full-width forms and emoji, which render about one em wide
+ */
+const FULL_WIDTH =
+  /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]|\p{Extended_Pictographic}/u;
+
+/**
+ * Approximate rendered width of a line; there is no text layout outside the browser,
+ * so full-width characters count as one em and everything else as half
+ */
+export function estimateTextWidth(text: string, fontSize: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += FULL_WIDTH.test(char) ? fontSize : fontSize / 2;
+  }
+  return width;
+}
+
+/**
+ * Format seconds as an ASS timestamp (H:MM:SS.cc)
+ */
+export function formatAssTime(seconds: number): string {
+  const centiseconds = Math.max(Math.round(seconds * 100), 0);
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor(centiseconds / 6000) % 60;
+  const secs = Math.floor(centiseconds / 100) % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(centiseconds % 100)}`;
+}
+
+/**
+ * Format seconds as an SRT timestamp (HH:MM:SS,mmm)
+ */
+export function formatSrtTime(seconds: number): string {
+  const milliseconds = Math.max(Math.round(seconds * 1000), 0);
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor(milliseconds / 60000) % 60;
+  const secs = Math.floor(milliseconds / 1000) % 60;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(milliseconds % 1000, 3)}`;
+}
+
+/**
+ * Escape one line of danmaku text for an ASS dialogue event
+ * Braces would open an override block, and a backslash could combine with the
+ * following character into \n, \N or \h, so it is followed by a word joiner.
+ */
+export function escapeAssText(text: string): string {
+  return text.replace(/\\/g, '\\\u2060').replace(/\{/g, '\\{').replace(/\}/g, '\\}');
+}
+
+/**
+ * ASS colour (&HBBGGRR&) from a 0xRRGGBB value
+ */
+function toAssColor(color: number): string {
+  const hex = (color & 0xffffff).toString(16).padStart(6, '0').toUpperCase();
+  return `&H${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}&`;
+}
+
+/**
+ * ASS alpha byte, where 00 is opaque and FF is transparent
+ */
+function toAssAlpha(opacity: number): string {
+  const value = Math.round((1 - Math.min(Math.max(opacity, 0), 1)) * 255);
+  return value.toString(16).padStart(2, '0').toUpperCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Override tags for colour, size and outline shared by every event
+ */
+function styleTags(danmaku: BilibiliDanmaku, options: SubtitleExportOptions): string {
+  let tags = '';
+  if ((danmaku.color & 0xffffff) !== 0xffffff) {
+    tags += `\\c${toAssColor(danmaku.color)}`;
+  }
+  // Dark text needs a light outline to stay readable
+  if ((danmaku.color & 0xffffff) === 0) {
+    tags += '\\3c&HFFFFFF&';
+  }
+  if (danmaku.size !== DEFAULT_FONT_SIZE) {
+    tags += `\\fs${round(danmaku.size * options.fontScale)}`;
+  }
+  return tags;
+}
+
+/**
+ * Font name safe to place in an override block
+ * Tag arguments cannot be escaped, so characters that would end the tag or the block
+ * (and line breaks, which would end the event) are dropped.
+ */
+function toAssFontName(fontFamily = ''): string {
+  return fontFamily.replace(/[{}\\\r\n]/g, '').trim();
+}
+
+/**
+ * Override tags placing an advanced danmaku
+ * ASS moves in straight lines, so a motion path is reduced to its first and last point.
+ */
+function advancedTags(danmaku: BilibiliDanmaku, options: SubtitleExportOptions): string {
+  const advanced = danmaku.advanced!;
+  const from = advanced.path?.[0] ?? advanced.start;
+  const to = advanced.path?.[advanced.path.length - 1] ?? advanced.end;
+  const x1 = round(from.x * options.width);
+  const y1 = round(from.y * options.height);
+  const x2 = round(to.x * options.width);
+  const y2 = round(to.y * options.height);
+
+  let tags = '\\an7';
+  if (x1 === x2 && y1 === y2) {
+    tags += `\\pos(${x1},${y1})`;
+  } else {
+    const moveStart = Math.round(advanced.moveDelay * 1000);
+    const moveEnd = Math.round((advanced.moveDelay + advanced.moveDuration) * 1000);
+    tags += `\\move(${x1},${y1},${x2},${y2},${moveStart},${moveEnd})`;
+  }
+
+  const fontName = toAssFontName(advanced.fontFamily);
+  if (fontName) {
+    tags += `\\fn${fontName}`;
+  }
+  // ASS rotates counter-clockwise, CSS (and Bilibili's player) clockwise
+  if (advanced.rotateZ !== 0) {
+    tags += `\\frz${round(-advanced.rotateZ)}`;
+  }
+  if (advanced.rotateY !== 0) {
+    tags += `\\fry${round(advanced.rotateY)}`;
+  }
+
+  const alphaFrom = advanced.alphaFrom * options.opacity;
+  const alphaTo = advanced.alphaTo * options.opacity;
+  tags += `\\alpha&H${toAssAlpha(alphaFrom)}&`;
+  if (alphaTo !== alphaFrom) {
+    tags += `\\t(0,${Math.round(advanced.duration * 1000)},\\alpha&H${toAssAlpha(alphaTo)}&)`;
+  }
+
+  if (!advanced.stroke) {
+    tags += '\\bord0';
+  }
+  return tags;
+}
+
+/**
+ * Convert danmaku to an ASS subtitle script
+ * Scrolling, reverse, top and bottom danmaku are laid out with the same lane
+ * allocator as the player, so events never overlap; danmaku that find no free
+ * lane when they appear are left out, as they would be on screen.
+ */
+export function toAss(
+  items: readonly BilibiliDanmaku[],
+  options: Partial<SubtitleExportOptions> = {}
+): string {
+  const resolved = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+  const { width, height, fontScale, lineHeight } = resolved;
+  const baseFontSize = round(DEFAULT_FONT_SIZE * fontScale);
+  const primaryAlpha = toAssAlpha(resolved.opacity);
+
+  const lanes = new LaneAllocator(DEFAULT_FONT_SIZE * fontScale * lineHeight);
+  lanes.resize(width, height * resolved.displayArea);
+
+  const events: string[] = [];
+  for (const danmaku of sortByTime(items)) {
+    if (!isExportable(danmaku)) continue;
+
+    const lines = displayLines(danmaku);
+    if (lines.every(line => line.trim() === '')) continue;
+
+    const text = lines.map(escapeAssText).join('\\N');
+    const duration = displayDuration(danmaku, resolved);
+    const start = formatAssTime(danmaku.time);
+    const end = formatAssTime(danmaku.time + duration);
+
+    let tags: string;
+    let layer: number;
+
+    if (danmaku.advanced) {
+      tags = advancedTags(danmaku, resolved);
+      layer = 2;
+    } else {
+      const fontSize = danmaku.size * fontScale;
+      const textWidth = Math.max(...lines.map(line => estimateTextWidth(line, fontSize)));
+      const top = lanes.allocate({
+        type: danmaku.type,
+        width: textWidth,
+        height: lines.length * fontSize * lineHeight,
+        startTime: danmaku.time,
+        duration,
+      });
+      if (top === null) continue;
+
+      const y = round(top);
+      if (danmaku.type === 6) {
+        tags = `\\an7\\move(${round(-textWidth)},${y},${width},${y})`;
+      } else if (isScrolling(danmaku)) {
+        tags = `\\an7\\move(${width},${y},${round(-textWidth)},${y})`;
+      } else {
+        tags = `\\an8\\pos(${round(width / 2)},${y})`;
+      }
+      layer = isScrolling(danmaku) ? 0 : 1;
+    }
+
+    tags += styleTags(danmaku, resolved);
+    events.push(`Dialogue: ${layer},${start},${end},Danmaku,,0,0,0,,{${tags}}${text}`);
+  }
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Danmaku,${resolved.fontFamily},${baseFontSize},&H${primaryAlpha}FFFFFF,&H${primaryAlpha}FFFFFF,&H${primaryAlpha}000000,&H${primaryAlpha}000000,-1,0,0,0,100,100,0,0,1,${round(fontScale)},0,7,0,0,0,1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Escape one line of danmaku text for an SRT cue
+ * Most players read HTML-like tags in SRT, so markup characters become entities.
+ */
+export function escapeSrtText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Convert danmaku to SRT subtitles, one cue per danmaku
+ * SRT has no positioning, so each danmaku is simply shown for its on-screen duration.
+ */
+export function toSrt(
+  items: readonly BilibiliDanmaku[],
+  options: Partial<SubtitleExportOptions> = {}
+): string {
+  const resolved = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+  const cues: string[] = [];
+
+  for (const danmaku of sortByTime(items)) {
+    if (!isExportable(danmaku)) continue;
+
+    // A blank line would end the cue early
+    const lines = displayLines(danmaku)
+      .map(line => escapeSrtText(line.trim()))
+      .filter(line => line !== '');
+    if (lines.length === 0) continue;
+
+    const start = formatSrtTime(danmaku.time);
+    const end = formatSrtTime(danmaku.time + displayDuration(danmaku, resolved));
+    cues.push(`${cues.length + 1}\n${start} --> ${end}\n${lines.join('\n')}\n`);
+  }
+
+  return cues.join('\n');
+}
+
+/**
+ * Whether XML 1.0 can represent a character: no control characters other than
+ * tab and line breaks, and no U+FFFE/U+FFFF
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  if (code < 0x20) return code === 0x09 || code === 0x0a || code === 0x0d;
+  return code !== 0xfffe && code !== 0xffff;
+}
+
+/**
+ * Escape text for XML element content or a double-quoted attribute
+ * Characters XML 1.0 cannot represent at all are dropped.
+ */
+export function escapeXmlText(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert danmaku to a Bilibili danmaku XML document (`x/v1/dm/list.so` format)
+ * Every `p` field is written back, so `parseDanmakuXml` reads the same danmaku.
+ * Merge counts are not part of the format and are dropped.
+ */
+export function toBilibiliXml(items: readonly BilibiliDanmaku[], cid = 0): string {
+  const elements = sortByTime(items).map(danmaku => {
+    const fields = [
+      String(danmaku.time),
+      danmaku.type,
+      danmaku.size,
+      danmaku.color,
+      danmaku.timestamp,
+      danmaku.pool,
+      danmaku.userHash,
+      danmaku.id,
+    ];
+    if (danmaku.weight !== undefined) {
+      fields.push(danmaku.weight);
+    }
+    return `<d p="${escapeXmlText(fields.join(','))}">${escapeXmlText(danmaku.content)}</d>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?><i><chatserver>chat.bilibili.com</chatserver><chatid>${cid}</chatid><mission>0</mission><maxlimit>${items.length}</maxlimit><state>0</state><real_name>0</real_name><source>k-v</source>`,
+    ...elements,
+    '</i>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Convert danmaku to the given export format
+ */
+export function exportDanmaku(
+  items: readonly BilibiliDanmaku[],
+  format: DanmakuExportFormat,
+  options: Partial<SubtitleExportOptions> & { cid?: number } = {}
+): string {
+  switch (format) {
+    case 'ass':
+      return toAss(items, options);
+    case 'srt':
+      return toSrt(items, options);
+    case 'xml':
+      return toBilibiliXml(items, options.cid);
+  }
+}
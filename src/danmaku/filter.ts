@@ -0,0 +1,163 @@
+import type { BilibiliDanmaku, DanmakuMode } from '../../types';
+
+/**
+ * User-defined rules for hiding danmaku
+ */
+export interface DanmakuFilterRules {
+  /** Hide items containing any of these words (case-insensitive) */
+  keywords: string[];
+  /** Hide items matching any of these regular expressions (case-insensitive) */
+  patterns: string[];
+  /** Hide items sent by these user hashes */
+  blockedUsers: string[];
+  /** Hide these danmaku modes */
+  blockedTypes: DanmakuMode[];
+  /** Hide these danmaku pools (0 normal, 1 subtitle, 2 special) */
+  blockedPools: number[];
+}
+
+/**
+ * Default rules: nothing is hidden
+ */
+export const DEFAULT_FILTER_RULES: DanmakuFilterRules = {
+  keywords: [],
+  patterns: [],
+  blockedUsers: [],
+  blockedTypes: [],
+  blockedPools: [],
+};
+
+/**
+ * Why an item was hidden
+ */
+export type FilterReason = 'keyword' | 'pattern' | 'user' | 'type' | 'pool';
+
+/**
+ * Result of running the filter pipeline
+ */
+export interface FilterResult {
+  /** Items that passed every rule, in time order */
+  kept: BilibiliDanmaku[];
+  /** Number of hidden items per reason */
+  removed: Record<FilterReason, number>;
+  /** Patterns that are not valid regular expressions and were ignored */
+  invalidPatterns: string[];
+}
+
+/**
+ * Storage key for filter rules
+ */
+const FILTER_RULES_KEY = 'danmakuFilterRules';
+
+/**
+ * Compile regex rules, setting aside the ones that do not parse
+ */
+function compilePatterns(patterns: string[]): { regexes: RegExp[]; invalid: string[] } {
+  const regexes: RegExp[] = [];
+  const invalid: string[] = [];
+
+  for (const pattern of patterns) {
+    try {
+      regexes.push(new RegExp(pattern, 'iu'));
+    } catch {
+      invalid.push(pattern);
+    }
+  }
+
+  return { regexes, invalid };
+}
+
+/**
+ * Find the first content rule that hides an item
+ */
+function matchRule(
+  danmaku: BilibiliDanmaku,
+  rules: DanmakuFilterRules,
+  keywords: string[],
+  regexes: RegExp[]
+): FilterReason | null {
+  if (rules.blockedTypes.includes(danmaku.type)) return 'type';
+  if (rules.blockedPools.includes(danmaku.pool)) return 'pool';
+  if (rules.blockedUsers.includes(danmaku.userHash)) return 'user';
+
+  const text = danmaku.advanced?.text ?? danmaku.content;
+  const lowered = text.toLowerCase();
+  if (keywords.some(keyword => lowered.includes(keyword))) return 'keyword';
+  if (regexes.some(regex => regex.test(text))) return 'pattern';
+
+  return null;
+}
+
+/**
+ * Run the filter pipeline over a danmaku list
+ *
+ * Density is not a rule: the per-second budget in the danmaku settings thins
+ * whatever passes here during preprocessing.
+ */
+export function filterDanmaku(items: BilibiliDanmaku[], rules: DanmakuFilterRules): FilterResult {
+  const removed: Record<FilterReason, number> = {
+    keyword: 0,
+    pattern: 0,
+    user: 0,
+    type: 0,
+    pool: 0,
+  };
+
+  const keywords = rules.keywords
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(keyword => keyword !== '');
+  const { regexes, invalid } = compilePatterns(rules.patterns.filter(pattern => pattern !== ''));
+
+  const sorted = [...items].sort((a, b) => a.time - b.time);
+  const kept: BilibiliDanmaku[] = [];
+
+  for (const danmaku of sorted) {
+    const reason = matchRule(danmaku, rules, keywords, regexes);
+    if (reason) {
+      removed[reason]++;
+      continue;
+    }
+    kept.push(danmaku);
+  }
+
+  return { kept, removed, invalidPatterns: invalid };
+}
+
+/**
+ * Load filter rules, filling in defaults for missing fields
+ */
+export async function loadFilterRules(): Promise<DanmakuFilterRules> {
+  try {
+    const stored = await browser.storage.local.get(FILTER_RULES_KEY);
+    return {
+      ...DEFAULT_FILTER_RULES,
+      ...(stored[FILTER_RULES_KEY] as Partial<DanmakuFilterRules>),
+    };
+  } catch (error) {
+    console.error('Failed to load danmaku filter rules:', error);
+    return { ...DEFAULT_FILTER_RULES };
+  }
+}
+
+/**
+ * Persist a partial rules update
+ */
+export async function saveFilterRules(update: Partial<DanmakuFilterRules>): Promise<void> {
+  const current = await loadFilterRules();
+  await browser.storage.local.set({ [FILTER_RULES_KEY]: { ...current, ...update } });
+}
+
+/**
+ * Subscribe to rule changes made from any tab
+ * @returns Function that removes the listener
+ */
+export function onFilterRulesChanged(listener: (rules: DanmakuFilterRules) => void): () => void {
+  const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    const change = changes[FILTER_RULES_KEY];
+    if (areaName !== 'local' || !change) return;
+    listener({ ...DEFAULT_FILTER_RULES, ...(change.newValue as Partial<DanmakuFilterRules>) });
+  };
+
+  browser.storage.onChanged.addListener(handler);
+  return () => browser.storage.onChanged.removeListener(handler);
+}
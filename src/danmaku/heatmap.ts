@@ -0,0 +1,74 @@
+import type { BilibiliDanmaku } from '../../types';
+
+/**
+ * Density curve options
+ */
+export interface HeatmapOptions {
+  /** Number of buckets the video is split into */
+  buckets: number;
+  /** Buckets on each side blended into every point */
+  smoothing: number;
+}
+
+export const DEFAULT_HEATMAP_OPTIONS: HeatmapOptions = {
+  buckets: 100,
+  smoothing: 1,
+};
+
+/**
+ * Danmaku density over a video, normalised so the busiest bucket is 1
+ * Merged danmaku count once per original comment.
+ * @returns One value (0-1) per bucket, or an empty array if the duration is unknown
+ */
+export function densityBuckets(
+  items: readonly BilibiliDanmaku[],
+  duration: number,
+  options: Partial<HeatmapOptions> = {}
+): number[] {
+  const { buckets, smoothing } = { ...DEFAULT_HEATMAP_OPTIONS, ...options };
+  if (!Number.isFinite(duration) || duration <= 0 || buckets <= 0) {
+    return [];
+  }
+
+  const counts = new Array<number>(buckets).fill(0);
+  for (const danmaku of items) {
+    if (danmaku.time < 0 || danmaku.time > duration) continue;
+    const index = Math.min(Math.floor((danmaku.time / duration) * buckets), buckets - 1);
+    counts[index]! += danmaku.count ?? 1;
+  }
+
+  // Triangular kernel, so a single busy bucket stays the peak of its neighbourhood
+  const smoothed = counts.map((_, index) => {
+    let sum = 0;
+    let weights = 0;
+    for (let offset = -smoothing; offset <= smoothing; offset++) {
+      const count = counts[index + offset];
+      if (count === undefined) continue;
+      const weight = smoothing + 1 - Math.abs(offset);
+      sum += count * weight;
+      weights += weight;
+    }
+    return sum / weights;
+  });
+
+  const peak = Math.max(...smoothed);
+  return peak > 0 ? smoothed.map(value => value / peak) : smoothed;
+}
+
+/**
+ * SVG path of the filled density curve
+ * Points sit at bucket centres; the area is closed along the bottom edge.
+ */
+export function heatmapPath(values: readonly number[], width: number, height: number): string {
+  if (values.length === 0) return '';
+
+  const step = width / values.length;
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const points = values.map(
+    (value, index) => `L${round(step * (index + 0.5))},${round(height * (1 - value))}`
+  );
+
+  return `M0,${height}L0,${round(height * (1 - values[0]!))}${points.join('')}L${width},${round(
+    height * (1 - values[values.length - 1]!)
+  )}L${width},${height}Z`;
+}
@@ -0,0 +1,134 @@
+import type { BilibiliDanmaku } from '../../types';
+
+/**
+ * Item placed by the lane allocator
+ */
+export interface LaneItem {
+  type: BilibiliDanmaku['type'];
+  /** Rendered width in pixels */
+  width: number;
+  /** Rendered height in pixels */
+  height: number;
+  /** Video time (seconds) at which the item enters the stage */
+  startTime: number;
+  /** Time on screen in video seconds */
+  duration: number;
+}
+
+/**
+ * Lane pool an item is placed into
+ */
+type LaneKind = 'scroll' | 'reverse' | 'top' | 'bottom';
+
+/**
+ * Map a danmaku type to its lane pool
+ */
+function laneKind(type: BilibiliDanmaku['type']): LaneKind {
+  if (type === 4) return 'bottom';
+  if (type === 5) return 'top';
+  if (type === 6) return 'reverse';
+  return 'scroll';
+}
+
+/**
+ * Collision-free lane allocator for scrolling, reverse, top and bottom danmaku
+ *
+ * The stage is split into fixed-height lanes; items taller than one lane span
+ * several consecutive lanes. Each lane remembers the last item placed in it,
+ * which is all that is needed to decide whether a new item fits.
+ */
+export class LaneAllocator {
+  private laneHeight: number;
+  private width = 0;
+  private laneCount = 0;
+  private lanes: Record<LaneKind, Array<LaneItem | null>> = {
+    scroll: [],
+    reverse: [],
+    top: [],
+    bottom: [],
+  };
+
+  constructor(laneHeight: number) {
+    this.laneHeight = laneHeight;
+  }
+
+  /**
+   * Update stage size, dropping all lane state
+   */
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.laneCount = Math.max(Math.floor(height / this.laneHeight), 0);
+    this.reset();
+  }
+
+  /**
+   * Forget every placed item (e.g. after a seek)
+   */
+  reset(): void {
+    this.lanes = {
+      scroll: new Array(this.laneCount).fill(null),
+      reverse: new Array(this.laneCount).fill(null),
+      top: new Array(this.laneCount).fill(null),
+      bottom: new Array(this.laneCount).fill(null),
+    };
+  }
+
+  /**
+   * Number of lanes available on the stage
+   */
+  get count(): number {
+    return this.laneCount;
+  }
+
+  /**
+   * Place an item, returning its distance from the top of the stage in pixels,
+   * or null when every lane is busy
+   */
+  allocate(item: LaneItem): number | null {
+    const kind = laneKind(item.type);
+    const lanes = this.lanes[kind];
+    const span = Math.max(Math.ceil(item.height / this.laneHeight), 1);
+
+    for (let lane = 0; lane + span <= lanes.length; lane++) {
+      let fits = true;
+      for (let offset = 0; offset < span; offset++) {
+        if (!this.isFree(kind, lanes[lane + offset] ?? null, item)) {
+          fits = false;
+          break;
+        }
+      }
+      if (!fits) continue;
+
+      for (let offset = 0; offset < span; offset++) {
+        lanes[lane + offset] = item;
+      }
+
+      if (kind === 'bottom') {
+        return (this.laneCount - lane - span) * this.laneHeight;
+      }
+      return lane * this.laneHeight;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether an item can follow the previous occupant of a lane
+   */
+  private isFree(kind: LaneKind, previous: LaneItem | null, item: LaneItem): boolean {
+    if (!previous) return true;
+
+    const previousEnd = previous.startTime + previous.duration;
+    if (item.startTime >= previousEnd) return true;
+    if (kind === 'top' || kind === 'bottom') return false;
+
+    // The previous item's tail must already be on stage...
+    const previousSpeed = (this.width + previous.width) / previous.duration;
+    const travelled = (item.startTime - previous.startTime) * previousSpeed;
+    if (travelled < previous.width) return false;
+
+    // ...and the new item must not reach the left edge before the previous one has left
+    const speed = (this.width + item.width) / item.duration;
+    return item.startTime + this.width / speed >= previousEnd;
+  }
+}
@@ -0,0 +1,62 @@
+import type { BilibiliDanmaku } from '../../types';
+import { lowerBound } from './engine';
+
+/**
+ * Reduce text to the form compared when searching
+ * Width variants and case are ignored, so "ＡＢＣ" finds "abc".
+ */
+function searchKey(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * Danmaku whose text contains every whitespace-separated term of the query
+ * An empty query matches everything.
+ */
+export function searchDanmaku(
+  items: readonly BilibiliDanmaku[],
+  query: string
+): readonly BilibiliDanmaku[] {
+  const terms = searchKey(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return items;
+
+  return items.filter(danmaku => {
+    const text = searchKey(danmaku.advanced?.text ?? danmaku.content);
+    return terms.every(term => text.includes(term));
+  });
+}
+
+/**
+ * Index of the last danmaku sent at or before the given video time, or -1
+ * Items must be sorted by time.
+ */
+export function currentDanmakuIndex(items: readonly BilibiliDanmaku[], time: number): number {
+  let index = lowerBound(items, time);
+  while (index < items.length && items[index]!.time === time) {
+    index++;
+  }
+  return index - 1;
+}
+
+/**
+ * Format a video time as m:ss, or h:mm:ss past the first hour
+ */
+export function formatVideoTime(seconds: number): string {
+  const total = Math.max(Math.floor(seconds), 0);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor(total / 60) % 60;
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Format a send timestamp (Unix seconds) as MM-DD HH:mm in local time
+ */
+export function formatSendTime(timestamp: number): string {
+  if (timestamp <= 0) return '';
+
+  const date = new Date(timestamp * 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
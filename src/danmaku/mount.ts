@@ -0,0 +1,90 @@
+import { DanmakuEngine } from './engine';
+import type { DanmakuRenderer } from './engine';
+import { CanvasDanmakuRenderer } from './canvas-renderer';
+import { DomDanmakuRenderer } from './dom-renderer';
+import { onDanmakuSettingsChanged, toEngineOptions, toRenderStyle } from './settings';
+import type { DanmakuRendererMode, DanmakuSettings } from './settings';
+
+/**
+ * Danmaku engine playing over a video
+ */
+export interface MountedDanmakuEngine {
+  engine: DanmakuEngine;
+  /** Stop following the video and settings, destroy the engine and remove its container */
+  destroy: () => void;
+}
+
+/**
+ * Create the rendering backend selected in settings
+ */
+function createRenderer(mode: DanmakuRendererMode, container: HTMLElement): DanmakuRenderer {
+  return mode === 'canvas'
+    ? new CanvasDanmakuRenderer(container)
+    : new DomDanmakuRenderer(container);
+}
+
+/**
+ * Create a danmaku engine drawing into a container laid over the video
+ *
+ * The engine follows seeks, container resizes and later changes to the
+ * renderer, layout, style and on/off settings. Loading items is left to the caller.
+ */
+export function mountDanmakuEngine(
+  video: HTMLVideoElement,
+  container: HTMLElement,
+  initialSettings: DanmakuSettings
+): MountedDanmakuEngine {
+  let settings = initialSettings;
+  const engine = new DanmakuEngine(
+    video,
+    createRenderer(settings.renderer, container),
+    toEngineOptions(settings)
+  );
+  engine.setStyle(toRenderStyle(settings));
+
+  const onSeeked = () => engine.seek(video.currentTime);
+  video.addEventListener('seeked', onSeeked);
+
+  const resizeObserver = new ResizeObserver(() => {
+    engine.resize(container.clientWidth, container.clientHeight);
+  });
+  resizeObserver.observe(container);
+  engine.resize(container.clientWidth, container.clientHeight);
+
+  // Show or hide the stage; a hidden engine stops ticking entirely
+  const applyEnabled = (enabled: boolean) => {
+    container.style.visibility = enabled ? 'visible' : 'hidden';
+    if (enabled) {
+      engine.seek(video.currentTime);
+      engine.start();
+    } else {
+      engine.stop();
+    }
+  };
+  applyEnabled(settings.enabled);
+
+  const removeSettingsListener = onDanmakuSettingsChanged(updated => {
+    const previous = settings;
+    settings = updated;
+
+    if (updated.renderer !== previous.renderer) {
+      engine.setRenderer(createRenderer(updated.renderer, container));
+    }
+    engine.setOptions(toEngineOptions(updated));
+    engine.setStyle(toRenderStyle(updated));
+    if (updated.enabled !== previous.enabled) {
+      applyEnabled(updated.enabled);
+    }
+  });
+
+  return {
+    engine,
+    destroy: () => {
+      removeSettingsListener();
+      video.removeEventListener('seeked', onSeeked);
+      resizeObserver.disconnect();
+      engine.destroy();
+      container.remove();
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import type { BilibiliDanmaku, TimeOffset, VideoMapping } from '../../types';
+
+/**
+ * Offset that leaves danmaku times unchanged
+ */
+export const NO_TIME_OFFSET: TimeOffset = { shift: 0 };
+
+/**
+ * Storage key prefix for per-video offset overrides
+ */
+const OFFSET_KEY_PREFIX = 'danmakuOffset:';
+
+/**
+ * Read the offset model stored with a video pair
+ */
+export function toTimeOffset(
+  mapping: Pick<VideoMapping, 'timeOffset' | 'timeSegments'>
+): TimeOffset {
+  const offset: TimeOffset = { shift: mapping.timeOffset };
+  if (mapping.timeSegments && mapping.timeSegments.length > 0) {
+    offset.segments = mapping.timeSegments;
+  }
+  return offset;
+}
+
+/**
+ * Map a Bilibili danmaku time onto the YouTube timeline
+ * @returns YouTube time in seconds, or null if the moment was cut from the YouTube upload
+ */
+export function mapTime(time: number, offset: TimeOffset): number | null {
+  const segment = offset.segments?.find(range => time >= range.from && time < range.to);
+  if (!segment) {
+    return time + offset.shift;
+  }
+  return segment.offset === null ? null : time + segment.offset;
+}
+
+/**
+ * Apply an offset model to a danmaku list, dropping items that land before the video starts
+ */
+export function applyTimeOffset(items: BilibiliDanmaku[], offset: TimeOffset): BilibiliDanmaku[] {
+  if (offset.shift === 0 && !offset.segments?.length) {
+    return items;
+  }
+
+  const mapped: BilibiliDanmaku[] = [];
+  for (const item of items) {
+    const time = mapTime(item.time, offset);
+    if (time !== null && time >= 0) {
+      mapped.push({ ...item, time });
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Offset model mapping YouTube times back onto the Bilibili timeline
+ * Ranges cut from the YouTube upload have no YouTube counterpart and are left out.
+ */
+export function invertTimeOffset(offset: TimeOffset): TimeOffset {
+  const inverted: TimeOffset = { shift: -offset.shift };
+  const segments = offset.segments?.flatMap(segment =>
+    segment.offset === null
+      ? []
+      : [
+          {
+            from: segment.from + segment.offset,
+            to: segment.to + segment.offset,
+            offset: -segment.offset,
+          },
+        ]
+  );
+  if (segments && segments.length > 0) {
+    inverted.segments = segments;
+  }
+  return inverted;
+}
+
+/**
+ * Shift a whole offset model, keeping its segments aligned relative to each other
+ */
+export function nudgeTimeOffset(offset: TimeOffset, delta: number): TimeOffset {
+  const nudged: TimeOffset = { shift: offset.shift + delta };
+  if (offset.segments) {
+    nudged.segments = offset.segments.map(segment => ({
+      ...segment,
+      offset: segment.offset === null ? null : segment.offset + delta,
+    }));
+  }
+  return nudged;
+}
+
+/**
+ * Load the user's saved offset for a YouTube video
+ * @returns Saved offset, or null if the user has not adjusted this video
+ */
+export async function loadSavedTimeOffset(youtubeVideoId: string): Promise<TimeOffset | null> {
+  const key = `${OFFSET_KEY_PREFIX}${youtubeVideoId}`;
+  try {
+    const stored = await browser.storage.local.get(key);
+    return (stored[key] as TimeOffset | undefined) ?? null;
+  } catch (error) {
+    console.error('Failed to load danmaku offset:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the user's offset for a YouTube video
+ */
+export async function saveTimeOffset(youtubeVideoId: string, offset: TimeOffset): Promise<void> {
+  await browser.storage.local.set({ [`${OFFSET_KEY_PREFIX}${youtubeVideoId}`]: offset });
+}
+
+/**
+ * Forget the user's offset for a YouTube video
+ */
+export async function clearSavedTimeOffset(youtubeVideoId: string): Promise<void> {
+  await browser.storage.local.remove(`${OFFSET_KEY_PREFIX}${youtubeVideoId}`);
+}
@@ -0,0 +1,154 @@
+import type { BilibiliDanmaku } from '../../types';
+
+/**
+ * Preprocessing options for dense videos
+ */
+export interface PreprocessOptions {
+  /** Merge near-identical danmaku sent within this many seconds of the first; 0 disables merging */
+  mergeWindow: number;
+  /** Maximum danmaku kept per second of video; 0 disables sampling */
+  budget: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  mergeWindow: 10,
+  budget: 0,
+};
+
+/**
+ * Reduce a danmaku to the form compared when merging
+ * Width variants, case, whitespace and punctuation are ignored, and runs of a
+ * repeated character are shortened so "哈哈哈" and "哈哈哈哈哈" merge.
+ */
+export function mergeKey(content: string): string {
+  return content
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}\s]/gu, '')
+    .replace(/(.)\1+/gu, '$1$1');
+}
+
+/**
+ * Merge near-identical danmaku within a time window into one item with a count
+ * The merged item keeps the first occurrence's time and attributes. Advanced and
+ * code danmaku are never merged.
+ */
+export function mergeDuplicates(items: BilibiliDanmaku[], window: number): BilibiliDanmaku[] {
+  const sorted = [...items].sort((a, b) => a.time - b.time);
+  if (window <= 0) return sorted;
+
+  const merged: BilibiliDanmaku[] = [];
+  const groups = new Map<string, BilibiliDanmaku>();
+
+  for (const danmaku of sorted) {
+    const key = danmaku.type >= 7 ? '' : mergeKey(danmaku.content);
+    if (key === '') {
+      merged.push(danmaku);
+      continue;
+    }
+
+    const group = groups.get(key);
+    if (group && danmaku.time - group.time <= window) {
+      group.count = (group.count ?? 1) + (danmaku.count ?? 1);
+      continue;
+    }
+
+    const copy = { ...danmaku };
+    groups.set(key, copy);
+    merged.push(copy);
+  }
+
+  return merged;
+}
+
+/**
+ * Compare two danmaku by how much they deserve to survive sampling
+ * Larger merged groups come first, then higher block weight (Bilibili's quality signal).
+ */
+function comparePriority(a: BilibiliDanmaku, b: BilibiliDanmaku): number {
+  return (b.count ?? 1) - (a.count ?? 1) || (b.weight ?? 0) - (a.weight ?? 0);
+}
+
+/**
+ * Pick items evenly spread through a time-ordered list
+ */
+function spread(items: BilibiliDanmaku[], count: number): BilibiliDanmaku[] {
+  const picked: BilibiliDanmaku[] = [];
+  for (let index = 0; index < count; index++) {
+    picked.push(items[Math.floor((index * items.length) / count)]!);
+  }
+  return picked;
+}
+
+/**
+ * Keep at most `budget` danmaku per second of video
+ * Within each crowded second the highest-priority items are kept, and ties are
+ * sampled evenly across the second so the survivors stay representative.
+ */
+export function sampleDanmaku(items: BilibiliDanmaku[], budget: number): BilibiliDanmaku[] {
+  const sorted = [...items].sort((a, b) => a.time - b.time);
+  if (budget <= 0) return sorted;
+
+  const kept: BilibiliDanmaku[] = [];
+  let start = 0;
+
+  while (start < sorted.length) {
+    const second = Math.floor(sorted[start]!.time);
+    let end = start;
+    while (end < sorted.length && Math.floor(sorted[end]!.time) === second) {
+      end++;
+    }
+
+    const bucket = sorted.slice(start, end);
+    start = end;
+
+    if (bucket.length <= budget) {
+      kept.push(...bucket);
+      continue;
+    }
+
+    // Everything that outranks the last item to make the cut is kept; the items
+    // tied with it share the remaining slots
+    const ranked = [...bucket].sort(comparePriority);
+    const cutoff = ranked[budget - 1]!;
+    const above = bucket.filter(danmaku => comparePriority(danmaku, cutoff) < 0);
+    const tied = bucket.filter(danmaku => comparePriority(danmaku, cutoff) === 0);
+    const chosen = new Set([...above, ...spread(tied, budget - above.length)]);
+
+    kept.push(...bucket.filter(danmaku => chosen.has(danmaku)));
+  }
+
+  return kept;
+}
+
+/**
+ * Apply the per-second budget to danmaku arriving one at a time, as on a live stream
+ * Nothing can be seen ahead, so the first items of a crowded second are kept.
+ * @returns Function telling whether an item at `time` fits `budget`; kept items count
+ * towards the budget of the following second
+ */
+export function createDensityLimiter(): (time: number, budget: number) => boolean {
+  let recent: number[] = [];
+
+  return (time, budget) => {
+    if (budget <= 0) return true;
+
+    // Also forgets items ahead of `time`, left behind by a backward seek
+    recent = recent.filter(kept => kept > time - 1 && kept <= time);
+    if (recent.length >= budget) return false;
+
+    recent.push(time);
+    return true;
+  };
+}
+
+/**
+ * Merge duplicates, then sample down to the per-second budget
+ */
+export function preprocessDanmaku(
+  items: BilibiliDanmaku[],
+  options: Partial<PreprocessOptions> = {}
+): BilibiliDanmaku[] {
+  const { mergeWindow, budget } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  return sampleDanmaku(mergeDuplicates(items, mergeWindow), budget);
+}
@@ -0,0 +1,146 @@
+import type { DanmakuEngineOptions, DanmakuRenderStyle, DanmakuStrokeStyle } from './engine';
+import { DANMAKU_FONT_FAMILY } from './engine';
+import type { PreprocessOptions } from './preprocess';
+import { DEFAULT_PREPROCESS_OPTIONS } from './preprocess';
+
+/**
+ * Danmaku rendering backend
+ */
+export type DanmakuRendererMode = 'dom' | 'canvas';
+
+/**
+ * Fraction of the player height that danmaku may cover
+ */
+export type DanmakuDisplayArea = 0.25 | 0.5 | 0.75 | 1;
+
+/**
+ * User-facing danmaku preferences persisted in extension storage
+ */
+export interface DanmakuSettings {
+  /** Whether danmaku are shown at all */
+  enabled: boolean;
+  /** Rendering backend; canvas is faster on dense videos */
+  renderer: DanmakuRendererMode;
+  /** Opacity (0.1-1) */
+  opacity: number;
+  /** Font size multiplier (0.5-2) */
+  fontScale: number;
+  /** Scroll speed multiplier (0.5-2) */
+  speed: number;
+  displayArea: DanmakuDisplayArea;
+  /** CSS font stack */
+  fontFamily: string;
+  stroke: DanmakuStrokeStyle;
+  /** Merge near-identical danmaku into one item with a ×N count */
+  mergeDuplicates: boolean;
+  /** Maximum danmaku per second of video; 0 shows everything */
+  densityBudget: number;
+  /** Maximum danmaku on screen at once; 0 shows as many as fit */
+  maxOnScreen: number;
+  /** Draw the danmaku density curve above the progress bar */
+  showHeatmap: boolean;
+  /** Show the searchable danmaku list beside the video */
+  showList: boolean;
+}
+
+/**
+ * Default danmaku settings
+ */
+export const DEFAULT_DANMAKU_SETTINGS: DanmakuSettings = {
+  enabled: true,
+  renderer: 'canvas',
+  opacity: 1,
+  fontScale: 1,
+  speed: 1,
+  displayArea: 1,
+  fontFamily: DANMAKU_FONT_FAMILY,
+  stroke: 'stroke',
+  mergeDuplicates: true,
+  densityBudget: 0,
+  maxOnScreen: 0,
+  showHeatmap: true,
+  showList: true,
+};
+
+/**
+ * Time a scrolling item takes to cross the stage at normal speed (seconds)
+ */
+const BASE_SCROLL_DURATION = 8;
+
+/**
+ * Engine options derived from the user's settings
+ */
+export function toEngineOptions(
+  settings: DanmakuSettings
+): Pick<DanmakuEngineOptions, 'scrollDuration' | 'fontScale' | 'displayArea' | 'maxOnScreen'> {
+  return {
+    scrollDuration: BASE_SCROLL_DURATION / settings.speed,
+    fontScale: settings.fontScale,
+    displayArea: settings.displayArea,
+    maxOnScreen: settings.maxOnScreen,
+  };
+}
+
+/**
+ * Preprocessing options derived from the user's settings
+ */
+export function toPreprocessOptions(settings: DanmakuSettings): PreprocessOptions {
+  return {
+    mergeWindow: settings.mergeDuplicates ? DEFAULT_PREPROCESS_OPTIONS.mergeWindow : 0,
+    budget: settings.densityBudget,
+  };
+}
+
+/**
+ * Renderer style derived from the user's settings
+ */
+export function toRenderStyle(settings: DanmakuSettings): DanmakuRenderStyle {
+  return {
+    opacity: settings.opacity,
+    fontFamily: settings.fontFamily,
+    stroke: settings.stroke,
+  };
+}
+
+/**
+ * Storage key for danmaku settings
+ */
+const SETTINGS_KEY = 'danmakuSettings';
+
+/**
+ * Load danmaku settings, filling in defaults for missing fields
+ */
+export async function loadDanmakuSettings(): Promise<DanmakuSettings> {
+  try {
+    const stored = await browser.storage.local.get(SETTINGS_KEY);
+    return { ...DEFAULT_DANMAKU_SETTINGS, ...(stored[SETTINGS_KEY] as Partial<DanmakuSettings>) };
+  } catch (error) {
+    console.error('Failed to load danmaku settings:', error);
+    return { ...DEFAULT_DANMAKU_SETTINGS };
+  }
+}
+
+/**
+ * Persist a partial settings update
+ */
+export async function saveDanmakuSettings(update: Partial<DanmakuSettings>): Promise<void> {
+  const current = await loadDanmakuSettings();
+  await browser.storage.local.set({ [SETTINGS_KEY]: { ...current, ...update } });
+}
+
+/**
+ * Subscribe to settings changes made from any tab
+ * @returns Function that removes the listener
+ */
+export function onDanmakuSettingsChanged(
+  listener: (settings: DanmakuSettings) => void
+): () => void {
+  const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    const change = changes[SETTINGS_KEY];
+    if (areaName !== 'local' || !change) return;
+    listener({ ...DEFAULT_DANMAKU_SETTINGS, ...(change.newValue as Partial<DanmakuSettings>) });
+  };
+
+  browser.storage.onChanged.addListener(handler);
+  return () => browser.storage.onChanged.removeListener(handler);
+}
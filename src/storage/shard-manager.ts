@@ -1,5 +1,6 @@
 import crypto from 'crypto';
-import type { ShardConfig, MappingIndex, UserMapping } from '../../types';
+import type { ShardConfig, MappingIndex, UserMapping, VideoMapping } from '../../types';
+import { normalizeHandle } from '../utils/youtube-channel';
 
 /**
  * Default shard configuration
@@ -12,15 +13,43 @@ const DEFAULT_SHARD_CONFIG: ShardConfig = {
 };
 
 /**
- * Shard manager for Git-style distributed user mapping storage
+ * Index keys for a user mapping (both platform IDs)
  */
-export class ShardManager {
+export function userMappingIndexKeys(mapping: UserMapping): string[] {
+  return [mapping.bilibiliUid, mapping.youtubeChannelId];
+}
+
+/**
+ * Index keys for a user mapping looked up from YouTube: both platform IDs and the handle
+ */
+export function youtubeMappingIndexKeys(mapping: UserMapping): string[] {
+  const keys = userMappingIndexKeys(mapping);
+  return mapping.youtubeHandle ? [...keys, normalizeHandle(mapping.youtubeHandle)] : keys;
+}
+
+/**
+ * Index keys for a video mapping (BV ID and YouTube video ID)
+ */
+export function videoMappingIndexKeys(mapping: VideoMapping): string[] {
+  return [mapping.bvid, mapping.youtubeVideoId];
+}
+
+/**
+ * Shard manager for Git-style distributed mapping storage
+ */
+export class ShardManager<T = UserMapping> {
   private config: ShardConfig;
   private baseDir: string;
+  private indexKeys: (mapping: T) => string[];
 
-  constructor(baseDir: string, config: ShardConfig = DEFAULT_SHARD_CONFIG) {
+  constructor(
+    baseDir: string,
+    config: ShardConfig = DEFAULT_SHARD_CONFIG,
+    indexKeys: (mapping: T) => string[] = userMappingIndexKeys as (mapping: T) => string[]
+  ) {
     this.baseDir = baseDir;
     this.config = config;
+    this.indexKeys = indexKeys;
   }
 
   /**
@@ -71,7 +100,7 @@ export class ShardManager {
   /**
    * Read mapping from shard
    */
-  async readMapping(userId: string): Promise<UserMapping | null> {
+  async readMapping(userId: string): Promise<T | null> {
     const filePath = this.getFullPath(userId);
     try {
       const file = Bun.file(filePath);
@@ -79,7 +108,7 @@ export class ShardManager {
         return null;
       }
       const data = await file.json();
-      return data as UserMapping;
+      return data as T;
     } catch (error) {
       console.error(`Failed to read mapping for ${userId}:`, error);
       return null;
@@ -89,7 +118,7 @@ export class ShardManager {
   /**
    * Write mapping to shard
    */
-  async writeMapping(userId: string, mapping: UserMapping): Promise<void> {
+  async writeMapping(userId: string, mapping: T): Promise<void> {
     const filePath = this.getFullPath(userId);
     const dirPath = this.getShardDir(userId);
 
@@ -139,11 +168,12 @@ export class ShardManager {
 
       try {
         const file = Bun.file(`${this.baseDir}/${filePath}`);
-        const mapping = (await file.json()) as UserMapping;
+        const mapping = (await file.json()) as T;
 
-        // Add both directions to index
-        index[mapping.bilibiliUid] = filePath;
-        index[mapping.youtubeChannelId] = filePath;
+        // Add every lookup key (e.g. both directions) to index
+        for (const key of this.indexKeys(mapping)) {
+          index[key] = filePath;
+        }
       } catch (error) {
         console.error(`Failed to process ${filePath}:`, error);
       }
@@ -180,18 +210,25 @@ export class ShardManager {
   /**
    * Batch write mappings
    */
-  async batchWrite(mappings: Array<{ userId: string; mapping: UserMapping }>): Promise<void> {
+  async batchWrite(mappings: Array<{ userId: string; mapping: T }>): Promise<void> {
     const writes = mappings.map(({ userId, mapping }) => this.writeMapping(userId, mapping));
     await Promise.all(writes);
   }
 }
 
 /**
- * Create shard managers for both directions
+ * Create shard managers for both user mapping directions and video pairs
+ * YouTube mappings are also indexed by handle. Video pairs are sharded by YouTube video ID
+ * and indexed by both video IDs.
  */
 export function createShardManagers(dataDir: string = './data') {
   return {
     b2y: new ShardManager(`${dataDir}/b2y`),
-    y2b: new ShardManager(`${dataDir}/y2b`),
+    y2b: new ShardManager(`${dataDir}/y2b`, DEFAULT_SHARD_CONFIG, youtubeMappingIndexKeys),
+    videos: new ShardManager<VideoMapping>(
+      `${dataDir}/videos`,
+      DEFAULT_SHARD_CONFIG,
+      videoMappingIndexKeys
+    ),
   };
 }
@@ -0,0 +1,263 @@
+import type { BilibiliDanmaku } from '../../types';
+import {
+  currentDanmakuIndex,
+  formatSendTime,
+  formatVideoTime,
+  searchDanmaku,
+} from '../danmaku/list';
+
+const PANEL_ID = 'bilitube-danmaku-list';
+
+/**
+ * Height of one row and of the scrollable area in pixels
+ */
+const ROW_HEIGHT = 28;
+const LIST_HEIGHT = 360;
+
+/**
+ * Rows rendered above and below the visible window
+ */
+const OVERSCAN = 5;
+
+/**
+ * Scrollable list of danmaku beside the video, like Bilibili's 弹幕列表
+ *
+ * Only the rows in view are rendered, so videos with tens of thousands of
+ * danmaku stay cheap. The row at the current time is highlighted and kept in
+ * view, except while the pointer is over the list so it can be browsed freely.
+ */
+export class DanmakuListPanel {
+  private onSeek: (time: number) => void;
+  private root: HTMLElement;
+  private title: HTMLElement;
+  private body: HTMLElement;
+  private search: HTMLInputElement;
+  private viewport: HTMLElement;
+  private spacer: HTMLElement;
+  private empty: HTMLElement;
+  private items: readonly BilibiliDanmaku[] = [];
+  private shown: readonly BilibiliDanmaku[] = [];
+  private currentTime = 0;
+  private currentIndex = -1;
+  private hovering = false;
+
+  constructor(host: HTMLElement, onSeek: (time: number) => void) {
+    this.onSeek = onSeek;
+    document.getElementById(PANEL_ID)?.remove();
+
+    this.root = document.createElement('div');
+    this.root.id = PANEL_ID;
+    this.root.style.cssText = `
+      margin-bottom: 12px;
+      border: 1px solid var(--yt-spec-10-percent-layer, rgba(128, 128, 128, 0.3));
+      border-radius: 12px;
+      overflow: hidden;
+      color: var(--yt-spec-text-primary, #0f0f0f);
+      font-size: 13px;
+    `;
+
+    const header = document.createElement('div');
+    header.style.cssText = `
+      display: flex;
+      align-items: center;
+      padding: 10px 12px;
+      cursor: pointer;
+      font-weight: 500;
+      user-select: none;
+    `;
+    this.title = document.createElement('span');
+    this.title.style.cssText = 'flex: 1;';
+    const arrow = document.createElement('span');
+    arrow.textContent = '▾';
+    header.append(this.title, arrow);
+    header.addEventListener('click', () => {
+      const collapsed = this.body.style.display !== 'none';
+      this.body.style.display = collapsed ? 'none' : 'block';
+      arrow.textContent = collapsed ? '▸' : '▾';
+      if (!collapsed) this.render();
+    });
+
+    this.body = document.createElement('div');
+
+    this.search = document.createElement('input');
+    this.search.type = 'search';
+    this.search.placeholder = '搜索弹幕';
+    this.search.style.cssText = `
+      box-sizing: border-box;
+      width: calc(100% - 24px);
+      margin: 0 12px 8px;
+      padding: 6px 8px;
+      border: 1px solid var(--yt-spec-10-percent-layer, rgba(128, 128, 128, 0.3));
+      border-radius: 6px;
+      background: transparent;
+      color: inherit;
+      font-size: inherit;
+    `;
+    this.search.addEventListener('input', () => this.applySearch());
+    // Typing must not trigger YouTube's keyboard shortcuts
+    for (const type of ['keydown', 'keyup', 'keypress'] as const) {
+      this.search.addEventListener(type, event => event.stopPropagation());
+    }
+
+    this.viewport = document.createElement('div');
+    this.viewport.style.cssText = `
+      position: relative;
+      height: ${LIST_HEIGHT}px;
+      overflow-y: auto;
+    `;
+    this.viewport.addEventListener('scroll', () => this.render());
+    this.viewport.addEventListener('mouseenter', () => {
+      this.hovering = true;
+    });
+    this.viewport.addEventListener('mouseleave', () => {
+      this.hovering = false;
+      this.scrollToCurrent();
+    });
+
+    this.spacer = document.createElement('div');
+    this.spacer.style.cssText = 'position: relative;';
+    this.viewport.appendChild(this.spacer);
+
+    this.empty = document.createElement('div');
+    this.empty.textContent = '没有匹配的弹幕';
+    this.empty.style.cssText = `
+      display: none;
+      padding: 16px;
+      text-align: center;
+      color: var(--yt-spec-text-secondary, #606060);
+    `;
+
+    this.body.append(this.search, this.empty, this.viewport);
+    this.root.append(header, this.body);
+    host.prepend(this.root);
+
+    this.updateTitle();
+  }
+
+  /**
+   * Replace the listed danmaku; items are expected on the YouTube timeline
+   */
+  setItems(items: readonly BilibiliDanmaku[]): void {
+    this.items = [...items].sort((a, b) => a.time - b.time);
+    this.applySearch();
+  }
+
+  /**
+   * Move the highlight to the danmaku at the given video time
+   */
+  setCurrentTime(time: number): void {
+    this.currentTime = time;
+    const index = currentDanmakuIndex(this.shown, time);
+    if (index === this.currentIndex) return;
+
+    this.currentIndex = index;
+    this.render();
+    this.scrollToCurrent();
+  }
+
+  /**
+   * Show or hide the panel
+   */
+  setVisible(visible: boolean): void {
+    this.root.style.display = visible ? 'block' : 'none';
+    if (visible) this.render();
+  }
+
+  destroy(): void {
+    this.root.remove();
+  }
+
+  private applySearch(): void {
+    this.shown = searchDanmaku(this.items, this.search.value);
+    this.currentIndex = currentDanmakuIndex(this.shown, this.currentTime);
+    this.spacer.style.height = `${this.shown.length * ROW_HEIGHT}px`;
+    this.empty.style.display = this.shown.length === 0 && this.items.length > 0 ? 'block' : 'none';
+    this.updateTitle();
+    this.render();
+    this.scrollToCurrent();
+  }
+
+  private updateTitle(): void {
+    const count =
+      this.shown.length === this.items.length
+        ? `${this.items.length}`
+        : `${this.shown.length}/${this.items.length}`;
+    this.title.textContent = `弹幕列表 (${count})`;
+  }
+
+  /**
+   * Keep the current row in the middle of the list unless the user is browsing it
+   */
+  private scrollToCurrent(): void {
+    if (this.hovering || this.currentIndex < 0) return;
+    this.viewport.scrollTop = Math.max(
+      this.currentIndex * ROW_HEIGHT - (LIST_HEIGHT - ROW_HEIGHT) / 2,
+      0
+    );
+  }
+
+  /**
+   * Render the rows in view
+   */
+  private render(): void {
+    if (this.root.style.display === 'none' || this.body.style.display === 'none') return;
+
+    const first = Math.max(Math.floor(this.viewport.scrollTop / ROW_HEIGHT) - OVERSCAN, 0);
+    const last = Math.min(
+      Math.ceil((this.viewport.scrollTop + LIST_HEIGHT) / ROW_HEIGHT) + OVERSCAN,
+      this.shown.length
+    );
+
+    const rows: HTMLElement[] = [];
+    for (let index = first; index < last; index++) {
+      rows.push(this.createRow(this.shown[index]!, index));
+    }
+    this.spacer.replaceChildren(...rows);
+  }
+
+  private createRow(danmaku: BilibiliDanmaku, index: number): HTMLElement {
+    const row = document.createElement('div');
+    const current = index === this.currentIndex;
+    row.style.cssText = `
+      position: absolute;
+      top: ${index * ROW_HEIGHT}px;
+      left: 0;
+      right: 0;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      height: ${ROW_HEIGHT}px;
+      padding: 0 12px;
+      cursor: pointer;
+      background: ${current ? 'rgba(0, 161, 214, 0.18)' : 'transparent'};
+    `;
+    row.addEventListener('click', () => this.onSeek(danmaku.time));
+
+    const time = document.createElement('span');
+    time.textContent = formatVideoTime(danmaku.time);
+    time.style.cssText = 'flex: 0 0 52px; font-variant-numeric: tabular-nums;';
+
+    const content = document.createElement('span');
+    content.textContent = danmaku.advanced?.text ?? danmaku.content;
+    content.title = content.textContent;
+    content.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    `;
+
+    const sent = document.createElement('span');
+    sent.textContent = formatSendTime(danmaku.timestamp);
+    sent.style.cssText = `
+      flex: 0 0 80px;
+      text-align: right;
+      color: var(--yt-spec-text-secondary, #606060);
+      font-variant-numeric: tabular-nums;
+    `;
+
+    row.append(time, content, sent);
+    return row;
+  }
+}
@@ -0,0 +1,72 @@
+import { heatmapPath } from '../danmaku/heatmap';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Coordinate space of the curve; the SVG is stretched to the progress bar
+ */
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 100;
+
+/**
+ * Danmaku density curve drawn above YouTube's progress bar
+ */
+export class DanmakuHeatmap {
+  private svg: SVGSVGElement;
+  private path: SVGPathElement;
+  private visible = true;
+  private hasData = false;
+
+  constructor(player: HTMLElement) {
+    player.querySelector('.bilitube-danmaku-heatmap')?.remove();
+
+    this.svg = document.createElementNS(SVG_NS, 'svg');
+    this.svg.classList.add('bilitube-danmaku-heatmap');
+    this.svg.setAttribute('viewBox', `0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`);
+    this.svg.setAttribute('preserveAspectRatio', 'none');
+    this.svg.style.cssText = `
+      position: absolute;
+      left: 0;
+      bottom: 100%;
+      width: 100%;
+      height: 28px;
+      pointer-events: none;
+      display: none;
+    `;
+
+    this.path = document.createElementNS(SVG_NS, 'path');
+    this.path.setAttribute('fill', 'rgba(0, 161, 214, 0.45)');
+    this.path.setAttribute('stroke', 'rgba(0, 161, 214, 0.9)');
+    this.path.setAttribute('stroke-width', '1');
+    this.path.setAttribute('vector-effect', 'non-scaling-stroke');
+    this.svg.appendChild(this.path);
+
+    const progressBar = player.querySelector<HTMLElement>('.ytp-progress-bar-container');
+    progressBar?.appendChild(this.svg);
+  }
+
+  /**
+   * Redraw the curve from normalised density values
+   */
+  update(values: readonly number[]): void {
+    this.hasData = values.length > 0;
+    this.path.setAttribute('d', heatmapPath(values, VIEW_WIDTH, VIEW_HEIGHT));
+    this.refresh();
+  }
+
+  /**
+   * Show or hide the curve
+   */
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.refresh();
+  }
+
+  destroy(): void {
+    this.svg.remove();
+  }
+
+  private refresh(): void {
+    this.svg.style.display = this.visible && this.hasData ? 'block' : 'none';
+  }
+}
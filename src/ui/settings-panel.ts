@@ -0,0 +1,579 @@
+import type { DanmakuMode } from '../../types';
+import { DANMAKU_FONT_FAMILY } from '../danmaku/engine';
+import type { DanmakuStrokeStyle } from '../danmaku/engine';
+import type { DanmakuDisplayArea, DanmakuRendererMode, DanmakuSettings } from '../danmaku/settings';
+import type { DanmakuExportFormat } from '../danmaku/export';
+import type { DanmakuFilterRules } from '../danmaku/filter';
+
+/**
+ * Option of a segmented choice control
+ */
+interface ChoiceOption<T> {
+  label: string;
+  value: T;
+}
+
+/**
+ * Bounds and display format of a slider
+ */
+interface RangeOptions {
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+/**
+ * Font stacks offered in the panel (Bilibili's player offers the same families)
+ */
+const FONT_OPTIONS: ChoiceOption<string>[] = [
+  { label: '默认', value: DANMAKU_FONT_FAMILY },
+  { label: '黑体', value: `"SimHei", "Heiti SC", ${DANMAKU_FONT_FAMILY}` },
+  { label: '宋体', value: `"SimSun", "Songti SC", serif` },
+  { label: '楷体', value: `"KaiTi", "Kaiti SC", serif` },
+];
+
+const EXPORT_OPTIONS: ChoiceOption<DanmakuExportFormat>[] = [
+  { label: 'ASS', value: 'ass' },
+  { label: 'SRT', value: 'srt' },
+  { label: 'XML', value: 'xml' },
+];
+
+/**
+ * Mode groups that can be blocked; the three scrolling modes go together
+ */
+const BLOCKED_TYPE_OPTIONS: ChoiceOption<DanmakuMode[]>[] = [
+  { label: '滚动', value: [1, 2, 3] },
+  { label: '顶部', value: [5] },
+  { label: '底部', value: [4] },
+  { label: '逆向', value: [6] },
+  { label: '高级', value: [7] },
+];
+
+const BLOCKED_POOL_OPTIONS: ChoiceOption<number[]>[] = [
+  { label: '字幕', value: [1] },
+  { label: '特殊', value: [2] },
+];
+
+const PANEL_ID = 'bilitube-danmaku-settings';
+
+/**
+ * Danmaku toggle and settings buttons in YouTube's player controls, plus the
+ * settings panel they open
+ *
+ * The panel only reports changes; persisting them and applying them to the
+ * engine is left to the caller, which then calls `update` with the new settings.
+ * Filter rule edits go the same way through `onRulesChange` and `updateRules`.
+ * Export downloads are likewise handed to `onExport` when one is given.
+ */
+export class DanmakuSettingsPanel {
+  private settings: DanmakuSettings;
+  private onChange: (update: Partial<DanmakuSettings>) => void;
+  private onRulesChange: (update: Partial<DanmakuFilterRules>) => void;
+  private onExport: ((format: DanmakuExportFormat) => void) | undefined;
+  private toggleButton: HTMLButtonElement;
+  private settingsButton: HTMLButtonElement;
+  private panel: HTMLElement;
+  private syncers: Array<(settings: DanmakuSettings) => void> = [];
+  private ruleSyncers: Array<(rules: DanmakuFilterRules) => void> = [];
+  private onDocumentClick = (event: MouseEvent) => {
+    const target = event.target as Node;
+    if (!this.panel.contains(target) && !this.settingsButton.contains(target)) {
+      this.close();
+    }
+  };
+
+  constructor(
+    player: HTMLElement,
+    settings: DanmakuSettings,
+    onChange: (update: Partial<DanmakuSettings>) => void,
+    rules: DanmakuFilterRules,
+    onRulesChange: (update: Partial<DanmakuFilterRules>) => void,
+    onExport?: (format: DanmakuExportFormat) => void
+  ) {
+    this.settings = settings;
+    this.onChange = onChange;
+    this.onRulesChange = onRulesChange;
+    this.onExport = onExport;
+
+    this.toggleButton = this.createButton('弹', '开启/关闭弹幕', () =>
+      this.onChange({ enabled: !this.settings.enabled })
+    );
+    this.settingsButton = this.createButton('⚙', '弹幕设置', () => this.toggle());
+    this.panel = this.createPanel();
+
+    const controls = player.querySelector('.ytp-right-controls');
+    controls?.prepend(this.toggleButton, this.settingsButton);
+    player.appendChild(this.panel);
+
+    this.update(settings);
+    this.updateRules(rules);
+  }
+
+  /**
+   * Reflect new settings in the controls
+   */
+  update(settings: DanmakuSettings): void {
+    this.settings = settings;
+    this.toggleButton.style.opacity = settings.enabled ? '1' : '0.5';
+    this.toggleButton.style.textDecoration = settings.enabled ? 'none' : 'line-through';
+    for (const sync of this.syncers) {
+      sync(settings);
+    }
+  }
+
+  /**
+   * Reflect new filter rules in the rule editors
+   */
+  updateRules(rules: DanmakuFilterRules): void {
+    for (const sync of this.ruleSyncers) {
+      sync(rules);
+    }
+  }
+
+  /**
+   * Remove the buttons and panel from the player
+   */
+  destroy(): void {
+    this.close();
+    this.toggleButton.remove();
+    this.settingsButton.remove();
+    this.panel.remove();
+  }
+
+  private toggle(): void {
+    if (this.panel.style.display === 'none') {
+      this.panel.style.display = 'flex';
+      document.addEventListener('click', this.onDocumentClick, true);
+    } else {
+      this.close();
+    }
+  }
+
+  private close(): void {
+    this.panel.style.display = 'none';
+    document.removeEventListener('click', this.onDocumentClick, true);
+  }
+
+  /**
+   * Create a button styled like YouTube's own player buttons
+   */
+  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'ytp-button bilitube-danmaku-button';
+    button.textContent = text;
+    button.title = title;
+    button.style.cssText = `
+      font-size: 16px;
+      font-weight: bold;
+      text-align: center;
+      vertical-align: top;
+    `;
+    button.addEventListener('click', event => {
+      event.stopPropagation();
+      onClick();
+    });
+    return button;
+  }
+
+  /**
+   * Build the settings panel
+   */
+  private createPanel(): HTMLElement {
+    document.getElementById(PANEL_ID)?.remove();
+
+    const panel = document.createElement('div');
+    panel.id = PANEL_ID;
+    panel.style.cssText = `
+      position: absolute;
+      right: 12px;
+      bottom: 60px;
+      z-index: 110;
+      display: none;
+      flex-direction: column;
+      gap: 10px;
+      width: 260px;
+      max-height: calc(100% - 72px);
+      overflow-y: auto;
+      padding: 12px 14px;
+      border-radius: 8px;
+      background: rgba(28, 28, 28, 0.92);
+      color: #eee;
+      font-size: 12px;
+    `;
+
+    // Keep clicks and keys (e.g. arrow keys on sliders) away from the player's shortcuts
+    for (const type of ['click', 'keydown', 'keyup', 'wheel'] as const) {
+      panel.addEventListener(type, event => event.stopPropagation());
+    }
+
+    panel.append(
+      this.createRange(
+        '不透明度',
+        { min: 10, max: 100, step: 5, format: value => `${value}%` },
+        settings => settings.opacity * 100,
+        value => this.onChange({ opacity: value / 100 })
+      ),
+      this.createRange(
+        '字号',
+        { min: 50, max: 200, step: 10, format: value => `${value}%` },
+        settings => settings.fontScale * 100,
+        value => this.onChange({ fontScale: value / 100 })
+      ),
+      this.createRange(
+        '速度',
+        { min: 50, max: 200, step: 10, format: value => `${(value / 100).toFixed(1)}x` },
+        settings => settings.speed * 100,
+        value => this.onChange({ speed: value / 100 })
+      ),
+      this.createChoice<DanmakuDisplayArea>(
+        '显示区域',
+        [
+          { label: '1/4', value: 0.25 },
+          { label: '半屏', value: 0.5 },
+          { label: '3/4', value: 0.75 },
+          { label: '满屏', value: 1 },
+        ],
+        settings => settings.displayArea,
+        displayArea => this.onChange({ displayArea })
+      ),
+      this.createChoice(
+        '字体',
+        FONT_OPTIONS,
+        settings => settings.fontFamily,
+        fontFamily => this.onChange({ fontFamily })
+      ),
+      this.createChoice<DanmakuStrokeStyle>(
+        '描边',
+        [
+          { label: '描边', value: 'stroke' },
+          { label: '投影', value: 'shadow' },
+          { label: '无', value: 'none' },
+        ],
+        settings => settings.stroke,
+        stroke => this.onChange({ stroke })
+      ),
+      this.createChoice(
+        '合并重复',
+        [
+          { label: '开', value: true },
+          { label: '关', value: false },
+        ],
+        settings => settings.mergeDuplicates,
+        mergeDuplicates => this.onChange({ mergeDuplicates })
+      ),
+      this.createChoice(
+        '密度',
+        [
+          { label: '不限', value: 0 },
+          { label: '40/秒', value: 40 },
+          { label: '20/秒', value: 20 },
+          { label: '10/秒', value: 10 },
+        ],
+        settings => settings.densityBudget,
+        densityBudget => this.onChange({ densityBudget })
+      ),
+      this.createChoice(
+        '同屏数量',
+        [
+          { label: '不限', value: 0 },
+          { label: '100', value: 100 },
+          { label: '50', value: 50 },
+          { label: '20', value: 20 },
+        ],
+        settings => settings.maxOnScreen,
+        maxOnScreen => this.onChange({ maxOnScreen })
+      ),
+      this.createChoice(
+        '高能进度条',
+        [
+          { label: '开', value: true },
+          { label: '关', value: false },
+        ],
+        settings => settings.showHeatmap,
+        showHeatmap => this.onChange({ showHeatmap })
+      ),
+      this.createChoice(
+        '弹幕列表',
+        [
+          { label: '开', value: true },
+          { label: '关', value: false },
+        ],
+        settings => settings.showList,
+        showList => this.onChange({ showList })
+      ),
+      this.createChoice<DanmakuRendererMode>(
+        '渲染',
+        [
+          { label: 'Canvas', value: 'canvas' },
+          { label: 'DOM', value: 'dom' },
+        ],
+        settings => settings.renderer,
+        renderer => this.onChange({ renderer })
+      )
+    );
+
+    panel.append(this.createRulesSection());
+
+    const onExport = this.onExport;
+    if (onExport) {
+      panel.append(this.createActions('导出', EXPORT_OPTIONS, onExport));
+    }
+
+    return panel;
+  }
+
+  /**
+   * Collapsible editors for the filter rules
+   */
+  private createRulesSection(): HTMLElement {
+    const body = document.createElement('div');
+    body.style.cssText = 'display: none; flex-direction: column; gap: 10px;';
+    body.append(
+      this.createRuleList(
+        '关键词',
+        '每行一个，不区分大小写',
+        rules => rules.keywords,
+        keywords => this.onRulesChange({ keywords })
+      ),
+      this.createRuleList(
+        '正则',
+        '每行一个正则表达式',
+        rules => rules.patterns,
+        patterns => this.onRulesChange({ patterns })
+      ),
+      this.createRuleList(
+        '用户',
+        '每行一个用户 hash',
+        rules => rules.blockedUsers,
+        blockedUsers => this.onRulesChange({ blockedUsers })
+      ),
+      this.createRuleToggles(
+        '类型',
+        BLOCKED_TYPE_OPTIONS,
+        rules => rules.blockedTypes,
+        blockedTypes => this.onRulesChange({ blockedTypes })
+      ),
+      this.createRuleToggles(
+        '弹幕池',
+        BLOCKED_POOL_OPTIONS,
+        rules => rules.blockedPools,
+        blockedPools => this.onRulesChange({ blockedPools })
+      )
+    );
+
+    const toggle = this.createSegment('编辑', () => {
+      const open = body.style.display === 'none';
+      body.style.display = open ? 'flex' : 'none';
+      toggle.textContent = open ? '收起' : '编辑';
+    });
+    toggle.style.background = 'rgba(255, 255, 255, 0.08)';
+
+    const section = document.createElement('div');
+    section.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+    section.append(this.createRow('屏蔽', toggle), body);
+    return section;
+  }
+
+  /**
+   * Textarea editing a list rule, one entry per line; saved when it loses focus
+   */
+  private createRuleList(
+    label: string,
+    placeholder: string,
+    read: (rules: DanmakuFilterRules) => string[],
+    write: (value: string[]) => void
+  ): HTMLElement {
+    const textarea = document.createElement('textarea');
+    textarea.rows = 3;
+    textarea.placeholder = placeholder;
+    textarea.spellcheck = false;
+    textarea.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      resize: vertical;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 4px;
+      background: rgba(255, 255, 255, 0.08);
+      color: inherit;
+      font: inherit;
+    `;
+
+    textarea.addEventListener('change', () => {
+      write(
+        textarea.value
+          .split('\n')
+          .map(line => line.trim())
+          .filter(line => line !== '')
+      );
+    });
+
+    this.ruleSyncers.push(rules => {
+      // Do not overwrite what the user is still typing
+      if (document.activeElement !== textarea) {
+        textarea.value = read(rules).join('\n');
+      }
+    });
+
+    return this.createRow(label, textarea);
+  }
+
+  /**
+   * Buttons adding or removing groups of values from a list rule
+   */
+  private createRuleToggles<T>(
+    label: string,
+    options: ChoiceOption<T[]>[],
+    read: (rules: DanmakuFilterRules) => T[],
+    write: (value: T[]) => void
+  ): HTMLElement {
+    const group = document.createElement('div');
+    group.style.cssText = 'display: flex; flex: 1; gap: 4px; flex-wrap: wrap;';
+
+    let current: T[] = [];
+    const isBlocked = (option: ChoiceOption<T[]>) =>
+      option.value.every(value => current.includes(value));
+
+    const buttons = options.map(option => {
+      const button = this.createSegment(option.label, () => {
+        write(
+          isBlocked(option)
+            ? current.filter(value => !option.value.includes(value))
+            : [...new Set([...current, ...option.value])]
+        );
+      });
+      group.append(button);
+      return button;
+    });
+
+    this.ruleSyncers.push(rules => {
+      current = read(rules);
+      options.forEach((option, index) => {
+        buttons[index]!.style.background = isBlocked(option)
+          ? '#00a1d6'
+          : 'rgba(255, 255, 255, 0.08)';
+      });
+    });
+
+    return this.createRow(label, group);
+  }
+
+  /**
+   * Labelled row wrapping a control
+   */
+  private createRow(label: string, control: HTMLElement, value?: HTMLElement): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = 'display: flex; align-items: center; gap: 8px;';
+
+    const name = document.createElement('span');
+    name.textContent = label;
+    name.style.cssText = 'flex: 0 0 56px;';
+
+    row.append(name, control);
+    if (value) {
+      row.append(value);
+    }
+    return row;
+  }
+
+  /**
+   * Slider bound to a numeric setting
+   */
+  private createRange(
+    label: string,
+    { min, max, step, format }: RangeOptions,
+    read: (settings: DanmakuSettings) => number,
+    write: (value: number) => void
+  ): HTMLElement {
+    const input = document.createElement('input');
+    input.type = 'range';
+    input.min = `${min}`;
+    input.max = `${max}`;
+    input.step = `${step}`;
+    input.style.cssText = 'flex: 1; min-width: 0;';
+
+    const value = document.createElement('span');
+    value.style.cssText = 'flex: 0 0 40px; text-align: right;';
+
+    input.addEventListener('input', () => {
+      value.textContent = format(Number(input.value));
+    });
+    input.addEventListener('change', () => write(Number(input.value)));
+
+    this.syncers.push(settings => {
+      const current = Math.round(read(settings));
+      input.value = `${current}`;
+      value.textContent = format(current);
+    });
+
+    return this.createRow(label, input, value);
+  }
+
+  /**
+   * Segmented buttons bound to a setting with a fixed set of values
+   */
+  private createChoice<T>(
+    label: string,
+    options: ChoiceOption<T>[],
+    read: (settings: DanmakuSettings) => T,
+    write: (value: T) => void
+  ): HTMLElement {
+    const group = document.createElement('div');
+    group.style.cssText = 'display: flex; flex: 1; gap: 4px; flex-wrap: wrap;';
+
+    const buttons = options.map(option => {
+      const button = this.createSegment(option.label, () => write(option.value));
+      group.append(button);
+      return button;
+    });
+
+    this.syncers.push(settings => {
+      const current = read(settings);
+      options.forEach((option, index) => {
+        buttons[index]!.style.background =
+          option.value === current ? '#00a1d6' : 'rgba(255, 255, 255, 0.08)';
+      });
+    });
+
+    return this.createRow(label, group);
+  }
+
+  /**
+   * Row of one-shot action buttons
+   */
+  private createActions<T>(
+    label: string,
+    options: ChoiceOption<T>[],
+    onClick: (value: T) => void
+  ): HTMLElement {
+    const group = document.createElement('div');
+    group.style.cssText = 'display: flex; flex: 1; gap: 4px; flex-wrap: wrap;';
+
+    for (const option of options) {
+      const button = this.createSegment(option.label, () => onClick(option.value));
+      button.style.background = 'rgba(255, 255, 255, 0.08)';
+      group.append(button);
+    }
+
+    return this.createRow(label, group);
+  }
+
+  /**
+   * Button of a segmented control
+   */
+  private createSegment(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.cssText = `
+      flex: 1;
+      padding: 3px 0;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 4px;
+      color: inherit;
+      font-size: inherit;
+      cursor: pointer;
+    `;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+}
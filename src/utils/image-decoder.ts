@@ -0,0 +1,852 @@
+import { inflateSync } from 'zlib';
+
+/**
+ * 8-bit grayscale image
+ * Only luminance is kept, which is all perceptual hashing needs.
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  /** Row-major luminance (0-255), `width * height` bytes */
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Decode a PNG or JPEG image to grayscale
+ * Covers every PNG color type, interlaced or not, and 8-bit baseline or
+ * progressive JPEG. Transparent pixels are composited onto white.
+ * @throws Error for other formats or malformed data
+ */
+export function decodeImage(bytes: Uint8Array): GrayImage {
+  if (PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)) {
+    return decodePng(bytes);
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return decodeJpeg(bytes);
+  }
+  throw new Error('Unsupported image format');
+}
+
+/**
+ * ITU-R BT.601 luma, as used by JPEG's YCbCr
+ */
+function luma(red: number, green: number, blue: number): number {
+  return 0.299 * red + 0.587 * green + 0.114 * blue;
+}
+
+/**
+ * Starting column/row and step of each Adam7 interlace pass
+ */
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+] as const;
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+/**
+ * Reverse the per-row filters of one (sub)image in place
+ * @returns Offset just past the image
+ */
+function unfilter(
+  data: Uint8Array,
+  offset: number,
+  rowBytes: number,
+  height: number,
+  pixelBytes: number
+): number {
+  for (let y = 0; y < height; y++) {
+    const filter = data[offset]!;
+    const row = offset + 1;
+    const previous = row - rowBytes - 1;
+    if (row + rowBytes > data.length) throw new Error('Truncated PNG image data');
+
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= pixelBytes ? data[row + x - pixelBytes]! : 0;
+      const up = y > 0 ? data[previous + x]! : 0;
+      const upLeft = y > 0 && x >= pixelBytes ? data[previous + x - pixelBytes]! : 0;
+
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          data[row + x] = data[row + x]! + left;
+          break;
+        case 2:
+          data[row + x] = data[row + x]! + up;
+          break;
+        case 3:
+          data[row + x] = data[row + x]! + ((left + up) >> 1);
+          break;
+        case 4:
+          data[row + x] = data[row + x]! + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+    }
+    offset = row + rowBytes;
+  }
+  return offset;
+}
+
+function decodePng(bytes: Uint8Array): GrayImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const idat: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (chunk.length !== length) throw new Error(`Truncated PNG chunk ${type}`);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = view.getUint32(chunk.byteOffset - bytes.byteOffset);
+      height = view.getUint32(chunk.byteOffset - bytes.byteOffset + 4);
+      bitDepth = chunk[8]!;
+      colorType = chunk[9]!;
+      interlaced = chunk[12] === 1;
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (width === 0 || height === 0 || channels === undefined) {
+    throw new Error('Invalid PNG header');
+  }
+  if (colorType === 3 && !palette) throw new Error('PNG palette missing');
+
+  const compressed = new Uint8Array(idat.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  for (const part of idat) {
+    compressed.set(part, position);
+    position += part.length;
+  }
+  const raw = new Uint8Array(inflateSync(compressed));
+
+  const bitsPerPixel = channels * bitDepth;
+  const pixelBytes = Math.max(bitsPerPixel >> 3, 1);
+  const maxSample = (1 << bitDepth) - 1;
+  const output = new Uint8Array(width * height);
+
+  // Sample `index` of a row as stored, e.g. 0-65535 at 16 bits
+  const rawSample = (row: number, index: number): number => {
+    if (bitDepth === 8) return raw[row + index]!;
+    if (bitDepth === 16) return (raw[row + index * 2]! << 8) | raw[row + index * 2 + 1]!;
+    const bit = index * bitDepth;
+    return (raw[row + (bit >> 3)]! >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // Sample scaled to 0-255
+  const sample = (row: number, index: number): number =>
+    bitDepth === 8 ? raw[row + index]! : Math.round((rawSample(row, index) * 255) / maxSample);
+  // Whether the pixel's samples equal the single transparent color from tRNS
+  const isTransparentColor = (row: number, first: number, count: number): boolean => {
+    if (!transparency || transparency.length < count * 2) return false;
+    for (let channel = 0; channel < count; channel++) {
+      const key = (transparency[channel * 2]! << 8) | transparency[channel * 2 + 1]!;
+      if (rawSample(row, first + channel) !== key) return false;
+    }
+    return true;
+  };
+
+  const pixel = (row: number, x: number): number => {
+    let gray: number;
+    let alpha = 255;
+
+    switch (colorType) {
+      case 0:
+        gray = sample(row, x);
+        if (isTransparentColor(row, x, 1)) alpha = 0;
+        break;
+      case 2:
+        gray = luma(sample(row, x * 3), sample(row, x * 3 + 1), sample(row, x * 3 + 2));
+        if (isTransparentColor(row, x * 3, 3)) alpha = 0;
+        break;
+      case 3: {
+        const index = rawSample(row, x);
+        gray = luma(
+          palette![index * 3] ?? 0,
+          palette![index * 3 + 1] ?? 0,
+          palette![index * 3 + 2] ?? 0
+        );
+        alpha = transparency?.[index] ?? 255;
+        break;
+      }
+      case 4:
+        gray = sample(row, x * 2);
+        alpha = sample(row, x * 2 + 1);
+        break;
+      default:
+        gray = luma(sample(row, x * 4), sample(row, x * 4 + 1), sample(row, x * 4 + 2));
+        alpha = sample(row, x * 4 + 3);
+    }
+
+    // Composite onto white
+    return Math.round((gray * alpha + 255 * (255 - alpha)) / 255);
+  };
+
+  const passes = interlaced ? ADAM7 : ([[0, 0, 1, 1]] as const);
+  offset = 0;
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const passWidth = Math.ceil((width - startX) / stepX);
+    const passHeight = Math.ceil((height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const start = offset;
+    offset = unfilter(raw, offset, rowBytes, passHeight, pixelBytes);
+
+    for (let y = 0; y < passHeight; y++) {
+      const row = start + y * (rowBytes + 1) + 1;
+      for (let x = 0; x < passWidth; x++) {
+        output[(startY + y * stepY) * width + startX + x * stepX] = pixel(row, x);
+      }
+    }
+  }
+
+  return { width, height, data: output };
+}
+
+/**
+ * Zigzag scan position → natural (row-major) position in an 8x8 block
+ */
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20,
+  13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52,
+  45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+/**
+ * Canonical Huffman table in the form of JPEG spec section F.2.2.3
+ */
+interface HuffmanTable {
+  minCode: Int32Array;
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Blocks per line and column including MCU padding */
+  paddedBlocksPerLine: number;
+  paddedBlocksPerColumn: number;
+  coefficients: Int16Array;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  pred: number;
+}
+
+interface JpegFrame {
+  width: number;
+  height: number;
+  progressive: boolean;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: JpegComponent[];
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const minCode = new Int32Array(17);
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(17);
+
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1]!;
+    valueOffset[length] = index;
+    minCode[length] = code;
+    code += count;
+    index += count;
+    maxCode[length] = count > 0 ? code - 1 : -1;
+    code <<= 1;
+  }
+  // Sentinel so decoding always terminates
+  maxCode[17] = 0x7fffffff;
+
+  return { minCode, maxCode, valueOffset, values };
+}
+
+/**
+ * Entropy-coded segment reader for one scan
+ */
+class ScanReader {
+  private data: Uint8Array;
+  pos: number;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(data: Uint8Array, pos: number) {
+    this.data = data;
+    this.pos = pos;
+  }
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      const byte = this.data[this.pos];
+      if (byte === undefined) return 0;
+
+      if (byte === 0xff) {
+        const next = this.data[this.pos + 1];
+        // A marker ends the segment; pad with zeros until the caller notices
+        if (next !== 0x00) return 0;
+        this.pos += 2;
+      } else {
+        this.pos++;
+      }
+      this.bitBuffer = byte;
+      this.bitCount = 8;
+    }
+
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let index = 0; index < length; index++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  receiveExtend(length: number): number {
+    if (length === 0) return 0;
+    if (length === 1) return this.readBit() ? 1 : -1;
+    const value = this.receive(length);
+    return value >= 1 << (length - 1) ? value : value - (1 << length) + 1;
+  }
+
+  decodeHuffman(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (code > table.maxCode[length]!) {
+      code = (code << 1) | this.readBit();
+      length++;
+      if (length > 16) throw new Error('Invalid JPEG Huffman code');
+    }
+    const value = table.values[table.valueOffset[length]! + code - table.minCode[length]!];
+    if (value === undefined) throw new Error('Invalid JPEG Huffman code');
+    return value;
+  }
+
+  /**
+   * Drop leftover bits and move to the next marker
+   * @returns The marker, or -1 at the end of the data
+   */
+  nextMarker(): number {
+    this.bitCount = 0;
+    while (this.pos + 1 < this.data.length) {
+      const next = this.data[this.pos + 1]!;
+      if (this.data[this.pos] === 0xff && next !== 0x00 && next !== 0xff) {
+        return 0xff00 | next;
+      }
+      this.pos++;
+    }
+    return -1;
+  }
+}
+
+/**
+ * Decode one scan into the components' coefficients
+ * @returns Offset of the marker that ends the scan
+ */
+function decodeScan(
+  data: Uint8Array,
+  offset: number,
+  frame: JpegFrame,
+  components: JpegComponent[],
+  resetInterval: number,
+  spectralStart: number,
+  spectralEnd: number,
+  approximationHigh: number,
+  approximationLow: number
+): number {
+  const reader = new ScanReader(data, offset);
+  let eobrun = 0;
+  let refineState = 0;
+  let refineValue = 0;
+
+  const decodeBaseline = (component: JpegComponent, block: number) => {
+    const coefficients = component.coefficients;
+    const t = reader.decodeHuffman(component.dcTable!);
+    component.pred += reader.receiveExtend(t);
+    coefficients[block] = component.pred;
+
+    let k = 1;
+    while (k < 64) {
+      const rs = reader.decodeHuffman(component.acTable!);
+      const size = rs & 15;
+      const run = rs >> 4;
+      if (size === 0) {
+        if (run < 15) break;
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      coefficients[block + ZIGZAG[k]!] = reader.receiveExtend(size);
+      k++;
+    }
+  };
+
+  const decodeDcFirst = (component: JpegComponent, block: number) => {
+    const t = reader.decodeHuffman(component.dcTable!);
+    component.pred += reader.receiveExtend(t) * (1 << approximationLow);
+    component.coefficients[block] = component.pred;
+  };
+
+  const decodeDcRefine = (component: JpegComponent, block: number) => {
+    if (reader.readBit()) component.coefficients[block]! |= 1 << approximationLow;
+  };
+
+  const decodeAcFirst = (component: JpegComponent, block: number) => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+
+    let k = spectralStart;
+    while (k <= spectralEnd) {
+      const rs = reader.decodeHuffman(component.acTable!);
+      const size = rs & 15;
+      const run = rs >> 4;
+      if (size === 0) {
+        if (run < 15) {
+          eobrun = reader.receive(run) + (1 << run) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      component.coefficients[block + ZIGZAG[k]!] =
+        reader.receiveExtend(size) * (1 << approximationLow);
+      k++;
+    }
+  };
+
+  // Successive approximation of AC coefficients (JPEG spec G.1.2.3)
+  const decodeAcRefine = (component: JpegComponent, block: number) => {
+    const coefficients = component.coefficients;
+    const bit = 1 << approximationLow;
+    let run = 0;
+
+    for (let k = spectralStart; k <= spectralEnd; ) {
+      const position = block + ZIGZAG[k]!;
+      const coefficient = coefficients[position]!;
+      const sign = coefficient < 0 ? -1 : 1;
+
+      switch (refineState) {
+        case 0: {
+          const rs = reader.decodeHuffman(component.acTable!);
+          const size = rs & 15;
+          run = rs >> 4;
+          if (size === 0) {
+            if (run < 15) {
+              eobrun = reader.receive(run) + (1 << run);
+              refineState = 4;
+            } else {
+              run = 16;
+              refineState = 1;
+            }
+          } else {
+            if (size !== 1) throw new Error('Invalid JPEG refinement coefficient');
+            refineValue = reader.receiveExtend(1);
+            refineState = run ? 2 : 3;
+          }
+          continue;
+        }
+        case 1:
+        case 2:
+          if (coefficient) {
+            coefficients[position] = coefficient + sign * reader.readBit() * bit;
+          } else if (--run === 0) {
+            refineState = refineState === 2 ? 3 : 0;
+          }
+          break;
+        case 3:
+          if (coefficient) {
+            coefficients[position] = coefficient + sign * reader.readBit() * bit;
+          } else {
+            coefficients[position] = refineValue * bit;
+            refineState = 0;
+          }
+          break;
+        case 4:
+          if (coefficient) {
+            coefficients[position] = coefficient + sign * reader.readBit() * bit;
+          }
+          break;
+      }
+      k++;
+    }
+
+    if (refineState === 4 && --eobrun === 0) {
+      refineState = 0;
+    }
+  };
+
+  let decodeBlock: (component: JpegComponent, block: number) => void;
+  if (!frame.progressive) {
+    decodeBlock = decodeBaseline;
+  } else if (spectralStart === 0) {
+    decodeBlock = approximationHigh === 0 ? decodeDcFirst : decodeDcRefine;
+  } else {
+    decodeBlock = approximationHigh === 0 ? decodeAcFirst : decodeAcRefine;
+  }
+
+  const blockOffset = (component: JpegComponent, row: number, column: number) =>
+    (row * component.paddedBlocksPerLine + column) * 64;
+
+  const single = components.length === 1 ? components[0]! : null;
+  const total = single
+    ? single.blocksPerLine * single.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+
+  let mcu = 0;
+  while (mcu < total) {
+    for (const component of components) component.pred = 0;
+    eobrun = 0;
+    refineState = 0;
+
+    const end = resetInterval > 0 ? Math.min(mcu + resetInterval, total) : total;
+    for (; mcu < end; mcu++) {
+      if (single) {
+        const row = Math.floor(mcu / single.blocksPerLine);
+        decodeBlock(single, blockOffset(single, row, mcu % single.blocksPerLine));
+        continue;
+      }
+
+      const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+      const mcuColumn = mcu % frame.mcusPerLine;
+      for (const component of components) {
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            decodeBlock(
+              component,
+              blockOffset(component, mcuRow * component.v + v, mcuColumn * component.h + h)
+            );
+          }
+        }
+      }
+    }
+
+    const marker = reader.nextMarker();
+    if (marker >= 0xffd0 && marker <= 0xffd7) {
+      reader.pos += 2;
+    } else {
+      break;
+    }
+  }
+
+  reader.nextMarker();
+  return reader.pos;
+}
+
+/**
+ * Dequantize and inverse-DCT one component into 8-bit samples
+ * Uses the separable floating-point IDCT; plenty fast for avatar-sized images.
+ */
+function componentSamples(component: JpegComponent, quantTable: Uint16Array): Uint8Array {
+  const lineWidth = component.paddedBlocksPerLine * 8;
+  const samples = new Uint8Array(lineWidth * component.paddedBlocksPerColumn * 8);
+  const block = new Float64Array(64);
+  const temp = new Float64Array(64);
+
+  for (let row = 0; row < component.paddedBlocksPerColumn; row++) {
+    for (let column = 0; column < component.paddedBlocksPerLine; column++) {
+      const offset = (row * component.paddedBlocksPerLine + column) * 64;
+      for (let index = 0; index < 64; index++) {
+        block[index] = component.coefficients[offset + index]! * quantTable[index]!;
+      }
+
+      // Rows, then columns
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let u = 0; u < 8; u++) sum += IDCT_BASIS[x * 8 + u]! * block[y * 8 + u]!;
+          temp[y * 8 + x] = sum;
+        }
+      }
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          let sum = 0;
+          for (let v = 0; v < 8; v++) sum += IDCT_BASIS[y * 8 + v]! * temp[v * 8 + x]!;
+          const value = Math.round(sum / 4 + 128);
+          samples[(row * 8 + y) * lineWidth + column * 8 + x] =
+            value < 0 ? 0 : value > 255 ? 255 : value;
+        }
+      }
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * C(u) cos((2x + 1)uπ / 16) for every sample position x and frequency u
+ */
+const IDCT_BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      basis[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return basis;
+})();
+
+function decodeJpeg(data: Uint8Array): GrayImage {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: JpegFrame | null = null;
+  let resetInterval = 0;
+  let adobeTransform: number | null = null;
+
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = 0xff00 | data[offset + 1]!;
+    if (marker === 0xffd9) break;
+    if (marker === 0xffff || (marker >= 0xffd0 && marker <= 0xffd7) || marker === 0xff01) {
+      offset += 2;
+      continue;
+    }
+
+    const length = view.getUint16(offset + 2);
+    const segment = offset + 4;
+    const segmentEnd = offset + 2 + length;
+    if (segmentEnd > data.length) throw new Error('Truncated JPEG segment');
+
+    switch (marker) {
+      case 0xffdb: {
+        // DQT
+        let position = segment;
+        while (position < segmentEnd) {
+          const precision = data[position]! >> 4;
+          const id = data[position]! & 15;
+          position++;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]!] = precision ? view.getUint16(position + k * 2) : data[position + k]!;
+          }
+          quantTables[id] = table;
+          position += precision ? 128 : 64;
+        }
+        break;
+      }
+      case 0xffc4: {
+        // DHT
+        let position = segment;
+        while (position < segmentEnd) {
+          const tableClass = data[position]! >> 4;
+          const id = data[position]! & 15;
+          const counts = data.subarray(position + 1, position + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const values = data.slice(position + 17, position + 17 + total);
+          (tableClass === 0 ? dcTables : acTables)[id] = buildHuffmanTable(counts, values);
+          position += 17 + total;
+        }
+        break;
+      }
+      case 0xffdd:
+        // DRI
+        resetInterval = view.getUint16(segment);
+        break;
+      case 0xffee:
+        // Adobe APP14 records whether three components are RGB or YCbCr
+        if (String.fromCharCode(...data.subarray(segment, segment + 5)) === 'Adobe') {
+          adobeTransform = data[segment + 11] ?? null;
+        }
+        break;
+      case 0xffc0:
+      case 0xffc1:
+      case 0xffc2: {
+        // SOF0 (baseline), SOF1 (extended sequential), SOF2 (progressive)
+        if (data[segment] !== 8) throw new Error('Only 8-bit JPEG images are supported');
+        const height = view.getUint16(segment + 1);
+        const width = view.getUint16(segment + 3);
+        const count = data[segment + 5]!;
+        if (width === 0 || height === 0) throw new Error('Invalid JPEG dimensions');
+
+        const components: JpegComponent[] = [];
+        for (let index = 0; index < count; index++) {
+          const position = segment + 6 + index * 3;
+          components.push({
+            id: data[position]!,
+            h: data[position + 1]! >> 4 || 1,
+            v: data[position + 1]! & 15 || 1,
+            quantTable: data[position + 2]!,
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            paddedBlocksPerLine: 0,
+            paddedBlocksPerColumn: 0,
+            coefficients: new Int16Array(0),
+            pred: 0,
+          });
+        }
+
+        const maxH = Math.max(...components.map(component => component.h));
+        const maxV = Math.max(...components.map(component => component.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const component of components) {
+          component.blocksPerLine = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+          component.blocksPerColumn = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+          component.paddedBlocksPerLine = mcusPerLine * component.h;
+          component.paddedBlocksPerColumn = mcusPerColumn * component.v;
+          component.coefficients = new Int16Array(
+            component.paddedBlocksPerLine * component.paddedBlocksPerColumn * 64
+          );
+        }
+
+        frame = {
+          width,
+          height,
+          progressive: marker === 0xffc2,
+          maxH,
+          maxV,
+          mcusPerLine,
+          mcusPerColumn,
+          components,
+        };
+        break;
+      }
+      case 0xffda: {
+        // SOS
+        if (!frame) throw new Error('JPEG scan before frame header');
+        const count = data[segment]!;
+        const scanComponents: JpegComponent[] = [];
+        for (let index = 0; index < count; index++) {
+          const id = data[segment + 1 + index * 2]!;
+          const tables = data[segment + 2 + index * 2]!;
+          const component = frame.components.find(candidate => candidate.id === id);
+          if (!component) throw new Error(`Unknown JPEG component ${id}`);
+          const dcTable = dcTables[tables >> 4];
+          const acTable = acTables[tables & 15];
+          if (dcTable) component.dcTable = dcTable;
+          if (acTable) component.acTable = acTable;
+          scanComponents.push(component);
+        }
+
+        const parameters = segment + 1 + count * 2;
+        offset = decodeScan(
+          data,
+          segmentEnd,
+          frame,
+          scanComponents,
+          resetInterval,
+          data[parameters]!,
+          data[parameters + 1]!,
+          data[parameters + 2]! >> 4,
+          data[parameters + 2]! & 15
+        );
+        continue;
+      }
+      default:
+        if (marker >= 0xffc3 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8) {
+          throw new Error('Unsupported JPEG coding (lossless or arithmetic)');
+        }
+    }
+
+    offset = segmentEnd;
+  }
+
+  if (!frame) throw new Error('JPEG frame header missing');
+  return jpegToGray(frame, quantTables, adobeTransform);
+}
+
+function jpegToGray(
+  frame: JpegFrame,
+  quantTables: Uint16Array[],
+  adobeTransform: number | null
+): GrayImage {
+  const { width, height, components, maxH, maxV } = frame;
+  const planeFor = (component: JpegComponent) => {
+    const table = quantTables[component.quantTable];
+    if (!table) throw new Error('JPEG quantization table missing');
+    return {
+      samples: componentSamples(component, table),
+      lineWidth: component.paddedBlocksPerLine * 8,
+      scaleX: component.h / maxH,
+      scaleY: component.v / maxV,
+    };
+  };
+  const sampleAt = (plane: ReturnType<typeof planeFor>, x: number, y: number) =>
+    plane.samples[Math.floor(y * plane.scaleY) * plane.lineWidth + Math.floor(x * plane.scaleX)]!;
+
+  const output = new Uint8Array(width * height);
+  const isRgb = components.length === 3 && adobeTransform === 0;
+
+  if (components.length === 1 || (components.length === 3 && !isRgb)) {
+    // Grayscale, or YCbCr whose Y already is the luma
+    const plane = planeFor(components[0]!);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) output[y * width + x] = sampleAt(plane, x, y);
+    }
+  } else if (isRgb) {
+    const [red, green, blue] = components.map(planeFor) as [
+      ReturnType<typeof planeFor>,
+      ReturnType<typeof planeFor>,
+      ReturnType<typeof planeFor>,
+    ];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        output[y * width + x] = Math.round(
+          luma(sampleAt(red, x, y), sampleAt(green, x, y), sampleAt(blue, x, y))
+        );
+      }
+    }
+  } else {
+    throw new Error(`Unsupported JPEG with ${components.length} components`);
+  }
+
+  return { width, height, data: output };
+}
@@ -0,0 +1,111 @@
+/**
+ * Cross-platform references found in a piece of text
+ */
+export interface ExtractedLinks {
+  /** UC… channel IDs */
+  youtubeChannelIds: string[];
+  /** Channel handles and legacy custom names, lowercase without "@" */
+  youtubeHandles: string[];
+  youtubeVideoIds: string[];
+  bilibiliUids: string[];
+  bilibiliVideoIds: string[];
+  /** b23.tv links still to be expanded, as https URLs */
+  shortLinks: string[];
+}
+
+/**
+ * Expand a short link to the URL it redirects to, or null if it cannot be resolved
+ */
+export type ShortLinkResolver = (url: string) => Promise<string | null>;
+
+const PATTERNS: Record<keyof Omit<ExtractedLinks, 'shortLinks'>, RegExp[]> = {
+  youtubeChannelIds: [/(?<![\w-])(UC[\w-]{22})(?![\w-])/g],
+  youtubeHandles: [
+    /youtube\.com\/(?:@|c\/|user\/)([\w.-]{3,30})/gi,
+    // "YouTube: @handle" without a URL; a bare @ is a Bilibili mention
+    /(?:youtube|油管|yt)\s*[:：]?\s*@([\w.-]{3,30})/gi,
+  ],
+  youtubeVideoIds: [
+    /(?:youtu\.be\/|youtube\.com\/(?:watch\?v=|shorts\/|live\/))([\w-]{11})(?![\w-])/gi,
+  ],
+  bilibiliUids: [
+    /(?:space\.bilibili\.com\/|m\.bilibili\.com\/space\/)(\d+)/gi,
+    /(?:bilibili|哔哩哔哩|b站)\s*(?:uid)?\s*[:：]?\s*(\d{3,16})(?!\d)/gi,
+    /\buid\s*[:：]\s*(\d{3,16})(?!\d)/gi,
+  ],
+  bilibiliVideoIds: [/(?<![\w])(BV[0-9A-Za-z]{10})(?![0-9A-Za-z])/g],
+};
+
+const SHORT_LINK = /b23\.tv\/([0-9A-Za-z]{4,12})(?![0-9A-Za-z])/gi;
+
+function matchAll(text: string, patterns: RegExp[]): string[] {
+  return patterns.flatMap(pattern => [...text.matchAll(pattern)].map(match => match[1]!));
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+export function emptyLinks(): ExtractedLinks {
+  return {
+    youtubeChannelIds: [],
+    youtubeHandles: [],
+    youtubeVideoIds: [],
+    bilibiliUids: [],
+    bilibiliVideoIds: [],
+    shortLinks: [],
+  };
+}
+
+/**
+ * Merge extraction results, dropping duplicates
+ */
+export function mergeLinks(...links: ExtractedLinks[]): ExtractedLinks {
+  const merged = emptyLinks();
+  for (const key of Object.keys(merged) as (keyof ExtractedLinks)[]) {
+    merged[key] = unique(links.flatMap(entry => entry[key]));
+  }
+  return merged;
+}
+
+/**
+ * Find channel, user and video references to either platform in free text
+ */
+export function extractLinks(text: string): ExtractedLinks {
+  const links = emptyLinks();
+  for (const [key, patterns] of Object.entries(PATTERNS) as [keyof typeof PATTERNS, RegExp[]][]) {
+    links[key] = unique(matchAll(text, patterns));
+  }
+  links.youtubeHandles = unique(links.youtubeHandles.map(handle => handle.toLowerCase()));
+  links.shortLinks = unique(
+    [...text.matchAll(SHORT_LINK)].map(match => `https://b23.tv/${match[1]}`)
+  );
+  return links;
+}
+
+/**
+ * Expand the short links and add whatever their targets point at
+ */
+export async function resolveShortLinks(
+  links: ExtractedLinks,
+  resolve: ShortLinkResolver
+): Promise<ExtractedLinks> {
+  const targets: ExtractedLinks[] = [];
+  for (const shortLink of links.shortLinks) {
+    try {
+      const target = await resolve(shortLink);
+      if (target) targets.push(extractLinks(target));
+    } catch (error) {
+      console.warn(`Failed to resolve ${shortLink}:`, error);
+    }
+  }
+  return mergeLinks(links, ...targets);
+}
+
+/**
+ * Resolve a short link by reading its redirect without following it
+ */
+export const fetchShortLink: ShortLinkResolver = async url => {
+  const response = await fetch(url, { redirect: 'manual' });
+  return response.headers.get('location');
+};
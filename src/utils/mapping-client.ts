@@ -1,4 +1,5 @@
-import type { MappingIndex, UserMapping } from '../../types';
+import type { MappingIndex, UserMapping, VideoMapping } from '../../types';
+import { isChannelId, normalizeHandle } from './youtube-channel';
 
 /**
  * CDN base URL (jsDelivr)
@@ -29,7 +30,9 @@ interface CachedData<T> {
 export class MappingClient {
   private b2yIndex: CachedData<MappingIndex> | null = null;
   private y2bIndex: CachedData<MappingIndex> | null = null;
+  private videosIndex: CachedData<MappingIndex> | null = null;
   private mappingCache: Map<string, CachedData<UserMapping>> = new Map();
+  private videoMappingCache: Map<string, CachedData<VideoMapping>> = new Map();
 
   /**
    * Fetch with fallback
@@ -88,6 +91,19 @@ export class MappingClient {
     return index;
   }
 
+  /**
+   * Get video pair index
+   */
+  private async getVideosIndex(): Promise<MappingIndex> {
+    if (this.isCacheValid(this.videosIndex)) {
+      return this.videosIndex!.data;
+    }
+
+    const index = await this.fetchWithFallback('videos/index.json');
+    this.videosIndex = { data: index, timestamp: Date.now() };
+    return index;
+  }
+
   /**
    * Get mapping by Bilibili UID
    */
@@ -116,9 +132,14 @@ export class MappingClient {
   }
 
   /**
-   * Get mapping by YouTube channel ID
+   * Get mapping by YouTube channel ID or handle
    */
-  async getMappingByYouTubeId(channelId: string): Promise<UserMapping | null> {
+  async getMappingByYouTubeId(channelIdOrHandle: string): Promise<UserMapping | null> {
+    // Handles are indexed in their normalized form
+    const channelId = isChannelId(channelIdOrHandle)
+      ? channelIdOrHandle
+      : normalizeHandle(channelIdOrHandle);
+
     // Check cache
     const cacheKey = `y2b:${channelId}`;
     const cached = this.mappingCache.get(cacheKey) || null;
@@ -142,13 +163,55 @@ export class MappingClient {
     }
   }
 
+  /**
+   * Get video pair by YouTube video ID
+   */
+  async getVideoMappingByYouTubeId(videoId: string): Promise<VideoMapping | null> {
+    return this.getVideoMapping(videoId);
+  }
+
+  /**
+   * Get video pair by Bilibili BV ID
+   */
+  async getVideoMappingByBvid(bvid: string): Promise<VideoMapping | null> {
+    return this.getVideoMapping(bvid);
+  }
+
+  /**
+   * Look up a video pair by either of its video IDs
+   */
+  private async getVideoMapping(id: string): Promise<VideoMapping | null> {
+    // Check cache
+    const cached = this.videoMappingCache.get(id) || null;
+    if (this.isCacheValid(cached)) {
+      return cached!.data;
+    }
+
+    try {
+      const index = await this.getVideosIndex();
+      const shardPath = index[id];
+      if (!shardPath) {
+        return null;
+      }
+
+      const mapping = await this.fetchWithFallback(`videos/${shardPath}`);
+      this.videoMappingCache.set(id, { data: mapping, timestamp: Date.now() });
+      return mapping;
+    } catch (error) {
+      console.error(`Failed to get video mapping for ${id}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Clear cache
    */
   clearCache(): void {
     this.b2yIndex = null;
     this.y2bIndex = null;
+    this.videosIndex = null;
     this.mappingCache.clear();
+    this.videoMappingCache.clear();
   }
 }
 
@@ -0,0 +1,133 @@
+import { PINYIN, SIMPLIFIED, TRADITIONAL } from './cjk-data';
+import { stringSimilarity } from './similarity';
+import defaultAliases from '../../config/name-aliases.json';
+
+/**
+ * Groups of names known to belong to the same creator, e.g. a Chinese name and its English brand
+ */
+export type NameAliases = string[][];
+
+export const DEFAULT_NAME_ALIASES: NameAliases = defaultAliases;
+
+/** Words creators add to one platform's name but not the other */
+const NOISE_WORDS = /official|channel|频道|官方/g;
+
+/**
+ * Readings of common name characters beyond the one in PINYIN, preferred reading first
+ */
+const POLYPHONES: Record<string, string[]> = {
+  长: ['chang', 'zhang'],
+  乐: ['le', 'yue'],
+  行: ['xing', 'hang'],
+  重: ['zhong', 'chong'],
+  茄: ['qie', 'jia'],
+  单: ['dan', 'shan'],
+  曾: ['zeng', 'ceng'],
+  朝: ['chao', 'zhao'],
+  藏: ['cang', 'zang'],
+  觉: ['jue', 'jiao'],
+  解: ['jie', 'xie'],
+  查: ['cha', 'zha'],
+  传: ['chuan', 'zhuan'],
+  调: ['tiao', 'diao'],
+  还: ['hai', 'huan'],
+  会: ['hui', 'kuai'],
+  都: ['du', 'dou'],
+  大: ['da', 'dai'],
+};
+
+/** Cap on pinyin spellings tried per name */
+const MAX_PINYIN_VARIANTS = 8;
+
+const READINGS = new Map<string, string[]>();
+for (const [syllable, characters] of Object.entries(PINYIN)) {
+  for (const character of characters) {
+    READINGS.set(character, [syllable]);
+  }
+}
+for (const [character, readings] of Object.entries(POLYPHONES)) {
+  READINGS.set(character, readings);
+}
+
+const TO_SIMPLIFIED = new Map<string, string>();
+{
+  const simplified = [...SIMPLIFIED];
+  [...TRADITIONAL].forEach((character, index) => {
+    TO_SIMPLIFIED.set(character, simplified[index]!);
+  });
+}
+
+/**
+ * Convert traditional Chinese characters to simplified ones
+ */
+export function toSimplified(text: string): string {
+  return [...text].map(character => TO_SIMPLIFIED.get(character) ?? character).join('');
+}
+
+/**
+ * Canonical form of a name for comparison
+ * Folds full-width characters and case, converts to simplified Chinese, and drops
+ * whitespace, punctuation, emoji and words like "official".
+ */
+export function normalizeName(name: string): string {
+  return toSimplified(name.normalize('NFKC').toLowerCase())
+    .replace(/[^\p{L}\p{N}]/gu, '')
+    .replace(NOISE_WORDS, '');
+}
+
+/**
+ * Toneless pinyin spellings of a normalized name, one per combination of polyphone readings
+ * Characters without a known reading are kept as they are.
+ */
+export function toPinyin(name: string): string[] {
+  let variants = [''];
+  for (const character of name) {
+    const readings = READINGS.get(character) ?? [character];
+    variants = variants
+      .flatMap(variant => readings.map(reading => variant + reading))
+      .slice(0, MAX_PINYIN_VARIANTS);
+  }
+  return variants;
+}
+
+function hasHan(text: string): boolean {
+  return /\p{Script=Han}/u.test(text);
+}
+
+/**
+ * Every spelling a name may be compared in: normalized, pinyin, and those of its aliases
+ */
+export function nameVariants(name: string, aliases: NameAliases = DEFAULT_NAME_ALIASES): string[] {
+  const normalized = normalizeName(name);
+  const group = aliases.find(names => names.some(alias => normalizeName(alias) === normalized));
+  const names = group ? group.map(normalizeName) : [normalized];
+
+  const variants = new Set<string>();
+  for (const variant of names) {
+    if (!variant) continue;
+    variants.add(variant);
+    if (hasHan(variant)) {
+      for (const pinyin of toPinyin(variant)) variants.add(pinyin);
+    }
+  }
+  return [...variants];
+}
+
+/**
+ * Similarity (0-1) of two names across scripts, the best over all their variants
+ * "老番茄" matches "Lao Fan Qie", "夜貓電台" matches "夜猫电台", and aliases match each other.
+ */
+export function nameSimilarity(
+  name1: string,
+  name2: string,
+  aliases: NameAliases = DEFAULT_NAME_ALIASES
+): number {
+  const variants2 = nameVariants(name2, aliases);
+  let best = 0;
+  for (const variant1 of nameVariants(name1, aliases)) {
+    for (const variant2 of variants2) {
+      best = Math.max(best, stringSimilarity(variant1, variant2));
+    }
+  }
+  return best;
+}
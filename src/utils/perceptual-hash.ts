@@ -0,0 +1,177 @@
+import { decodeImage } from './image-decoder';
+import type { GrayImage } from './image-decoder';
+
+/**
+ * 64-bit perceptual hashes of one image
+ * Similar-looking images have hashes a small Hamming distance apart, regardless
+ * of size, compression or format.
+ */
+export interface ImageHashes {
+  /** Average hash: each pixel of an 8x8 thumbnail against the mean */
+  aHash: bigint;
+  /** Difference hash: horizontal gradients of a 9x8 thumbnail */
+  dHash: bigint;
+  /** DCT hash: low frequencies of a 32x32 thumbnail against their median */
+  pHash: bigint;
+}
+
+const HASH_BITS = 64;
+
+/**
+ * Resize by averaging the source pixels each target pixel covers
+ * @returns Row-major luminance values
+ */
+export function resizeGray(image: GrayImage, width: number, height: number): Float64Array {
+  const columns = coverage(image.width, width);
+  const rows = coverage(image.height, height);
+
+  // Horizontal pass, then vertical
+  const horizontal = new Float64Array(width * image.height);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x]!;
+      let sum = 0;
+      for (let index = 0; index < weights.length; index++) {
+        sum += image.data[y * image.width + start + index]! * weights[index]!;
+      }
+      horizontal[y * width + x] = sum;
+    }
+  }
+
+  const output = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y]!;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let index = 0; index < weights.length; index++) {
+        sum += horizontal[(start + index) * width + x]! * weights[index]!;
+      }
+      output[y * width + x] = sum;
+    }
+  }
+  return output;
+}
+
+/**
+ * Source pixels covered by each target pixel, with weights summing to 1
+ */
+function coverage(source: number, target: number): { start: number; weights: number[] }[] {
+  const scale = source / target;
+  const result: { start: number; weights: number[] }[] = [];
+
+  for (let index = 0; index < target; index++) {
+    const from = index * scale;
+    const to = from + scale;
+    const start = Math.floor(from);
+    const weights: number[] = [];
+    for (let pixel = start; pixel < Math.min(Math.ceil(to), source); pixel++) {
+      weights.push((Math.min(pixel + 1, to) - Math.max(pixel, from)) / scale);
+    }
+    result.push({ start, weights });
+  }
+  return result;
+}
+
+function toHash(bits: boolean[]): bigint {
+  let hash = 0n;
+  for (const bit of bits) {
+    hash = (hash << 1n) | (bit ? 1n : 0n);
+  }
+  return hash;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+export function averageHash(image: GrayImage): bigint {
+  const pixels = [...resizeGray(image, 8, 8)];
+  const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+  return toHash(pixels.map(value => value > mean));
+}
+
+export function differenceHash(image: GrayImage): bigint {
+  const pixels = resizeGray(image, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x]! < pixels[y * 9 + x + 1]!);
+    }
+  }
+  return toHash(bits);
+}
+
+export function perceptualHash(image: GrayImage): bigint {
+  const size = 32;
+  const pixels = resizeGray(image, size, size);
+  const cosines = Array.from({ length: 8 }, (_, frequency) =>
+    Array.from({ length: size }, (_, position) =>
+      Math.cos(((2 * position + 1) * frequency * Math.PI) / (2 * size))
+    )
+  );
+
+  // Only the 8x8 lowest frequencies of the 2D DCT-II are needed
+  const rows = new Float64Array(size * 8);
+  for (let y = 0; y < size; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < size; x++) sum += pixels[y * size + x]! * cosines[u]![x]!;
+      rows[y * 8 + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) sum += rows[y * 8 + u]! * cosines[v]![y]!;
+      coefficients.push(sum);
+    }
+  }
+
+  const threshold = median(coefficients);
+  return toHash(coefficients.map(value => value > threshold));
+}
+
+export function hashImage(image: GrayImage): ImageHashes {
+  return {
+    aHash: averageHash(image),
+    dHash: differenceHash(image),
+    pHash: perceptualHash(image),
+  };
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let difference = a ^ b;
+  let count = 0;
+  while (difference) {
+    difference &= difference - 1n;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Similarity (0-1) of two images from the share of matching hash bits
+ * Unrelated images score around 0.5; re-encoded or resized copies score above 0.9.
+ */
+export function hashSimilarity(a: ImageHashes, b: ImageHashes): number {
+  const distance =
+    hammingDistance(a.aHash, b.aHash) +
+    hammingDistance(a.dHash, b.dHash) +
+    hammingDistance(a.pHash, b.pHash);
+  return 1 - distance / (3 * HASH_BITS);
+}
+
+/**
+ * Download an image and hash it
+ * @throws Error if the download fails or the format is not supported
+ */
+export async function fetchImageHashes(url: string): Promise<ImageHashes> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image ${url}: ${response.statusText}`);
+  }
+  return hashImage(decodeImage(new Uint8Array(await response.arrayBuffer())));
+}
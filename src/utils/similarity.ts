@@ -0,0 +1,52 @@
+/**
+ * String similarity using Levenshtein distance
+ * @returns Score between 0 (completely different) and 1 (identical)
+ */
+export function stringSimilarity(str1: string, str2: string): number {
+  const len1 = str1.length;
+  const len2 = str2.length;
+
+  // Handle empty strings
+  if (len1 === 0 && len2 === 0) return 1;
+  if (len1 === 0 || len2 === 0) return 0;
+
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= len1; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= len2; j++) {
+    if (matrix[0]) {
+      matrix[0][j] = j;
+    }
+  }
+
+  for (let i = 1; i <= len1; i++) {
+    for (let j = 1; j <= len2; j++) {
+      const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      const prevRow = matrix[i - 1];
+      const currRow = matrix[i];
+      const prevCell = currRow?.[j - 1];
+      const diagCell = prevRow?.[j - 1];
+      const prevRowCell = prevRow?.[j];
+
+      if (
+        currRow &&
+        prevRow &&
+        prevCell !== undefined &&
+        diagCell !== undefined &&
+        prevRowCell !== undefined
+      ) {
+        currRow[j] = Math.min(prevRowCell + 1, prevCell + 1, diagCell + cost);
+      }
+    }
+  }
+
+  const lastRow = matrix[len1];
+  const distance = lastRow?.[len2];
+  if (distance === undefined) return 0;
+
+  const maxLen = Math.max(len1, len2);
+  return 1 - distance / maxLen;
+}
@@ -0,0 +1,276 @@
+import type { BilibiliVideo, UserMapping, YouTubeVideo } from '../../types';
+import type { BilibiliAPI } from '../api/bilibili';
+import type { YouTubeAPI } from '../api/youtube';
+import { stringSimilarity } from './similarity';
+
+/**
+ * Best Bilibili counterpart found for a YouTube video
+ */
+export interface VideoMatch {
+  bvid: string;
+  cid: number;
+  title: string;
+  /** Match confidence (0-1) */
+  confidence: number;
+  /** Human-readable scoring breakdown */
+  reasons: string[];
+}
+
+/**
+ * Best YouTube counterpart found for a Bilibili video
+ */
+export interface YouTubeVideoMatch {
+  videoId: string;
+  title: string;
+  /** Match confidence (0-1) */
+  confidence: number;
+  /** Human-readable scoring breakdown */
+  reasons: string[];
+}
+
+/**
+ * Per-signal candidate scores (0-1, null when the signal is unavailable)
+ */
+export interface CandidateScore {
+  duration: number | null;
+  title: number;
+  publishDate: number | null;
+  total: number;
+}
+
+/**
+ * Video matcher options
+ */
+export interface VideoMatcherOptions {
+  /** Maximum pages of uploads to scan */
+  maxPages: number;
+  /** Uploads per page */
+  pageSize: number;
+  /** Minimum confidence for a match to be returned */
+  minConfidence: number;
+  /** Stop paging once uploads are older than this many days before the YouTube video */
+  searchWindowDays: number;
+}
+
+const DEFAULT_MATCHER_OPTIONS: VideoMatcherOptions = {
+  maxPages: 3,
+  pageSize: 30,
+  minConfidence: 0.6,
+  searchWindowDays: 30,
+};
+
+/**
+ * Signal weights; missing signals are dropped and the rest renormalised
+ */
+const WEIGHTS = {
+  duration: 0.5,
+  title: 0.3,
+  publishDate: 0.2,
+};
+
+const DAY_SECONDS = 86400;
+
+/**
+ * Parse an ISO 8601 duration (e.g. "PT1H2M3S") into seconds
+ * @returns Duration in seconds, or 0 if it cannot be parsed
+ */
+export function parseIsoDuration(duration: string): number {
+  const match = duration.match(
+    /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+  );
+  if (!match) return 0;
+
+  const [, days, hours, minutes, seconds] = match;
+  return (
+    parseFloat(days || '0') * DAY_SECONDS +
+    parseFloat(hours || '0') * 3600 +
+    parseFloat(minutes || '0') * 60 +
+    parseFloat(seconds || '0')
+  );
+}
+
+/**
+ * Parse a Bilibili video length ("mm:ss" or "hh:mm:ss") into seconds
+ * @returns Length in seconds, or 0 if it cannot be parsed
+ */
+export function parseBilibiliLength(length: string): number {
+  const parts = length.trim().split(':');
+  if (parts.length < 2 || parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) {
+    return 0;
+  }
+  return parts.reduce((total, part) => total * 60 + parseInt(part), 0);
+}
+
+/**
+ * Normalize a video title for comparison
+ * Strips bracketed tags such as 【中字】 or [4K], punctuation and whitespace.
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/【[^】]*】|\[[^\]]*\]/g, '')
+    .replace(/[\p{P}\p{S}\s]/gu, '');
+}
+
+/**
+ * Score a Bilibili upload as the counterpart of a YouTube video
+ */
+export function scoreCandidate(ytVideo: YouTubeVideo, biliVideo: BilibiliVideo): CandidateScore {
+  const ytDuration = parseIsoDuration(ytVideo.duration);
+  const biliDuration = parseBilibiliLength(biliVideo.length);
+
+  // Full score within 2s, reaching zero at a minute of difference (trimmed intros etc.)
+  const duration =
+    ytDuration > 0 && biliDuration > 0
+      ? Math.max(0, 1 - Math.max(0, Math.abs(ytDuration - biliDuration) - 2) / 60)
+      : null;
+
+  const title = stringSimilarity(normalizeTitle(ytVideo.title), normalizeTitle(biliVideo.title));
+
+  // Full score within a day, reaching zero after two weeks
+  const ytPublished = Date.parse(ytVideo.publishedAt) / 1000;
+  const publishDate =
+    Number.isFinite(ytPublished) && biliVideo.created > 0
+      ? Math.max(
+          0,
+          1 - Math.max(0, Math.abs(ytPublished - biliVideo.created) / DAY_SECONDS - 1) / 13
+        )
+      : null;
+
+  let weightSum = WEIGHTS.title;
+  let total = title * WEIGHTS.title;
+  if (duration !== null) {
+    weightSum += WEIGHTS.duration;
+    total += duration * WEIGHTS.duration;
+  }
+  if (publishDate !== null) {
+    weightSum += WEIGHTS.publishDate;
+    total += publishDate * WEIGHTS.publishDate;
+  }
+
+  return { duration, title, publishDate, total: total / weightSum };
+}
+
+/**
+ * Describe a candidate score
+ */
+function describeScore(score: CandidateScore): string[] {
+  const reasons = [`Title similarity: ${(score.title * 100).toFixed(1)}%`];
+  if (score.duration !== null) {
+    reasons.push(`Duration score: ${(score.duration * 100).toFixed(1)}%`);
+  }
+  if (score.publishDate !== null) {
+    reasons.push(`Publish date score: ${(score.publishDate * 100).toFixed(1)}%`);
+  }
+  return reasons;
+}
+
+/**
+ * Matches YouTube videos to their Bilibili re-uploads for danmaku lookup
+ */
+export class VideoMatcher {
+  private biliApi: BilibiliAPI;
+  private options: VideoMatcherOptions;
+
+  constructor(biliApi: BilibiliAPI, options: Partial<VideoMatcherOptions> = {}) {
+    this.biliApi = biliApi;
+    this.options = { ...DEFAULT_MATCHER_OPTIONS, ...options };
+  }
+
+  /**
+   * Find the Bilibili upload of a mapped creator that best matches a YouTube video
+   */
+  async findMatch(mapping: UserMapping, ytVideo: YouTubeVideo): Promise<VideoMatch | null> {
+    const candidates = await this.fetchCandidates(mapping.bilibiliUid, ytVideo);
+
+    let best: { video: BilibiliVideo; score: CandidateScore } | null = null;
+    for (const video of candidates) {
+      const score = scoreCandidate(ytVideo, video);
+      if (!best || score.total > best.score.total) {
+        best = { video, score };
+      }
+    }
+
+    if (!best || best.score.total < this.options.minConfidence) {
+      return null;
+    }
+
+    const info = await this.biliApi.getVideoInfo(best.video.bvid);
+
+    return {
+      bvid: best.video.bvid,
+      cid: info.cid,
+      title: best.video.title,
+      confidence: best.score.total,
+      reasons: describeScore(best.score),
+    };
+  }
+
+  /**
+   * Fetch the creator's uploads around the YouTube publish date
+   * Uploads are listed newest first, so paging stops once they predate the search window.
+   */
+  private async fetchCandidates(uid: string, ytVideo: YouTubeVideo): Promise<BilibiliVideo[]> {
+    const ytPublished = Date.parse(ytVideo.publishedAt) / 1000;
+    const windowStart = Number.isFinite(ytPublished)
+      ? ytPublished - this.options.searchWindowDays * DAY_SECONDS
+      : -Infinity;
+
+    const candidates: BilibiliVideo[] = [];
+    for (let page = 1; page <= this.options.maxPages; page++) {
+      const videos = await this.biliApi.getUserVideos(uid, page, this.options.pageSize);
+      candidates.push(...videos);
+
+      const oldest = videos[videos.length - 1];
+      if (videos.length < this.options.pageSize || !oldest || oldest.created < windowStart) {
+        break;
+      }
+    }
+
+    return candidates;
+  }
+}
+
+/**
+ * Matches Bilibili videos to the creator's original YouTube uploads, for
+ * showing YouTube comments on Bilibili
+ */
+export class YouTubeVideoMatcher {
+  private ytApi: YouTubeAPI;
+  private minConfidence: number;
+
+  constructor(ytApi: YouTubeAPI, minConfidence = DEFAULT_MATCHER_OPTIONS.minConfidence) {
+    this.ytApi = ytApi;
+    this.minConfidence = minConfidence;
+  }
+
+  /**
+   * Find the mapped channel's YouTube upload that best matches a Bilibili video
+   * Only the channel's latest uploads are searched.
+   */
+  async findMatch(
+    mapping: UserMapping,
+    biliVideo: BilibiliVideo
+  ): Promise<YouTubeVideoMatch | null> {
+    const candidates = await this.ytApi.getChannelVideos(mapping.youtubeChannelId, 50);
+
+    let best: { video: YouTubeVideo; score: CandidateScore } | null = null;
+    for (const video of candidates) {
+      const score = scoreCandidate(video, biliVideo);
+      if (!best || score.total > best.score.total) {
+        best = { video, score };
+      }
+    }
+
+    if (!best || best.score.total < this.minConfidence) {
+      return null;
+    }
+
+    return {
+      videoId: best.video.id,
+      title: best.video.title,
+      confidence: best.score.total,
+      reasons: describeScore(best.score),
+    };
+  }
+}
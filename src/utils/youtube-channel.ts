@@ -0,0 +1,75 @@
+/**
+ * How a URL or user input names a YouTube channel
+ * Legacy /c/ names share the handle namespace; legacy /user/ names do not.
+ */
+export type ChannelReference =
+  | { kind: 'id'; value: string }
+  | { kind: 'handle'; value: string }
+  | { kind: 'username'; value: string };
+
+/**
+ * Channel identity read from a channel page
+ */
+export interface ChannelPageInfo {
+  channelId: string | null;
+  /** Normalized handle, see normalizeHandle */
+  handle: string | null;
+}
+
+const CHANNEL_ID = /^UC[\w-]{22}$/;
+
+/**
+ * Whether a string is a UC… channel ID
+ */
+export function isChannelId(value: string): boolean {
+  return CHANNEL_ID.test(value);
+}
+
+/**
+ * Canonical form of a handle for lookups: lowercase, URL-decoded, with a leading "@"
+ */
+export function normalizeHandle(handle: string): string {
+  let decoded = handle.replace(/^@/, '');
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  return `@${decoded.toLowerCase()}`;
+}
+
+/**
+ * Read the channel a URL, handle or channel ID refers to
+ * @example parseChannelReference('https://www.youtube.com/@Name/videos') => { kind: 'handle', value: '@name' }
+ */
+export function parseChannelReference(input: string): ChannelReference | null {
+  const value = input.trim();
+
+  const id = value.match(/(?:^|youtube\.com\/channel\/)(UC[\w-]{22})(?![\w-])/);
+  if (id) return { kind: 'id', value: id[1]! };
+
+  const handle =
+    value.match(/(?:^|youtube\.com\/)@([^/?#\s]+)/) ?? value.match(/youtube\.com\/c\/([^/?#\s]+)/);
+  if (handle) return { kind: 'handle', value: normalizeHandle(handle[1]!) };
+
+  const username = value.match(/youtube\.com\/user\/([^/?#\s]+)/);
+  if (username) return { kind: 'username', value: username[1]! };
+
+  return null;
+}
+
+/**
+ * Read the channel ID and handle from a channel page's HTML
+ * Uses the channel metadata in ytInitialData, falling back to the canonical link.
+ */
+export function parseChannelPage(html: string): ChannelPageInfo {
+  const channelId =
+    html.match(/"channelMetadataRenderer":\{[\s\S]*?"externalId":"(UC[\w-]{22})"/)?.[1] ??
+    html.match(
+      /<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[\w-]{22})"/
+    )?.[1] ??
+    null;
+  const vanity = html.match(/"vanityChannelUrl":"https?:\/\/www\.youtube\.com\/@([^"/?#]+)"/)?.[1];
+
+  return { channelId, handle: vanity ? normalizeHandle(vanity) : null };
+}
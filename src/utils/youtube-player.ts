@@ -0,0 +1,134 @@
+import type { YouTubeVideo } from '../../types';
+
+/**
+ * Event the content script dispatches on the window to ask for a video's player details
+ * The detail is the video ID.
+ */
+export const PLAYER_REQUEST_EVENT = 'bilitube:player-request';
+
+/**
+ * Event the page's main world answers with, carrying a JSON-encoded PlayerReply
+ * Only strings cross from the main world to the content script's isolated world intact.
+ */
+export const PLAYER_RESPONSE_EVENT = 'bilitube:player-response';
+
+/**
+ * Answer to a player request; video is null while the player still shows another video
+ */
+interface PlayerReply {
+  videoId: string;
+  video: YouTubeVideo | null;
+}
+
+/**
+ * Read a video from a player response (ytInitialPlayerResponse or the player's getPlayerResponse())
+ * @returns null unless the response describes `videoId`
+ */
+export function parsePlayerResponse(response: any, videoId: string): YouTubeVideo | null {
+  const details = response?.videoDetails;
+  if (details?.videoId !== videoId) return null;
+
+  const microformat = response.microformat?.playerMicroformatRenderer ?? {};
+  const lengthSeconds = Number(details.lengthSeconds) || 0;
+
+  return {
+    id: videoId,
+    title: details.title ?? '',
+    description: details.shortDescription ?? '',
+    channelId: details.channelId ?? '',
+    channelTitle: details.author ?? '',
+    publishedAt: microformat.publishDate ?? microformat.uploadDate ?? '',
+    thumbnails: {
+      default: `https://i.ytimg.com/vi/${videoId}/default.jpg`,
+      medium: `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`,
+      high: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+    },
+    duration: lengthSeconds > 0 ? `PT${lengthSeconds}S` : '',
+  };
+}
+
+/**
+ * Answer player requests from the page's main world, where the player exposes its response
+ * @returns Function that stops answering
+ */
+export function servePlayerRequests(target: EventTarget, getResponse: () => unknown): () => void {
+  const handler = (event: Event) => {
+    const videoId = (event as CustomEvent<unknown>).detail;
+    if (typeof videoId !== 'string') return;
+
+    const reply: PlayerReply = { videoId, video: parsePlayerResponse(getResponse(), videoId) };
+    target.dispatchEvent(new CustomEvent(PLAYER_RESPONSE_EVENT, { detail: JSON.stringify(reply) }));
+  };
+
+  target.addEventListener(PLAYER_REQUEST_EVENT, handler);
+  return () => target.removeEventListener(PLAYER_REQUEST_EVENT, handler);
+}
+
+/**
+ * Ask the main world once, waiting at most `wait` milliseconds for the answer
+ */
+function askPlayer(
+  target: EventTarget,
+  videoId: string,
+  wait: number
+): Promise<YouTubeVideo | null> {
+  return new Promise(resolve => {
+    const finish = (video: YouTubeVideo | null) => {
+      clearTimeout(timer);
+      target.removeEventListener(PLAYER_RESPONSE_EVENT, onResponse);
+      resolve(video);
+    };
+    const onResponse = (event: Event) => {
+      const detail = (event as CustomEvent<unknown>).detail;
+      if (typeof detail !== 'string') return;
+      const reply = JSON.parse(detail) as PlayerReply;
+      if (reply.videoId === videoId) finish(reply.video);
+    };
+    const timer = setTimeout(() => finish(null), wait);
+
+    target.addEventListener(PLAYER_RESPONSE_EVENT, onResponse);
+    target.dispatchEvent(new CustomEvent(PLAYER_REQUEST_EVENT, { detail: videoId }));
+  });
+}
+
+/**
+ * Options for requestPlayerVideo
+ */
+export interface PlayerRequestOptions {
+  /** Milliseconds before giving up */
+  timeout: number;
+  /** Milliseconds between attempts */
+  interval: number;
+  /** Give up early once this turns true, e.g. after a navigation */
+  isStale: () => boolean;
+}
+
+const DEFAULT_PLAYER_REQUEST_OPTIONS: PlayerRequestOptions = {
+  timeout: 5000,
+  interval: 250,
+  isStale: () => false,
+};
+
+/**
+ * Get the player's details of `videoId` from the page's main world
+ * After an in-app navigation the player switches videos a little later than the URL,
+ * so the request is repeated until the answer describes `videoId`.
+ * @returns null on timeout, when stale, or when nothing answers
+ */
+export async function requestPlayerVideo(
+  target: EventTarget,
+  videoId: string,
+  options: Partial<PlayerRequestOptions> = {}
+): Promise<YouTubeVideo | null> {
+  const { timeout, interval, isStale } = { ...DEFAULT_PLAYER_REQUEST_OPTIONS, ...options };
+  const deadline = Date.now() + timeout;
+
+  while (!isStale() && Date.now() < deadline) {
+    const video = await askPlayer(target, videoId, Math.min(interval, deadline - Date.now()));
+    if (video) return video;
+    await new Promise(resolve =>
+      setTimeout(resolve, Math.max(0, Math.min(interval, deadline - Date.now())))
+    );
+  }
+  return null;
+}
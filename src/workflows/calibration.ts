@@ -0,0 +1,431 @@
+import type {
+  BilibiliUser,
+  BilibiliVideo,
+  VerificationResult,
+  VerifierConfig,
+  YouTubeChannel,
+  YouTubeVideo,
+} from '../../types';
+import { BilibiliAPI } from '../api/bilibili';
+import { YouTubeAPI } from '../api/youtube';
+import { fetchImageHashes } from '../utils/perceptual-hash';
+import type { ImageHashes } from '../utils/perceptual-hash';
+import { fetchShortLink } from '../utils/link-extractor';
+import type { ShortLinkResolver } from '../utils/link-extractor';
+import type { UserVerifier } from './verifier';
+
+/**
+ * Bilibili user / YouTube channel pair with a known answer
+ */
+export interface LabeledPair {
+  biliUid: string;
+  ytChannelId: string;
+  isMatch: boolean;
+  /** Why the pair is in the dataset */
+  note?: string;
+}
+
+/**
+ * API responses captured for offline verification
+ * Image hashes are stored as 16-digit hex strings.
+ */
+export interface ApiRecordings {
+  bilibiliUsers: Record<string, BilibiliUser>;
+  bilibiliVideos: Record<string, BilibiliVideo[]>;
+  youtubeChannels: Record<string, YouTubeChannel>;
+  youtubeVideos: Record<string, YouTubeVideo[]>;
+  /** External links on each channel's About page */
+  youtubeLinks: Record<string, string[]>;
+  /** Redirect target of each short link, null when it did not resolve */
+  shortLinks: Record<string, string | null>;
+  imageHashes: Record<string, Record<keyof ImageHashes, string>>;
+}
+
+/**
+ * Labeled pairs with the recordings needed to verify them
+ */
+export interface CalibrationDataset {
+  /** Made-up pairs kept as a regression gate; their metrics do not describe real channels */
+  synthetic?: boolean;
+  description?: string;
+  /** Lowest acceptable precision of automatic verification */
+  minPrecision: number;
+  pairs: LabeledPair[];
+  recordings: ApiRecordings;
+}
+
+/**
+ * Confusion counts with the derived rates
+ * Precision is 1 when nothing was accepted.
+ */
+export interface ConfusionStats {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+/**
+ * Receiver operating characteristic of a score
+ */
+export interface RocCurve {
+  /** [false positive rate, true positive rate], from the strictest threshold down */
+  points: [number, number][];
+  /** Area under the curve; 0.5 is chance, null without both classes */
+  auc: number | null;
+}
+
+/**
+ * Pairs accepted at one verification level
+ */
+export interface LevelReport {
+  level: 1 | 2 | 3;
+  accepted: number;
+  truePositives: number;
+  precision: number;
+  /** Share of all true matches accepted at this level */
+  recall: number;
+}
+
+/**
+ * How well one signal separates matches from non-matches
+ */
+export interface SignalReport {
+  name: string;
+  /** Pairs the signal could measure */
+  measured: number;
+  /** Precision/recall of the signal firing, i.e. reaching a configured band or shortcut */
+  stats: ConfusionStats;
+  /** ROC of the raw signal value */
+  roc: RocCurve;
+}
+
+export interface CalibrationReport {
+  pairs: number;
+  matches: number;
+  /** Automatic verification (Levels 1-3) against the labels */
+  overall: ConfusionStats;
+  levels: LevelReport[];
+  /** ROC of the verifier's confidence */
+  confidence: RocCurve;
+  signals: SignalReport[];
+  /** Pairs the verifier got wrong */
+  mistakes: { pair: LabeledPair; level: number; confidence: number }[];
+}
+
+/**
+ * Outcome for one labeled pair
+ */
+export interface PairEvaluation {
+  pair: LabeledPair;
+  result: VerificationResult;
+  /** Value of every registered signal, measured whether or not the verifier needed it */
+  signals: Record<string, number | null>;
+}
+
+function parseHashes(hex: Record<keyof ImageHashes, string>): ImageHashes {
+  return {
+    aHash: BigInt(`0x${hex.aHash}`),
+    dHash: BigInt(`0x${hex.dHash}`),
+    pHash: BigInt(`0x${hex.pHash}`),
+  };
+}
+
+function formatHashes(hashes: ImageHashes): Record<keyof ImageHashes, string> {
+  return {
+    aHash: hashes.aHash.toString(16).padStart(16, '0'),
+    dHash: hashes.dHash.toString(16).padStart(16, '0'),
+    pHash: hashes.pHash.toString(16).padStart(16, '0'),
+  };
+}
+
+function missingRecording(kind: string, key: string): Error {
+  return new Error(`No recorded ${kind} for ${key}; run the calibration with --record`);
+}
+
+/**
+ * Bilibili API answering from recordings
+ * With a source API, anything not recorded is fetched from it and added to the recordings.
+ */
+export class RecordedBilibiliAPI extends BilibiliAPI {
+  private recordings: ApiRecordings;
+  private source: BilibiliAPI | null;
+
+  constructor(recordings: ApiRecordings, source: BilibiliAPI | null = null) {
+    super();
+    this.recordings = recordings;
+    this.source = source;
+  }
+
+  override async getUserInfo(uid: string): Promise<BilibiliUser> {
+    const recorded = this.recordings.bilibiliUsers[uid];
+    if (recorded) return recorded;
+    if (!this.source) throw missingRecording('Bilibili user', uid);
+
+    return (this.recordings.bilibiliUsers[uid] = await this.source.getUserInfo(uid));
+  }
+
+  override async getUserVideos(
+    uid: string,
+    page: number = 1,
+    pageSize: number = 30
+  ): Promise<BilibiliVideo[]> {
+    const start = (page - 1) * pageSize;
+    const recorded = this.recordings.bilibiliVideos[uid];
+    if (recorded && (recorded.length >= start + pageSize || !this.source)) {
+      return recorded.slice(start, start + pageSize);
+    }
+    if (!this.source) throw missingRecording('Bilibili videos', uid);
+
+    const videos = await this.source.getUserVideos(uid, page, pageSize);
+    (this.recordings.bilibiliVideos[uid] ??= []).splice(start, pageSize, ...videos);
+    return videos;
+  }
+}
+
+/**
+ * YouTube API answering from recordings
+ * With a source API, anything not recorded is fetched from it and added to the recordings.
+ */
+export class RecordedYouTubeAPI extends YouTubeAPI {
+  private recordings: ApiRecordings;
+  private source: YouTubeAPI | null;
+
+  constructor(recordings: ApiRecordings, source: YouTubeAPI | null = null) {
+    super(null);
+    this.recordings = recordings;
+    this.source = source;
+  }
+
+  override async getChannel(channelId: string): Promise<YouTubeChannel> {
+    const recorded = this.recordings.youtubeChannels[channelId];
+    if (recorded) return recorded;
+    if (!this.source) throw missingRecording('YouTube channel', channelId);
+
+    return (this.recordings.youtubeChannels[channelId] = await this.source.getChannel(channelId));
+  }
+
+  override async getChannelVideos(
+    channelId: string,
+    maxResults: number = 10
+  ): Promise<YouTubeVideo[]> {
+    const recorded = this.recordings.youtubeVideos[channelId];
+    if (recorded && (recorded.length >= maxResults || !this.source)) {
+      return recorded.slice(0, maxResults);
+    }
+    if (!this.source) throw missingRecording('YouTube videos', channelId);
+
+    return (this.recordings.youtubeVideos[channelId] = await this.source.getChannelVideos(
+      channelId,
+      maxResults
+    ));
+  }
+
+  override async getChannelLinks(channelId: string): Promise<string[]> {
+    const recorded = this.recordings.youtubeLinks[channelId];
+    if (recorded) return recorded;
+    if (!this.source) throw missingRecording('YouTube channel links', channelId);
+
+    return (this.recordings.youtubeLinks[channelId] = await this.source.getChannelLinks(channelId));
+  }
+}
+
+/**
+ * Image hash loader answering from recordings
+ * With `record` set, unrecorded images are downloaded, hashed and added.
+ */
+export function createRecordedImageHashes(
+  recordings: ApiRecordings,
+  record: boolean = false
+): (url: string) => Promise<ImageHashes> {
+  return async url => {
+    const recorded = recordings.imageHashes[url];
+    if (recorded) return parseHashes(recorded);
+    if (!record) throw missingRecording('image', url);
+
+    const hashes = await fetchImageHashes(url);
+    recordings.imageHashes[url] = formatHashes(hashes);
+    return hashes;
+  };
+}
+
+/**
+ * Short link resolver answering from recordings
+ * With `record` set, unrecorded links are resolved and added.
+ */
+export function createRecordedShortLinks(
+  recordings: ApiRecordings,
+  record: boolean = false
+): ShortLinkResolver {
+  return async url => {
+    const recorded = recordings.shortLinks[url];
+    if (recorded !== undefined) return recorded;
+    if (!record) throw missingRecording('short link', url);
+
+    return (recordings.shortLinks[url] = await fetchShortLink(url));
+  };
+}
+
+/**
+ * Run the verifier and measure every signal for each labeled pair
+ */
+export async function evaluatePairs(
+  verifier: UserVerifier,
+  pairs: LabeledPair[]
+): Promise<PairEvaluation[]> {
+  const evaluations: PairEvaluation[] = [];
+
+  for (const pair of pairs) {
+    const result = await verifier.verify(pair.biliUid, pair.ytChannelId);
+    const measured = await verifier.measureSignals(pair.biliUid, pair.ytChannelId);
+    const signals = Object.fromEntries(
+      Object.entries(measured).map(([name, signal]) => [name, signal?.value ?? null])
+    );
+    evaluations.push({ pair, result, signals });
+  }
+  return evaluations;
+}
+
+/**
+ * Confusion counts of a yes/no prediction
+ */
+export function confusionStats(
+  samples: { predicted: boolean; isMatch: boolean }[]
+): ConfusionStats {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let trueNegatives = 0;
+
+  for (const { predicted, isMatch } of samples) {
+    if (predicted && isMatch) truePositives++;
+    else if (predicted) falsePositives++;
+    else if (isMatch) falseNegatives++;
+    else trueNegatives++;
+  }
+
+  const accepted = truePositives + falsePositives;
+  const matches = truePositives + falseNegatives;
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    trueNegatives,
+    precision: accepted > 0 ? truePositives / accepted : 1,
+    recall: matches > 0 ? truePositives / matches : 0,
+  };
+}
+
+/**
+ * ROC curve of a score, higher meaning more likely a match
+ * Tied scores move along both axes at once.
+ */
+export function rocCurve(samples: { score: number; isMatch: boolean }[]): RocCurve {
+  const matches = samples.filter(sample => sample.isMatch).length;
+  const nonMatches = samples.length - matches;
+  const sorted = [...samples].sort((a, b) => b.score - a.score);
+
+  const points: [number, number][] = [[0, 0]];
+  let truePositives = 0;
+  let falsePositives = 0;
+  for (let index = 0; index < sorted.length; index++) {
+    if (sorted[index]!.isMatch) truePositives++;
+    else falsePositives++;
+
+    if (sorted[index + 1]?.score !== sorted[index]!.score) {
+      points.push([
+        nonMatches > 0 ? falsePositives / nonMatches : 0,
+        matches > 0 ? truePositives / matches : 0,
+      ]);
+    }
+  }
+
+  if (matches === 0 || nonMatches === 0) {
+    return { points, auc: null };
+  }
+
+  let auc = 0;
+  for (let index = 1; index < points.length; index++) {
+    const [x0, y0] = points[index - 1]!;
+    const [x1, y1] = points[index]!;
+    auc += ((x1 - x0) * (y0 + y1)) / 2;
+  }
+  return { points, auc };
+}
+
+/**
+ * Whether a signal value reaches any configured band or shortcut minimum
+ */
+function signalFires(config: VerifierConfig, name: string, value: number): boolean {
+  const inBand = (config.signals[name]?.bands ?? []).some(
+    ({ min = -Infinity, max = Infinity }) => value >= min && value <= max
+  );
+  const meetsShortcut = config.shortcuts.some(shortcut => {
+    const min = shortcut.requires[name];
+    return min !== undefined && value >= min;
+  });
+  return inBand || meetsShortcut;
+}
+
+/**
+ * Summarize evaluations into precision/recall/ROC per level and per signal
+ */
+export function buildReport(
+  evaluations: PairEvaluation[],
+  config: VerifierConfig
+): CalibrationReport {
+  const matches = evaluations.filter(({ pair }) => pair.isMatch).length;
+
+  const levels = ([1, 2, 3] as const).map(level => {
+    const accepted = evaluations.filter(({ result }) => result.success && result.level === level);
+    const truePositives = accepted.filter(({ pair }) => pair.isMatch).length;
+    return {
+      level,
+      accepted: accepted.length,
+      truePositives,
+      precision: accepted.length > 0 ? truePositives / accepted.length : 1,
+      recall: matches > 0 ? truePositives / matches : 0,
+    };
+  });
+
+  const signalNames = [...new Set(evaluations.flatMap(({ signals }) => Object.keys(signals)))];
+  const signals = signalNames.map(name => {
+    const measured = evaluations.flatMap(({ pair, signals }) => {
+      const value = signals[name];
+      return value === null || value === undefined ? [] : [{ value, isMatch: pair.isMatch }];
+    });
+    return {
+      name,
+      measured: measured.length,
+      // Pairs the signal could not measure count as not firing
+      stats: confusionStats(
+        evaluations.map(({ pair, signals }) => {
+          const value = signals[name];
+          return {
+            predicted: value !== null && value !== undefined && signalFires(config, name, value),
+            isMatch: pair.isMatch,
+          };
+        })
+      ),
+      roc: rocCurve(measured.map(({ value, isMatch }) => ({ score: value, isMatch }))),
+    };
+  });
+
+  return {
+    pairs: evaluations.length,
+    matches,
+    overall: confusionStats(
+      evaluations.map(({ pair, result }) => ({ predicted: result.success, isMatch: pair.isMatch }))
+    ),
+    levels,
+    confidence: rocCurve(
+      evaluations.map(({ pair, result }) => ({ score: result.confidence, isMatch: pair.isMatch }))
+    ),
+    signals,
+    mistakes: evaluations
+      .filter(({ pair, result }) => pair.isMatch !== result.success)
+      .map(({ pair, result }) => ({ pair, level: result.level, confidence: result.confidence })),
+  };
+}
@@ -0,0 +1,443 @@
+import type {
+  BilibiliUser,
+  BilibiliVideo,
+  VerificationMetadata,
+  YouTubeChannel,
+  YouTubeVideo,
+} from '../../types';
+import { stringSimilarity } from '../utils/similarity';
+import { nameSimilarity } from '../utils/name-matching';
+import { normalizeTitle, parseBilibiliLength, parseIsoDuration } from '../utils/video-matcher';
+import { hashSimilarity } from '../utils/perceptual-hash';
+import type { ImageHashes } from '../utils/perceptual-hash';
+import { extractLinks, mergeLinks, resolveShortLinks } from '../utils/link-extractor';
+import type { ExtractedLinks, ShortLinkResolver } from '../utils/link-extractor';
+
+const DAY_SECONDS = 86400;
+
+/**
+ * Most thumbnails downloaded at once while pairing uploads
+ */
+const THUMBNAIL_CONCURRENCY = 4;
+
+/**
+ * Map items through an async function, running at most `limit` calls at a time
+ */
+async function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Everything a signal may look at for one Bilibili user / YouTube channel pair
+ */
+export interface SignalContext {
+  biliUser: BilibiliUser;
+  ytChannel: YouTubeChannel;
+  /** Recent Bilibili uploads, fetched once and shared between signals */
+  getBiliVideos(): Promise<BilibiliVideo[]>;
+  /** Recent YouTube uploads, fetched once and shared between signals */
+  getYtVideos(): Promise<YouTubeVideo[]>;
+  /** External links on the YouTube channel's About page, fetched once */
+  getYtLinks(): Promise<string[]>;
+  loadImageHashes(url: string): Promise<ImageHashes>;
+  resolveShortLink: ShortLinkResolver;
+}
+
+/**
+ * Measurement taken by a signal
+ */
+export interface SignalResult {
+  /** Matched against the signal's bands and shortcut minimums */
+  value: number;
+  /** Formatted value appended to reasons, e.g. "92.5%" */
+  detail?: string;
+  metadata?: VerificationMetadata;
+}
+
+/**
+ * One piece of evidence that a Bilibili user and a YouTube channel are the same creator
+ */
+export interface VerificationSignal {
+  /** Key used in the verifier config */
+  name: string;
+  /** Reason reported when the signal satisfies a shortcut */
+  label: string;
+  /**
+   * @returns null if the signal cannot be measured for this pair
+   */
+  evaluate(context: SignalContext, options: Record<string, number>): Promise<SignalResult | null>;
+}
+
+/**
+ * Signals available to the verifier, by name
+ */
+export class SignalRegistry {
+  private signals = new Map<string, VerificationSignal>();
+
+  register(signal: VerificationSignal): this {
+    if (this.signals.has(signal.name)) {
+      throw new Error(`Verification signal "${signal.name}" is already registered`);
+    }
+    this.signals.set(signal.name, signal);
+    return this;
+  }
+
+  get(name: string): VerificationSignal | undefined {
+    return this.signals.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.signals.has(name);
+  }
+
+  names(): string[] {
+    return [...this.signals.keys()];
+  }
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Whether an avatar URL is worth comparing
+ * Bilibili's placeholder avatar is shared by every user without one.
+ */
+function isComparableAvatar(url: string): boolean {
+  return /^https?:\/\//.test(url) && !/\/noface\./.test(url);
+}
+
+/**
+ * 1 if YouTube marks the channel as verified
+ */
+export const youtubeVerifiedSignal: VerificationSignal = {
+  name: 'youtubeVerified',
+  label: 'YouTube channel is verified',
+  async evaluate({ ytChannel }) {
+    if (!ytChannel.verified) return { value: 0 };
+    return { value: 1, metadata: { youtubeVerified: true } };
+  },
+};
+
+/**
+ * Similarity (0-1) of the usernames across scripts, romanizations and known aliases
+ */
+export const nameSimilaritySignal: VerificationSignal = {
+  name: 'nameSimilarity',
+  label: 'Username similarity',
+  async evaluate({ biliUser, ytChannel }) {
+    const similarity = nameSimilarity(biliUser.name, ytChannel.title);
+    return {
+      value: similarity,
+      detail: percent(similarity),
+      metadata: { usernameSimilarity: similarity },
+    };
+  },
+};
+
+/**
+ * Texts to search for links and how to recognise the counterpart in what they link
+ */
+type LinkSource = [
+  name: string,
+  loadTexts: () => Promise<string[]>,
+  findCounterpart: (links: ExtractedLinks) => Promise<string | null>,
+];
+
+/**
+ * First source linking the counterpart, as "source → target"
+ * Short links are expanded before comparing.
+ */
+async function findCounterpartLink(
+  sources: LinkSource[],
+  resolveShortLink: ShortLinkResolver
+): Promise<string | null> {
+  for (const [source, loadTexts, findCounterpart] of sources) {
+    const links = await resolveShortLinks(
+      mergeLinks(...(await loadTexts()).map(extractLinks)),
+      resolveShortLink
+    );
+    const target = await findCounterpart(links);
+    if (target) return `${source} → ${target}`;
+  }
+  return null;
+}
+
+/**
+ * The YouTube channel by ID or handle
+ */
+function findYouTubeChannel(links: ExtractedLinks, ytChannel: YouTubeChannel): string | null {
+  const handle = ytChannel.customUrl?.replace(/^@/, '').toLowerCase();
+  if (links.youtubeChannelIds.includes(ytChannel.id)) return `channel ${ytChannel.id}`;
+  if (handle && links.youtubeHandles.includes(handle)) return `@${handle}`;
+  return null;
+}
+
+/**
+ * The Bilibili user by UID
+ */
+function findBilibiliUser(links: ExtractedLinks, biliUser: BilibiliUser): string | null {
+  return links.bilibiliUids.includes(biliUser.uid) ? `UID ${biliUser.uid}` : null;
+}
+
+/**
+ * 1 if one platform's profile links the exact counterpart channel on the other
+ * Only the Bilibili bio, the YouTube description and the YouTube About links count,
+ * and only by channel ID, handle or UID. Links to single videos are left to videoLink,
+ * since anyone reuploading a video can copy those.
+ */
+export const bioLinkSignal: VerificationSignal = {
+  name: 'bioLink',
+  label: 'Cross-platform link found',
+  async evaluate({ biliUser, ytChannel, getYtLinks, resolveShortLink }) {
+    const toYouTube = async (links: ExtractedLinks) => findYouTubeChannel(links, ytChannel);
+    const toBilibili = async (links: ExtractedLinks) => findBilibiliUser(links, biliUser);
+
+    const found = await findCounterpartLink(
+      [
+        ['Bilibili bio', async () => [biliUser.sign], toYouTube],
+        ['YouTube description', async () => [ytChannel.description], toBilibili],
+        ['YouTube channel links', getYtLinks, toBilibili],
+      ],
+      resolveShortLink
+    );
+    if (!found) return { value: 0, metadata: { bioMatch: false } };
+    return { value: 1, detail: found, metadata: { bioMatch: true } };
+  },
+};
+
+/**
+ * 1 if recent video descriptions link the counterpart channel or one of its recent uploads
+ * Weak evidence: a reuploader naming the source of each video looks the same.
+ */
+export const videoLinkSignal: VerificationSignal = {
+  name: 'videoLink',
+  label: 'Video descriptions link the counterpart',
+  async evaluate({ biliUser, ytChannel, getBiliVideos, getYtVideos, resolveShortLink }) {
+    const toYouTube = async (links: ExtractedLinks): Promise<string | null> => {
+      const channel = findYouTubeChannel(links, ytChannel);
+      if (channel || links.youtubeVideoIds.length === 0) return channel;
+      const video = (await getYtVideos()).find(({ id }) => links.youtubeVideoIds.includes(id));
+      return video ? `video ${video.id}` : null;
+    };
+    const toBilibili = async (links: ExtractedLinks): Promise<string | null> => {
+      const user = findBilibiliUser(links, biliUser);
+      if (user || links.bilibiliVideoIds.length === 0) return user;
+      const video = (await getBiliVideos()).find(({ bvid }) =>
+        links.bilibiliVideoIds.includes(bvid)
+      );
+      return video ? `video ${video.bvid}` : null;
+    };
+
+    const found = await findCounterpartLink(
+      [
+        [
+          'Bilibili video descriptions',
+          async () => (await getBiliVideos()).map(video => video.description ?? ''),
+          toYouTube,
+        ],
+        [
+          'YouTube video descriptions',
+          async () => (await getYtVideos()).map(video => video.description),
+          toBilibili,
+        ],
+      ],
+      resolveShortLink
+    );
+    if (!found) return { value: 0, metadata: { videoLinkMatch: false } };
+    return { value: 1, detail: found, metadata: { videoLinkMatch: true } };
+  },
+};
+
+/**
+ * Perceptual-hash similarity (0-1) of the two avatars
+ * Skipped when either is missing, a placeholder, or could not be downloaded and decoded.
+ */
+export const avatarHashSignal: VerificationSignal = {
+  name: 'avatarHash',
+  label: 'Avatars match',
+  async evaluate({ biliUser, ytChannel, loadImageHashes }) {
+    const biliFace = biliUser.face;
+    const ytThumbnail = ytChannel.thumbnails.high;
+    if (!isComparableAvatar(biliFace) || !isComparableAvatar(ytThumbnail)) {
+      return null;
+    }
+
+    try {
+      const [biliHashes, ytHashes] = await Promise.all([
+        loadImageHashes(biliFace),
+        loadImageHashes(ytThumbnail),
+      ]);
+      const similarity = hashSimilarity(biliHashes, ytHashes);
+      return {
+        value: similarity,
+        detail: percent(similarity),
+        metadata: { avatarSimilarity: similarity },
+      };
+    } catch (error) {
+      console.warn('Avatar comparison skipped:', error);
+      return null;
+    }
+  },
+};
+
+/**
+ * Number of recent Bilibili uploads paired with a YouTube upload
+ * Videos of different lengths never pair. Otherwise a pair needs `minEvidence` of: lengths
+ * within `durationTolerance` seconds, uploads within `uploadWindowDays`, thumbnails at least
+ * `thumbnailSimilarity` alike and titles at least `titleSimilarity` alike. Length and timing
+ * fit any two uploads of a channel's usual format and schedule, so the title or thumbnail
+ * must be among them. Each upload is paired at most once, strongest candidates first, so
+ * translated titles still count.
+ */
+export const videoOverlapSignal: VerificationSignal = {
+  name: 'videoOverlap',
+  label: 'Matching uploads',
+  async evaluate({ getBiliVideos, getYtVideos, loadImageHashes }, options) {
+    const durationTolerance = options['durationTolerance'] ?? 2;
+    const uploadWindow = (options['uploadWindowDays'] ?? 3) * DAY_SECONDS;
+    const minThumbnailSimilarity = options['thumbnailSimilarity'] ?? 0.9;
+    const minTitleSimilarity = options['titleSimilarity'] ?? 0.7;
+    const minEvidence = options['minEvidence'] ?? 2;
+    const biliVideos = await getBiliVideos();
+    const ytVideos = await getYtVideos();
+
+    type Candidate = { bvid: string; ytId: string; evidence: number; title: number };
+    const candidates: Candidate[] = [];
+    // Pairs whose titles differ, which only matching thumbnails can settle
+    const undecided: { candidate: Candidate; biliThumbnail: string; ytThumbnail: string }[] = [];
+    for (const biliVideo of biliVideos) {
+      const biliDuration = parseBilibiliLength(biliVideo.length);
+      for (const ytVideo of ytVideos) {
+        const ytDuration = parseIsoDuration(ytVideo.duration);
+        const durationKnown = biliDuration > 0 && ytDuration > 0;
+        if (durationKnown && Math.abs(biliDuration - ytDuration) > durationTolerance) continue;
+
+        const uploadGap = Math.abs(Date.parse(ytVideo.publishedAt) / 1000 - biliVideo.created);
+        const title = stringSimilarity(
+          normalizeTitle(biliVideo.title),
+          normalizeTitle(ytVideo.title)
+        );
+        const titleMatches = title >= minTitleSimilarity;
+        const evidence =
+          Number(durationKnown) + Number(uploadGap <= uploadWindow) + Number(titleMatches);
+        const candidate = { bvid: biliVideo.bvid, ytId: ytVideo.id, evidence, title };
+
+        if (titleMatches) {
+          if (evidence >= minEvidence) candidates.push(candidate);
+        } else if (evidence + 1 >= minEvidence && biliVideo.pic && ytVideo.thumbnails.medium) {
+          undecided.push({
+            candidate,
+            biliThumbnail: biliVideo.pic,
+            ytThumbnail: ytVideo.thumbnails.medium,
+          });
+        }
+      }
+    }
+
+    // Thumbnails are only downloaded for pairs they can decide, each once and a few at a time
+    const urls = [
+      ...new Set(
+        undecided.flatMap(({ biliThumbnail, ytThumbnail }) => [biliThumbnail, ytThumbnail])
+      ),
+    ];
+    const hashes = await mapConcurrent(urls, THUMBNAIL_CONCURRENCY, url =>
+      loadImageHashes(url).catch(error => {
+        console.warn('Thumbnail comparison skipped:', error);
+        return null;
+      })
+    );
+    const thumbnails = new Map(urls.map((url, index) => [url, hashes[index]]));
+
+    for (const { candidate, biliThumbnail, ytThumbnail } of undecided) {
+      const biliHashes = thumbnails.get(biliThumbnail);
+      const ytHashes = thumbnails.get(ytThumbnail);
+      if (
+        biliHashes &&
+        ytHashes &&
+        hashSimilarity(biliHashes, ytHashes) >= minThumbnailSimilarity
+      ) {
+        candidates.push({ ...candidate, evidence: candidate.evidence + 1 });
+      }
+    }
+
+    const pairedBili = new Set<string>();
+    const pairedYt = new Set<string>();
+    candidates.sort((a, b) => b.evidence - a.evidence || b.title - a.title);
+    for (const { bvid, ytId } of candidates) {
+      if (pairedBili.has(bvid) || pairedYt.has(ytId)) continue;
+      pairedBili.add(bvid);
+      pairedYt.add(ytId);
+    }
+
+    const matchingVideos = pairedBili.size;
+    return {
+      value: matchingVideos,
+      detail: `${matchingVideos} of ${biliVideos.length} uploads`,
+      metadata: { matchingVideos },
+    };
+  },
+};
+
+/**
+ * YouTube subscribers per Bilibili follower
+ */
+export const followerRatioSignal: VerificationSignal = {
+  name: 'followerRatio',
+  label: 'Follower count ratio',
+  async evaluate({ biliUser, ytChannel }) {
+    if (ytChannel.subscriberCount === undefined || biliUser.follower <= 0) {
+      return null;
+    }
+
+    const followerRatio = ytChannel.subscriberCount / biliUser.follower;
+    return { value: followerRatio, detail: followerRatio.toFixed(2), metadata: { followerRatio } };
+  },
+};
+
+/**
+ * Similarity (0-1) of the channel's @handle to the Bilibili username
+ */
+export const customUrlSignal: VerificationSignal = {
+  name: 'customUrl',
+  label: 'YouTube handle similarity',
+  async evaluate({ biliUser, ytChannel }) {
+    const handle = ytChannel.customUrl?.replace(/^@/, '');
+    if (!handle) return null;
+
+    const similarity = nameSimilarity(biliUser.name, handle);
+    return {
+      value: similarity,
+      detail: percent(similarity),
+      metadata: { customUrlSimilarity: similarity },
+    };
+  },
+};
+
+/**
+ * Registry with every built-in signal
+ */
+export function createDefaultSignals(): SignalRegistry {
+  return new SignalRegistry()
+    .register(youtubeVerifiedSignal)
+    .register(nameSimilaritySignal)
+    .register(bioLinkSignal)
+    .register(videoLinkSignal)
+    .register(avatarHashSignal)
+    .register(videoOverlapSignal)
+    .register(followerRatioSignal)
+    .register(customUrlSignal);
+}
@@ -0,0 +1,132 @@
+import type { SignalBand, SignalConfig, VerificationShortcut, VerifierConfig } from '../../types';
+import defaultConfig from '../../config/verifier.json';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberRecord(value: unknown): value is Record<string, number> {
+  return isRecord(value) && Object.values(value).every(entry => typeof entry === 'number');
+}
+
+function invalid(path: string): Error {
+  return new Error(`Invalid verifier config: ${path}`);
+}
+
+function parseBand(raw: unknown, path: string): SignalBand {
+  if (!isRecord(raw) || typeof raw['weight'] !== 'number' || typeof raw['reason'] !== 'string') {
+    throw invalid(`${path} needs a numeric weight and a reason`);
+  }
+  const { min, max } = raw;
+  if (
+    (min !== undefined && typeof min !== 'number') ||
+    (max !== undefined && typeof max !== 'number')
+  ) {
+    throw invalid(`${path} bounds must be numbers`);
+  }
+
+  return {
+    ...(min !== undefined && { min }),
+    ...(max !== undefined && { max }),
+    weight: raw['weight'],
+    reason: raw['reason'],
+  };
+}
+
+function parseSignal(raw: unknown, path: string): SignalConfig {
+  if (!isRecord(raw) || !Array.isArray(raw['bands'])) {
+    throw invalid(`${path}.bands must be an array`);
+  }
+  const options = raw['options'];
+  if (options !== undefined && !isNumberRecord(options)) {
+    throw invalid(`${path}.options must map names to numbers`);
+  }
+
+  return {
+    bands: raw['bands'].map((band, index) => parseBand(band, `${path}.bands[${index}]`)),
+    ...(options !== undefined && { options }),
+  };
+}
+
+function parseShortcut(raw: unknown, path: string): VerificationShortcut {
+  if (!isRecord(raw) || (raw['level'] !== 1 && raw['level'] !== 2)) {
+    throw invalid(`${path}.level must be 1 or 2`);
+  }
+  if (!isNumberRecord(raw['requires']) || typeof raw['confidence'] !== 'number') {
+    throw invalid(`${path} needs a requires map and a numeric confidence`);
+  }
+  const bonus = raw['bonus'];
+  if (
+    bonus !== undefined &&
+    (!isRecord(bonus) || typeof bonus['signal'] !== 'string' || typeof bonus['weight'] !== 'number')
+  ) {
+    throw invalid(`${path}.bonus needs a signal and a numeric weight`);
+  }
+
+  return {
+    level: raw['level'],
+    requires: raw['requires'],
+    confidence: raw['confidence'],
+    ...(bonus !== undefined && {
+      bonus: { signal: bonus['signal'] as string, weight: bonus['weight'] as number },
+    }),
+  };
+}
+
+/**
+ * Validate a verifier config, filling anything missing from `base`
+ * Listed signals replace the base signal of the same name; shortcuts replace the base list.
+ * @throws Error describing the first invalid field
+ */
+export function parseVerifierConfig(raw: unknown, base?: VerifierConfig): VerifierConfig {
+  if (!isRecord(raw)) {
+    throw invalid('expected an object');
+  }
+
+  const { signals, shortcuts, threshold } = raw;
+  if (signals !== undefined && !isRecord(signals)) {
+    throw invalid('signals must be an object');
+  }
+  if (shortcuts !== undefined && !Array.isArray(shortcuts)) {
+    throw invalid('shortcuts must be an array');
+  }
+  if (threshold !== undefined && typeof threshold !== 'number') {
+    throw invalid('threshold must be a number');
+  }
+  if (!base && (signals === undefined || shortcuts === undefined || threshold === undefined)) {
+    throw invalid('signals, shortcuts and threshold are required');
+  }
+
+  return {
+    signals: {
+      ...base?.signals,
+      ...Object.fromEntries(
+        Object.entries(signals ?? {}).map(([name, signal]) => [
+          name,
+          parseSignal(signal, `signals.${name}`),
+        ])
+      ),
+    },
+    shortcuts:
+      shortcuts?.map((shortcut, index) => parseShortcut(shortcut, `shortcuts[${index}]`)) ??
+      base!.shortcuts,
+    threshold: threshold ?? base!.threshold,
+  };
+}
+
+/**
+ * Built-in weights and thresholds from config/verifier.json
+ */
+export const DEFAULT_VERIFIER_CONFIG: VerifierConfig = parseVerifierConfig(defaultConfig);
+
+/**
+ * Read a JSON config file on top of the defaults
+ * @throws Error if the file is missing or invalid
+ */
+export async function loadVerifierConfig(path: string): Promise<VerifierConfig> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new Error(`Verifier config not found: ${path}`);
+  }
+  return parseVerifierConfig(await file.json(), DEFAULT_VERIFIER_CONFIG);
+}
@@ -1,104 +1,81 @@
 import type {
   BilibiliUser,
+  BilibiliVideo,
   YouTubeChannel,
+  YouTubeVideo,
   VerificationResult,
   VerificationMetadata,
+  VerifierConfig,
 } from '../../types';
 import { BilibiliAPI } from '../api/bilibili';
 import { YouTubeAPI } from '../api/youtube';
+import { fetchImageHashes } from '../utils/perceptual-hash';
+import type { ImageHashes } from '../utils/perceptual-hash';
+import { fetchShortLink } from '../utils/link-extractor';
+import type { ShortLinkResolver } from '../utils/link-extractor';
+import { createDefaultSignals } from './signals';
+import type { SignalContext, SignalRegistry, SignalResult } from './signals';
+import { DEFAULT_VERIFIER_CONFIG } from './verifier-config';
 
-/**
- * String similarity using Levenshtein distance
- */
-function stringSimilarity(str1: string, str2: string): number {
-  const len1 = str1.length;
-  const len2 = str2.length;
-  const matrix: number[][] = [];
+/** Latest uploads compared on each platform */
+const VIDEO_SAMPLE_SIZE = 60;
 
-  for (let i = 0; i <= len1; i++) {
-    matrix[i] = [i];
-  }
-
-  for (let j = 0; j <= len2; j++) {
-    if (matrix[0]) {
-      matrix[0][j] = j;
-    }
-  }
-
-  for (let i = 1; i <= len1; i++) {
-    for (let j = 1; j <= len2; j++) {
-      const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-      const prevRow = matrix[i - 1];
-      const currRow = matrix[i];
-      const prevCell = currRow?.[j - 1];
-      const diagCell = prevRow?.[j - 1];
-      const prevRowCell = prevRow?.[j];
-
-      if (
-        currRow &&
-        prevRow &&
-        prevCell !== undefined &&
-        diagCell !== undefined &&
-        prevRowCell !== undefined
-      ) {
-        currRow[j] = Math.min(prevRowCell + 1, prevCell + 1, diagCell + cost);
-      }
-    }
-  }
-
-  const lastRow = matrix[len1];
-  const distance = lastRow?.[len2];
-  if (distance === undefined) return 0;
-
-  const maxLen = Math.max(len1, len2);
-  return 1 - distance / maxLen;
-}
+const BILIBILI_PAGE_SIZE = 30;
 
 /**
- * Normalize username for comparison
+ * Verifier tuning and extension points
  */
-function normalizeUsername(username: string): string {
-  return username
-    .toLowerCase()
-    .replace(/[_\-\s]/g, '')
-    .replace(/official|频道|channel/gi, '');
+export interface VerifierOptions {
+  /** Weights and thresholds; defaults to config/verifier.json */
+  config?: VerifierConfig;
+  /** Signals the config may refer to; defaults to the built-in ones */
+  signals?: SignalRegistry;
+  /** Downloads and hashes an avatar for the avatar signal */
+  loadImageHashes?: (url: string) => Promise<ImageHashes>;
+  /** Expands b23.tv links for the bio link signal */
+  resolveShortLink?: ShortLinkResolver;
 }
 
-/**
- * Check if bio contains cross-platform link
- */
-function checkBioMatch(
-  biliSign: string,
-  ytDescription: string,
-  biliUid: string,
-  ytChannelId: string
-): boolean {
-  const biliLower = biliSign.toLowerCase();
-  const ytLower = ytDescription.toLowerCase();
-
-  // Check if Bilibili bio mentions YouTube
-  const ytPatterns = [ytChannelId.toLowerCase(), 'youtube.com', 'youtu.be'];
-
-  const biliMentionsYt = ytPatterns.some(pattern => biliLower.includes(pattern));
-
-  // Check if YouTube description mentions Bilibili
-  const biliPatterns = [biliUid, 'bilibili.com', 'b站', 'b站空间'];
-
-  const ytMentionsBili = biliPatterns.some(pattern => ytLower.includes(pattern));
-
-  return biliMentionsYt || ytMentionsBili;
+function formatReason(reason: string, result: SignalResult): string {
+  return result.detail === undefined ? reason : `${reason}: ${result.detail}`;
 }
 
 /**
  * Multi-level user verification
+ * Shortcut levels are tried first; otherwise every configured signal adds the
+ * weight of its matching band to the Level 3 confidence.
  */
 export class UserVerifier {
   private biliApi: BilibiliAPI;
   private ytApi: YouTubeAPI;
+  private config: VerifierConfig;
+  private signals: SignalRegistry;
+  private loadImageHashes: (url: string) => Promise<ImageHashes>;
+  private resolveShortLink: ShortLinkResolver;
 
-  constructor(biliApi: BilibiliAPI, ytApi: YouTubeAPI) {
+  /**
+   * @throws Error if the config refers to a signal that is not registered
+   */
+  constructor(biliApi: BilibiliAPI, ytApi: YouTubeAPI, options: VerifierOptions = {}) {
     this.biliApi = biliApi;
     this.ytApi = ytApi;
+    this.config = options.config ?? DEFAULT_VERIFIER_CONFIG;
+    this.signals = options.signals ?? createDefaultSignals();
+    this.loadImageHashes = options.loadImageHashes ?? fetchImageHashes;
+    this.resolveShortLink = options.resolveShortLink ?? fetchShortLink;
+
+    const referenced = [
+      ...Object.keys(this.config.signals),
+      ...this.config.shortcuts.flatMap(shortcut => [
+        ...Object.keys(shortcut.requires),
+        ...(shortcut.bonus ? [shortcut.bonus.signal] : []),
+      ]),
+    ];
+    for (const name of referenced) {
+      if (!this.signals.has(name)) {
+        throw new Error(`Unknown verification signal "${name}" in verifier config`);
+      }
+    }
   }
 
   /**
@@ -116,112 +93,50 @@ export class UserVerifier {
           youtubeSubscribers: ytChannel.subscriberCount,
         }),
       };
-
-      // Level 1: YouTube verified + name match
-      if (ytChannel.verified) {
-        const nameSimilarity = stringSimilarity(
-          normalizeUsername(biliUser.name),
-          normalizeUsername(ytChannel.title)
-        );
-        metadata.usernameSimilarity = nameSimilarity;
-        metadata.youtubeVerified = true;
-
-        if (nameSimilarity >= 0.8) {
-          return {
-            success: true,
-            level: 1,
-            confidence: 0.95 + nameSimilarity * 0.05,
-            reasons: [
-              'YouTube channel is verified',
-              `Username similarity: ${(nameSimilarity * 100).toFixed(1)}%`,
-            ],
-            metadata,
-            mapping: this.createMapping(biliUser, ytChannel, 1, metadata),
-          };
+      const evaluate = this.createEvaluator(biliUser, ytChannel, metadata);
+
+      // Levels 1-2: a few decisive signals
+      for (const shortcut of this.config.shortcuts) {
+        const reasons: string[] = [];
+        for (const [name, min] of Object.entries(shortcut.requires)) {
+          const result = await evaluate(name);
+          if (!result || result.value < min) break;
+          reasons.push(formatReason(this.signals.get(name)!.label, result));
         }
-      }
+        if (reasons.length < Object.keys(shortcut.requires).length) continue;
 
-      // Level 2: Cross-platform bio mentions
-      const bioMatch = checkBioMatch(biliUser.sign, ytChannel.description, biliUid, ytChannelId);
-      metadata.bioMatch = bioMatch;
-
-      if (bioMatch) {
-        const nameSimilarity = stringSimilarity(
-          normalizeUsername(biliUser.name),
-          normalizeUsername(ytChannel.title)
-        );
-        metadata.usernameSimilarity = nameSimilarity;
+        const bonus = shortcut.bonus && (await evaluate(shortcut.bonus.signal));
+        const confidence = shortcut.confidence + (bonus ? bonus.value * shortcut.bonus!.weight : 0);
 
         return {
           success: true,
-          level: 2,
-          confidence: 0.85,
-          reasons: [
-            'Cross-platform bio mentions detected',
-            bioMatch ? 'Bio contains platform link' : '',
-          ].filter(Boolean),
+          level: shortcut.level,
+          confidence,
+          reasons,
           metadata,
-          mapping: this.createMapping(biliUser, ytChannel, 2, metadata),
+          mapping: this.createMapping(biliUser, ytChannel, shortcut.level, metadata),
         };
       }
 
-      // Level 3: Similarity-based verification
-      const nameSimilarity = stringSimilarity(
-        normalizeUsername(biliUser.name),
-        normalizeUsername(ytChannel.title)
-      );
-      metadata.usernameSimilarity = nameSimilarity;
-
-      // Get recent videos for comparison
-      const biliVideos = await this.biliApi.getUserVideos(biliUid, 1, 10);
-      const ytVideos = await this.ytApi.getChannelVideos(ytChannelId, 10);
-
-      let matchingVideos = 0;
-      for (const biliVideo of biliVideos) {
-        for (const ytVideo of ytVideos) {
-          const titleSimilarity = stringSimilarity(
-            biliVideo.title.toLowerCase(),
-            ytVideo.title.toLowerCase()
-          );
-          if (titleSimilarity >= 0.7) {
-            matchingVideos++;
-            break;
-          }
-        }
-      }
-      metadata.matchingVideos = matchingVideos;
-
-      // Check follower ratio
-      const followerRatio = ytChannel.subscriberCount! / biliUser.follower;
-      const followerRatioValid = followerRatio >= 0.5 && followerRatio <= 2.0;
-
-      // Calculate confidence score
+      // Level 3: weighted signals
       let confidence = 0;
       const reasons: string[] = [];
 
-      if (nameSimilarity >= 0.8) {
-        confidence += 0.4;
-        reasons.push(`High username similarity: ${(nameSimilarity * 100).toFixed(1)}%`);
-      } else if (nameSimilarity >= 0.6) {
-        confidence += 0.2;
-        reasons.push(`Moderate username similarity: ${(nameSimilarity * 100).toFixed(1)}%`);
-      }
-
-      if (matchingVideos >= 3) {
-        confidence += 0.3;
-        reasons.push(`${matchingVideos} matching video titles`);
-      } else if (matchingVideos >= 1) {
-        confidence += 0.15;
-        reasons.push(`${matchingVideos} matching video title(s)`);
-      }
+      for (const [name, { bands }] of Object.entries(this.config.signals)) {
+        const result = await evaluate(name);
+        if (!result) continue;
 
-      if (followerRatioValid) {
-        confidence += 0.15;
-        reasons.push('Follower count ratio is reasonable');
+        const band = bands.find(
+          ({ min = -Infinity, max = Infinity }) => result.value >= min && result.value <= max
+        );
+        if (band) {
+          confidence += band.weight;
+          reasons.push(formatReason(band.reason, result));
+        }
       }
+      confidence = Math.min(confidence, 1);
 
-      // Level 3 requires confidence >= 0.7
-      if (confidence >= 0.7) {
+      if (confidence >= this.config.threshold) {
         return {
           success: true,
           level: 3,
@@ -255,6 +170,75 @@ export class UserVerifier {
     }
   }
 
+  /**
+   * Measure every registered signal for a pair, including those verify() would skip
+   * @returns Each signal's result by name, null where it could not be measured
+   */
+  async measureSignals(
+    biliUid: string,
+    ytChannelId: string
+  ): Promise<Record<string, SignalResult | null>> {
+    const biliUser = await this.biliApi.getUserInfo(biliUid);
+    const ytChannel = await this.ytApi.getChannel(ytChannelId);
+    const evaluate = this.createEvaluator(biliUser, ytChannel, {});
+
+    const results: Record<string, SignalResult | null> = {};
+    for (const name of this.signals.names()) {
+      results[name] = await evaluate(name);
+    }
+    return results;
+  }
+
+  /**
+   * Page through a user's latest uploads until the sample is full or the list ends
+   */
+  private async getRecentBiliVideos(uid: string): Promise<BilibiliVideo[]> {
+    const videos: BilibiliVideo[] = [];
+    for (let page = 1; videos.length < VIDEO_SAMPLE_SIZE; page++) {
+      const pageVideos = await this.biliApi.getUserVideos(uid, page, BILIBILI_PAGE_SIZE);
+      videos.push(...pageVideos);
+      if (pageVideos.length < BILIBILI_PAGE_SIZE) break;
+    }
+    return videos.slice(0, VIDEO_SAMPLE_SIZE);
+  }
+
+  /**
+   * Evaluate signals on demand, each at most once, recording their metadata
+   */
+  private createEvaluator(
+    biliUser: BilibiliUser,
+    ytChannel: YouTubeChannel,
+    metadata: VerificationMetadata
+  ): (name: string) => Promise<SignalResult | null> {
+    let biliVideos: Promise<BilibiliVideo[]> | undefined;
+    let ytVideos: Promise<YouTubeVideo[]> | undefined;
+    let ytLinks: Promise<string[]> | undefined;
+    const context: SignalContext = {
+      biliUser,
+      ytChannel,
+      getBiliVideos: () => (biliVideos ??= this.getRecentBiliVideos(biliUser.uid)),
+      getYtVideos: () =>
+        (ytVideos ??= this.ytApi.getChannelVideos(ytChannel.id, VIDEO_SAMPLE_SIZE)),
+      getYtLinks: () => (ytLinks ??= this.ytApi.getChannelLinks(ytChannel.id)),
+      loadImageHashes: this.loadImageHashes,
+      resolveShortLink: this.resolveShortLink,
+    };
+
+    const results = new Map<string, Promise<SignalResult | null>>();
+    return name => {
+      let result = results.get(name);
+      if (!result) {
+        const signal = this.signals.get(name)!;
+        result = signal.evaluate(context, this.config.signals[name]?.options ?? {}).then(value => {
+          if (value?.metadata) Object.assign(metadata, value.metadata);
+          return value;
+        });
+        results.set(name, result);
+      }
+      return result;
+    };
+  }
+
   /**
    * Create user mapping from verification result
    */
@@ -270,6 +254,7 @@ export class UserVerifier {
       bilibiliAvatar: biliUser.face,
       youtubeChannelId: ytChannel.id,
       youtubeChannelName: ytChannel.title,
+      ...(ytChannel.customUrl && { youtubeHandle: ytChannel.customUrl }),
       youtubeAvatar: ytChannel.thumbnails.high,
       verificationLevel: level,
       verifiedAt: new Date().toISOString(),
@@ -1,6 +1,7 @@
 import { BilibiliAPI } from '../api/bilibili';
 import { YouTubeAPI } from '../api/youtube';
 import { UserVerifier } from './verifier';
+import { loadVerifierConfig } from './verifier-config';
 import { createShardManagers } from '../storage/shard-manager';
 import type { VerificationResult } from '../../types';
 
@@ -11,6 +12,7 @@ export async function main() {
   const sessdata = process.env['BILIBILI_SESSDATA'];
   const youtubeApiKey = process.env['YOUTUBE_API_KEY'];
   const usersJson = process.env['USERS_JSON'];
+  const configPath = process.env['VERIFIER_CONFIG'];
 
   if (!youtubeApiKey) {
     throw new Error('YOUTUBE_API_KEY environment variable is required');
@@ -24,7 +26,9 @@ export async function main() {
 
   const biliApi = new BilibiliAPI(sessdata);
   const ytApi = new YouTubeAPI(youtubeApiKey);
-  const verifier = new UserVerifier(biliApi, ytApi);
+  const verifier = new UserVerifier(biliApi, ytApi, {
+    ...(configPath && { config: await loadVerifierConfig(configPath) }),
+  });
   const shardManagers = createShardManagers();
 
   const results: Array<VerificationResult & { issueNumber?: number }> = [];
@@ -33,7 +37,8 @@ export async function main() {
     console.log(`Verifying ${user.uid} -> ${user.ytChannelId || 'searching...'}`);
 
     try {
-      let ytChannelId = user.ytChannelId;
+      // Submissions may give a channel URL or handle instead of the ID
+      let ytChannelId = user.ytChannelId && (await ytApi.resolveChannelId(user.ytChannelId));
 
       // If no YouTube channel ID provided, search for it
       if (!ytChannelId) {
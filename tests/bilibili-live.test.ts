@@ -0,0 +1,323 @@
+import { describe, test, expect } from 'bun:test';
+import { brotliDecompressSync, inflateSync } from 'node:zlib';
+import {
+  LiveOperation,
+  decodePackets,
+  encodeAuthPacket,
+  encodeHeartbeatPacket,
+  encodePacket,
+  liveDanmakuToBilibili,
+  parseDanmuMsg,
+  readJsonBody,
+  readPopularity,
+  splitPackets,
+} from '../src/api/live-protocol';
+import { BilibiliLiveClient } from '../src/api/bilibili-live';
+import type { LiveSocket } from '../src/api/bilibili-live';
+import type { LiveDanmaku } from '../src/api/live-protocol';
+
+const FIXTURE_DIR = `${import.meta.dir}/fixtures/live`;
+
+async function loadFixture(name: string): Promise<Uint8Array> {
+  return new Uint8Array(await Bun.file(`${FIXTURE_DIR}/${name}`).arrayBuffer());
+}
+
+// Decompressor as a Node or Bun host would inject it
+const nodeDecompress = (body: Uint8Array, protover: number) =>
+  new Uint8Array(protover === 3 ? brotliDecompressSync(body) : inflateSync(body));
+
+// Let queued message handling and decompression finish
+const settle = () => Bun.sleep(20);
+
+/**
+ * Local stand-in for the browser WebSocket
+ */
+class FakeSocket implements LiveSocket {
+  binaryType = 'blob';
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  sent: Uint8Array[] = [];
+  closed = false;
+
+  constructor(public url: string) {}
+
+  send(data: Uint8Array): void {
+    this.sent.push(data);
+  }
+  close(): void {
+    this.closed = true;
+  }
+
+  open(): void {
+    this.onopen?.(new Event('open'));
+  }
+  receive(data: Uint8Array): void {
+    this.onmessage?.(new MessageEvent('message', { data: data.slice().buffer }));
+  }
+  drop(): void {
+    this.onclose?.(new CloseEvent('close'));
+  }
+
+  sentOps(): number[] {
+    return this.sent.flatMap(data => splitPackets(data).map(packet => packet.op));
+  }
+}
+
+function createClient(
+  handlers: ConstructorParameters<typeof BilibiliLiveClient>[1] = {},
+  options: Partial<ConstructorParameters<typeof BilibiliLiveClient>[0]> = {}
+) {
+  const sockets: FakeSocket[] = [];
+  const client = new BilibiliLiveClient(
+    {
+      roomId: 21452505,
+      token: 'token-123',
+      url: 'wss://example.test/sub',
+      heartbeatInterval: 10,
+      reconnectDelay: 0,
+      createSocket: url => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket;
+      },
+      ...options,
+    },
+    handlers
+  );
+  return { client, sockets };
+}
+
+describe('live protocol codec', () => {
+  test('should write the 16-byte big-endian header', () => {
+    const packet = encodePacket(LiveOperation.AUTH, '{}', 1, 7);
+
+    expect([...packet.subarray(0, 16)]).toEqual([0, 0, 0, 18, 0, 16, 0, 1, 0, 0, 0, 7, 0, 0, 0, 7]);
+    expect(new TextDecoder().decode(packet.subarray(16))).toBe('{}');
+  });
+
+  test('should round-trip auth and heartbeat packets', () => {
+    const auth = encodeAuthPacket({
+      uid: 0,
+      roomid: 21452505,
+      protover: 2,
+      platform: 'web',
+      type: 2,
+      key: 'token-123',
+    });
+    const [packet] = splitPackets(auth);
+
+    expect(packet?.op).toBe(LiveOperation.AUTH);
+    expect(readJsonBody(packet!)).toMatchObject({
+      roomid: 21452505,
+      protover: 2,
+      key: 'token-123',
+    });
+    expect(splitPackets(encodeHeartbeatPacket())[0]?.op).toBe(LiveOperation.HEARTBEAT);
+  });
+
+  test('should split a message holding several packets', async () => {
+    const packets = splitPackets(await loadFixture('heartbeat-reply.bin'));
+
+    expect(packets.map(packet => packet.op)).toEqual([
+      LiveOperation.HEARTBEAT_REPLY,
+      LiveOperation.COMMAND,
+    ]);
+    expect(readPopularity(packets[0]!)).toBe(4821);
+    expect(readJsonBody(packets[1]!).cmd).toBe('WATCHED_CHANGE');
+  });
+
+  test('should expand zlib batches with the default decompressor', async () => {
+    const packets = await decodePackets(await loadFixture('command-zlib.bin'));
+
+    expect(packets.map(packet => readJsonBody(packet).cmd)).toEqual([
+      'DANMU_MSG:4:0:2:2:2:0',
+      'INTERACT_WORD',
+      'DANMU_MSG',
+    ]);
+  });
+
+  test('should expand brotli batches with an injected decompressor', async () => {
+    const packets = await decodePackets(await loadFixture('command-brotli.bin'), nodeDecompress);
+    expect(packets).toHaveLength(3);
+  });
+
+  test('should refuse brotli without a decompressor', async () => {
+    await expect(decodePackets(await loadFixture('command-brotli.bin'))).rejects.toThrow('Brotli');
+  });
+
+  test('should reject truncated or inconsistent packets', async () => {
+    const frame = await loadFixture('auth-reply.bin');
+
+    expect(() => splitPackets(frame.subarray(0, 10))).toThrow('Truncated');
+    expect(() => splitPackets(frame.subarray(0, 20))).toThrow('Malformed');
+  });
+});
+
+describe('parseDanmuMsg', () => {
+  test('should read text, style and sender', async () => {
+    const [command] = await decodePackets(await loadFixture('command-zlib.bin'));
+
+    expect(parseDanmuMsg(readJsonBody(command!))).toEqual({
+      text: '前方高能',
+      mode: 1,
+      size: 25,
+      color: 16777215,
+      timestamp: 1717243200123,
+      uid: 12345678,
+      uname: '观众A',
+    });
+  });
+
+  test('should ignore other commands and unexpected shapes', () => {
+    expect(parseDanmuMsg({ cmd: 'INTERACT_WORD', data: {} })).toBeNull();
+    expect(parseDanmuMsg({ cmd: 'DANMU_MSG_MIRROR', info: [] })).toBeNull();
+    expect(parseDanmuMsg({ cmd: 'DANMU_MSG', info: [[], 42, []] })).toBeNull();
+    expect(parseDanmuMsg(null)).toBeNull();
+  });
+
+  test('should place live danmaku at the given player time', () => {
+    const danmaku: LiveDanmaku = {
+      text: 'hi',
+      mode: 5,
+      size: 25,
+      color: 0xff0000,
+      timestamp: 1717243201456,
+      uid: 1,
+      uname: 'a',
+    };
+
+    expect(liveDanmakuToBilibili(danmaku, 42.5)).toMatchObject({
+      time: 42.5,
+      type: 5,
+      color: 0xff0000,
+      timestamp: 1717243201,
+      content: 'hi',
+    });
+  });
+});
+
+describe('BilibiliLiveClient', () => {
+  test('should authenticate when the socket opens', () => {
+    const { client, sockets } = createClient({}, { uid: 42, buvid: 'buvid-1' });
+    client.connect();
+    const [socket] = sockets;
+    socket!.open();
+
+    expect(socket!.url).toBe('wss://example.test/sub');
+    expect(socket!.binaryType).toBe('arraybuffer');
+    const [auth] = splitPackets(socket!.sent[0]!);
+    expect(auth?.op).toBe(LiveOperation.AUTH);
+    expect(readJsonBody(auth!)).toEqual({
+      uid: 42,
+      roomid: 21452505,
+      protover: 2,
+      buvid: 'buvid-1',
+      platform: 'web',
+      type: 2,
+      key: 'token-123',
+    });
+    client.close();
+  });
+
+  test('should send heartbeats after authenticating until closed', async () => {
+    let authenticated = false;
+    const { client, sockets } = createClient({ onAuthenticated: () => (authenticated = true) });
+    client.connect();
+    const socket = sockets[0]!;
+    socket.open();
+    socket.receive(await loadFixture('auth-reply.bin'));
+    await settle();
+
+    expect(authenticated).toBe(true);
+    expect(client.connected).toBe(true);
+    expect(socket.sentOps().filter(op => op === LiveOperation.HEARTBEAT).length).toBeGreaterThan(1);
+
+    client.close();
+    const sent = socket.sent.length;
+    await settle();
+    expect(socket.sent.length).toBe(sent);
+    expect(socket.closed).toBe(true);
+  });
+
+  test('should stream danmaku, commands and popularity in order', async () => {
+    const received: string[] = [];
+    const commands: string[] = [];
+    const popularity: number[] = [];
+    const { client, sockets } = createClient(
+      {
+        onDanmaku: danmaku => received.push(danmaku.text),
+        onCommand: command => commands.push((command as { cmd: string }).cmd),
+        onPopularity: value => popularity.push(value),
+      },
+      { protover: 3, decompress: nodeDecompress }
+    );
+    client.connect();
+    const socket = sockets[0]!;
+    socket.receive(await loadFixture('command-zlib.bin'));
+    socket.receive(await loadFixture('command-brotli.bin'));
+    socket.receive(await loadFixture('heartbeat-reply.bin'));
+    await settle();
+
+    expect(received).toEqual(['前方高能', '置顶弹幕', '前方高能', '置顶弹幕']);
+    expect(commands).toHaveLength(7);
+    expect(popularity).toEqual([4821]);
+    client.close();
+  });
+
+  test('should give up when authentication is refused', async () => {
+    let disconnected = false;
+    const { client, sockets } = createClient(
+      { onDisconnect: () => (disconnected = true) },
+      { reconnectDelay: 5 }
+    );
+    client.connect();
+    sockets[0]!.receive(encodePacket(LiveOperation.AUTH_REPLY, '{"code":-101}'));
+    await settle();
+
+    expect(client.connected).toBe(false);
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0]!.closed).toBe(true);
+    expect(disconnected).toBe(false);
+  });
+
+  test('should reconnect after the connection drops', async () => {
+    let disconnects = 0;
+    const { client, sockets } = createClient(
+      { onDisconnect: () => disconnects++ },
+      { reconnectDelay: 5 }
+    );
+    client.connect();
+    sockets[0]!.drop();
+    await settle();
+
+    expect(disconnects).toBe(1);
+    expect(sockets).toHaveLength(2);
+
+    client.close();
+    sockets[1]!.drop();
+    await settle();
+    expect(sockets).toHaveLength(2);
+  });
+
+  test('should keep going after an undecodable message', async () => {
+    const received: string[] = [];
+    const { client, sockets } = createClient({ onDanmaku: danmaku => received.push(danmaku.text) });
+    client.connect();
+    const socket = sockets[0]!;
+
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      socket.receive(new Uint8Array([0, 0, 0, 99, 0, 16]));
+      socket.receive(await loadFixture('command-zlib.bin'));
+      await settle();
+    } finally {
+      console.error = originalError;
+    }
+
+    expect(received).toEqual(['前方高能', '置顶弹幕']);
+    client.close();
+  });
+});
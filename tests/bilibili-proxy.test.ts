@@ -0,0 +1,86 @@
+import { describe, test, expect } from 'bun:test';
+import { createProxyFetch, handleBilibiliFetch, isBilibiliUrl } from '../src/api/bilibili-proxy';
+import type { BilibiliFetch, BilibiliFetchRequest } from '../src/api/bilibili-proxy';
+import { BilibiliAPI } from '../src/api/bilibili';
+
+const FIXTURE_DIR = `${import.meta.dir}/fixtures/danmaku`;
+
+/**
+ * Proxy fetch wired straight to the background handler, as runtime messaging would
+ */
+function connectProxy(backgroundFetch: BilibiliFetch) {
+  const requests: BilibiliFetchRequest[] = [];
+  const proxyFetch = createProxyFetch(request => {
+    requests.push(request);
+    // Messages only carry JSON
+    return handleBilibiliFetch(request, backgroundFetch).then(reply =>
+      JSON.parse(JSON.stringify(reply))
+    );
+  });
+  return { requests, proxyFetch };
+}
+
+describe('isBilibiliUrl', () => {
+  test('should only accept Bilibili hosts over HTTPS', () => {
+    expect(isBilibiliUrl('https://api.bilibili.com/x/web-interface/nav')).toBe(true);
+    expect(isBilibiliUrl('https://api.live.bilibili.com/room/v1/Room/getRoomInfoOld')).toBe(true);
+    expect(isBilibiliUrl('http://api.bilibili.com/x/web-interface/nav')).toBe(false);
+    expect(isBilibiliUrl('https://bilibili.com.example.org/')).toBe(false);
+    expect(isBilibiliUrl('https://evilbilibili.com/')).toBe(false);
+    expect(isBilibiliUrl('not a url')).toBe(false);
+  });
+});
+
+describe('Bilibili proxy', () => {
+  test('should pass binary bodies through intact', async () => {
+    const segment = new Uint8Array(await Bun.file(`${FIXTURE_DIR}/seg-1.bin`).arrayBuffer());
+    const { proxyFetch } = connectProxy(async () => new Response(segment, { status: 200 }));
+
+    const danmaku = await new BilibiliAPI(undefined, proxyFetch).getDanmakuSegment(123, 1);
+
+    expect(danmaku).toHaveLength(5);
+  });
+
+  test('should keep the status of failed responses', async () => {
+    const { proxyFetch } = connectProxy(
+      async () => new Response('', { status: 412, statusText: 'Precondition Failed' })
+    );
+
+    await expect(new BilibiliAPI(undefined, proxyFetch).getDanmakuSegment(123, 1)).rejects.toThrow(
+      'Precondition Failed'
+    );
+  });
+
+  test('should refuse to fetch other hosts', async () => {
+    let fetched = false;
+    const { proxyFetch } = connectProxy(async () => {
+      fetched = true;
+      return new Response('');
+    });
+
+    await expect(proxyFetch('https://example.com/')).rejects.toThrow('Not a Bilibili URL');
+    expect(fetched).toBe(false);
+  });
+
+  test('should reject when the background fetch fails', async () => {
+    const { proxyFetch } = connectProxy(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+
+    await expect(proxyFetch('https://api.bilibili.com/x/web-interface/nav')).rejects.toThrow(
+      'Failed to fetch'
+    );
+  });
+
+  test('should leave forbidden headers to the browser', async () => {
+    const sent: (RequestInit | undefined)[] = [];
+    const fetcher: BilibiliFetch = async (_url, init) => {
+      sent.push(init);
+      return new Response(JSON.stringify({ code: 0, data: { bvid: 'BV1xx411c7mD' } }));
+    };
+
+    await new BilibiliAPI(undefined, fetcher).getVideoInfo('BV1xx411c7mD');
+
+    expect(sent[0]?.headers).toEqual({});
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  RecordedBilibiliAPI,
+  RecordedYouTubeAPI,
+  buildReport,
+  confusionStats,
+  createRecordedImageHashes,
+  createRecordedShortLinks,
+  evaluatePairs,
+  rocCurve,
+} from '../src/workflows/calibration';
+import type { ApiRecordings, CalibrationDataset } from '../src/workflows/calibration';
+import { UserVerifier } from '../src/workflows/verifier';
+import { DEFAULT_VERIFIER_CONFIG } from '../src/workflows/verifier-config';
+
+async function loadDataset(): Promise<CalibrationDataset> {
+  return Bun.file(`${import.meta.dir}/../calibration/dataset.json`).json();
+}
+
+function createVerifier(recordings: ApiRecordings): UserVerifier {
+  return new UserVerifier(new RecordedBilibiliAPI(recordings), new RecordedYouTubeAPI(recordings), {
+    loadImageHashes: createRecordedImageHashes(recordings),
+    resolveShortLink: createRecordedShortLinks(recordings),
+  });
+}
+
+describe('calibration metrics', () => {
+  test('should count confusion outcomes', () => {
+    const stats = confusionStats([
+      { predicted: true, isMatch: true },
+      { predicted: true, isMatch: false },
+      { predicted: false, isMatch: true },
+      { predicted: false, isMatch: true },
+      { predicted: false, isMatch: false },
+    ]);
+
+    expect(stats).toEqual({
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 2,
+      trueNegatives: 1,
+      precision: 0.5,
+      recall: 1 / 3,
+    });
+    expect(confusionStats([{ predicted: false, isMatch: true }]).precision).toBe(1);
+  });
+
+  test('should trace the ROC curve and its area', () => {
+    const perfect = rocCurve([
+      { score: 0.9, isMatch: true },
+      { score: 0.8, isMatch: true },
+      { score: 0.2, isMatch: false },
+    ]);
+    expect(perfect.points).toEqual([
+      [0, 0],
+      [0, 0.5],
+      [0, 1],
+      [1, 1],
+    ]);
+    expect(perfect.auc).toBe(1);
+
+    // Tied scores move diagonally
+    const tied = rocCurve([
+      { score: 0.5, isMatch: true },
+      { score: 0.5, isMatch: false },
+    ]);
+    expect(tied.points).toEqual([
+      [0, 0],
+      [1, 1],
+    ]);
+    expect(tied.auc).toBe(0.5);
+
+    expect(rocCurve([{ score: 1, isMatch: true }]).auc).toBeNull();
+  });
+});
+
+describe('recorded APIs', () => {
+  test('should replay recordings and page through videos', async () => {
+    const { recordings } = await loadDataset();
+    const biliApi = new RecordedBilibiliAPI(recordings);
+
+    expect((await biliApi.getUserInfo('10001')).name).toBe('MoonlitKitchen');
+    expect(await biliApi.getUserVideos('10004', 2, 3)).toEqual(
+      recordings.bilibiliVideos['10004']!.slice(3, 6)
+    );
+    expect(
+      await new RecordedYouTubeAPI(recordings).getChannelVideos('UCpixelfox00000000000003', 1)
+    ).toHaveLength(1);
+  });
+
+  test('should reject anything not recorded', async () => {
+    const { recordings } = await loadDataset();
+
+    await expect(new RecordedBilibiliAPI(recordings).getUserInfo('1')).rejects.toThrow(
+      'No recorded Bilibili user'
+    );
+    await expect(new RecordedYouTubeAPI(recordings).getChannel('UCnope')).rejects.toThrow(
+      '--record'
+    );
+    await expect(createRecordedImageHashes(recordings)('https://img.test/a.jpg')).rejects.toThrow(
+      'No recorded image'
+    );
+    await expect(createRecordedShortLinks(recordings)('https://b23.tv/nope')).rejects.toThrow(
+      'No recorded short link'
+    );
+  });
+
+  test('should record what the source returns', async () => {
+    const recordings: ApiRecordings = {
+      bilibiliUsers: {},
+      bilibiliVideos: {},
+      youtubeChannels: {},
+      youtubeVideos: {},
+      youtubeLinks: {},
+      shortLinks: {},
+      imageHashes: {},
+    };
+    const { recordings: source } = await loadDataset();
+    const biliApi = new RecordedBilibiliAPI(recordings, new RecordedBilibiliAPI(source));
+
+    await biliApi.getUserInfo('10004');
+    await biliApi.getUserVideos('10004', 1, 2);
+    await biliApi.getUserVideos('10004', 2, 2);
+
+    expect(recordings.bilibiliUsers['10004']).toEqual(source.bilibiliUsers['10004']!);
+    expect(recordings.bilibiliVideos['10004']).toEqual(source.bilibiliVideos['10004']!.slice(0, 4));
+  });
+});
+
+describe('calibration report', () => {
+  test('should report levels, signals and mistakes for the recorded dataset', async () => {
+    const dataset = await loadDataset();
+    const evaluations = await evaluatePairs(createVerifier(dataset.recordings), dataset.pairs);
+    const report = buildReport(evaluations, DEFAULT_VERIFIER_CONFIG);
+
+    expect(report.pairs).toBe(dataset.pairs.length);
+    expect(report.matches).toBe(dataset.pairs.filter(pair => pair.isMatch).length);
+    expect(report.levels.map(({ level }) => level)).toEqual([1, 2, 3]);
+    expect(report.levels.reduce((sum, { accepted }) => sum + accepted, 0)).toBe(
+      report.overall.truePositives + report.overall.falsePositives
+    );
+    expect(report.signals.map(({ name }) => name)).toContain('avatarHash');
+    expect(report.mistakes).toHaveLength(
+      report.overall.falsePositives + report.overall.falseNegatives
+    );
+    expect(report.overall.precision).toBeGreaterThanOrEqual(dataset.minPrecision);
+  });
+
+  test('should measure signals a shortcut level skipped', async () => {
+    const dataset = await loadDataset();
+    const [evaluation] = await evaluatePairs(createVerifier(dataset.recordings), [
+      { biliUid: '10001', ytChannelId: 'UCmoonlitkitchen00000001', isMatch: true },
+    ]);
+
+    expect(evaluation!.result.level).toBe(1);
+    expect(evaluation!.signals['videoOverlap']).toBe(3);
+    expect(evaluation!.signals['avatarHash']).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect } from 'bun:test';
+import { parseAdvancedDanmaku } from '../src/api/danmaku-advanced';
+import { decodeDmSegMobileReply, toBilibiliDanmaku } from '../src/api/danmaku-proto';
+import { parseDanmakuXml } from '../src/api/danmaku-xml';
+import { advancedFrameAt } from '../src/danmaku/advanced';
+import type { AdvancedDanmaku } from '../types';
+
+function createAdvanced(overrides: Partial<AdvancedDanmaku> = {}): AdvancedDanmaku {
+  return {
+    text: 'hello',
+    start: { x: 0, y: 0 },
+    end: { x: 1, y: 1 },
+    alphaFrom: 1,
+    alphaTo: 0,
+    duration: 4,
+    moveDelay: 1,
+    moveDuration: 2,
+    rotateZ: 0,
+    rotateY: 0,
+    stroke: true,
+    linear: true,
+    ...overrides,
+  };
+}
+
+describe('parseAdvancedDanmaku', () => {
+  test('should parse a full payload', () => {
+    const advanced = parseAdvancedDanmaku(
+      '["0.1","0.2","1-0.5","3.5","line1/nline2",30,45,"0.9","0.8",1500,500,0,"SimHei",1]'
+    );
+
+    expect(advanced).toEqual({
+      text: 'line1\nline2',
+      start: { x: 0.1, y: 0.2 },
+      end: { x: 0.9, y: 0.8 },
+      alphaFrom: 1,
+      alphaTo: 0.5,
+      duration: 3.5,
+      moveDelay: 0.5,
+      moveDuration: 1.5,
+      rotateZ: 30,
+      rotateY: 45,
+      stroke: false,
+      fontFamily: 'SimHei',
+      linear: true,
+    });
+  });
+
+  test('should convert pixel coordinates using the reference player size', () => {
+    const advanced = parseAdvancedDanmaku('[336,219,"1-1",4,"px"]');
+
+    expect(advanced?.start.x).toBeCloseTo(0.5);
+    expect(advanced?.start.y).toBeCloseTo(0.5);
+  });
+
+  test('should default to a static, opaque, outlined item', () => {
+    const advanced = parseAdvancedDanmaku('[0.5,0.5,1,2,"static"]');
+
+    expect(advanced).toMatchObject({
+      end: { x: 0.5, y: 0.5 },
+      alphaFrom: 1,
+      alphaTo: 1,
+      moveDuration: 2,
+      moveDelay: 0,
+      stroke: true,
+      linear: false,
+    });
+    expect(advanced?.path).toBeUndefined();
+  });
+
+  test('should parse motion paths', () => {
+    const advanced = parseAdvancedDanmaku(
+      '[0,0,"1-1",4,"path",0,0,0,0,4000,0,1,"",1,"M0,0L336,219L672,438"]'
+    );
+
+    expect(advanced?.path).toHaveLength(3);
+    expect(advanced?.path?.[1]?.x).toBeCloseTo(0.5);
+    expect(advanced?.path?.[2]?.y).toBeCloseTo(1);
+  });
+
+  test('should reject content that is not a payload', () => {
+    expect(parseAdvancedDanmaku('plain text')).toBeNull();
+    expect(parseAdvancedDanmaku('{"x":1}')).toBeNull();
+    expect(parseAdvancedDanmaku('[0,0,1,2]')).toBeNull();
+  });
+
+  test('should be attached by the XML and protobuf parsers', async () => {
+    const { danmaku } = parseDanmakuXml(
+      `<i><d p="1,7,25,0,0,0,abc,1">[0.5,0.5,"1-0",2,"xml"]</d><d p="2,7,25,0,0,0,abc,2">broken</d></i>`
+    );
+    expect(danmaku[0]?.advanced?.text).toBe('xml');
+    expect(danmaku[1]?.advanced).toBeUndefined();
+
+    const buffer = await Bun.file(`${import.meta.dir}/fixtures/danmaku/seg-1.bin`).arrayBuffer();
+    const fromProto = toBilibiliDanmaku(decodeDmSegMobileReply(new Uint8Array(buffer)));
+    expect(fromProto.find(item => item.type === 7)?.advanced?.text).toBe('advanced');
+  });
+});
+
+describe('advancedFrameAt', () => {
+  test('should hold the start position until the move delay has passed', () => {
+    const frame = advancedFrameAt(createAdvanced(), 0.5, 800, 400);
+    expect(frame.x).toBe(0);
+    expect(frame.y).toBe(0);
+  });
+
+  test('should move linearly and fade over the lifetime', () => {
+    const frame = advancedFrameAt(createAdvanced(), 2, 800, 400);
+
+    expect(frame.x).toBe(400);
+    expect(frame.y).toBe(200);
+    expect(frame.alpha).toBe(0.5);
+  });
+
+  test('should ease out when the movement is not linear', () => {
+    const frame = advancedFrameAt(createAdvanced({ linear: false }), 2, 800, 400);
+    expect(frame.x).toBe(600);
+  });
+
+  test('should stop at the end position', () => {
+    const frame = advancedFrameAt(createAdvanced(), 10, 800, 400);
+
+    expect(frame.x).toBe(800);
+    expect(frame.alpha).toBe(0);
+  });
+
+  test('should follow a motion path', () => {
+    const advanced = createAdvanced({
+      path: [
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+        { x: 1, y: 1 },
+      ],
+      moveDelay: 0,
+      moveDuration: 4,
+    });
+
+    expect(advancedFrameAt(advanced, 2, 800, 400)).toMatchObject({ x: 800, y: 0 });
+    expect(advancedFrameAt(advanced, 3, 800, 400)).toMatchObject({ x: 800, y: 200 });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, test, expect } from 'bun:test';
+import { commentsToDanmaku, extractTimestamps } from '../src/danmaku/comments';
+import type { YouTubeComment } from '../types';
+
+function createComment(text: string, id = text): YouTubeComment {
+  return {
+    id,
+    text,
+    author: '@viewer',
+    publishedAt: '2024-06-01T12:00:00Z',
+    likeCount: 0,
+  };
+}
+
+function times(text: string): number[] {
+  return extractTimestamps(text).map(stamp => stamp.time);
+}
+
+describe('extractTimestamps', () => {
+  test('should read m:ss, mm:ss and h:mm:ss', () => {
+    expect(times('3:15 lol')).toEqual([195]);
+    expect(times('12:05')).toEqual([725]);
+    expect(times('at 1:02:33 he says it')).toEqual([3753]);
+    expect(times('0:00')).toEqual([0]);
+  });
+
+  test('should find every timestamp with its position', () => {
+    expect(extractTimestamps('1:00 and 2:30')).toEqual([
+      { time: 60, start: 0, end: 4 },
+      { time: 150, start: 9, end: 13 },
+    ]);
+  });
+
+  test('should accept full-width colons and digits', () => {
+    expect(times('３：１５ 笑死')).toEqual([195]);
+    expect(times('1：02：33')).toEqual([3753]);
+    expect(times('在12:05的时候')).toEqual([725]);
+  });
+
+  test('should accept minutes past the hour without an hour part', () => {
+    expect(times('75:30')).toEqual([4530]);
+  });
+
+  test('should reject impossible times', () => {
+    expect(times('3:75')).toEqual([]);
+    expect(times('1:60:00')).toEqual([]);
+    expect(times('1:2:33')).toEqual([]);
+    expect(times('100:00')).toEqual([]);
+  });
+
+  test('should not mistake other numbers for times', () => {
+    expect(times('16:9 aspect ratio')).toEqual([]);
+    expect(times('version 1.2.3')).toEqual([]);
+    expect(times('10:30:45:12')).toEqual([]);
+    expect(times('1.5:30')).toEqual([]);
+    expect(times('12:30.5s')).toEqual([]);
+    expect(times('great video')).toEqual([]);
+  });
+
+  test('should allow punctuation around a timestamp', () => {
+    expect(times('(3:15) and 4:20!')).toEqual([195, 260]);
+    expect(times('ends at 12:05.')).toEqual([725]);
+  });
+});
+
+describe('commentsToDanmaku', () => {
+  test('should place timestamped comments at their time', () => {
+    const [danmaku] = commentsToDanmaku([createComment('3:15 lol', 'c1')], 600);
+
+    expect(danmaku).toMatchObject({
+      time: 195,
+      type: 1,
+      content: 'lol',
+      userHash: '@viewer',
+      id: 'yt-c1',
+      timestamp: Date.parse('2024-06-01T12:00:00Z') / 1000,
+    });
+  });
+
+  test('should strip leading and trailing timestamps but keep ones inside a sentence', () => {
+    const contents = (text: string) =>
+      commentsToDanmaku([createComment(text)], 600).map(item => item.content);
+
+    expect(contents('3:15 - lol')).toEqual(['lol']);
+    expect(contents('best part 4:20')).toEqual(['best part']);
+    expect(contents('at 4:20 he says it')).toEqual(['at 4:20 he says it']);
+    expect(contents('4:20')).toEqual(['4:20']);
+  });
+
+  test('should give each line of a chapter list its own danmaku', () => {
+    const items = commentsToDanmaku(
+      [createComment('0:00 Intro\n1:23 - The build\n1:02:00 Outro', 'chapters')],
+      4000
+    );
+
+    expect(items.map(item => [item.time, item.content, item.id])).toEqual([
+      [0, 'Intro', 'yt-chapters'],
+      [83, 'The build', 'yt-chapters-2'],
+      [3720, 'Outro', 'yt-chapters-3'],
+    ]);
+  });
+
+  test('should show the whole comment at each time of a multi-stamp sentence', () => {
+    const items = commentsToDanmaku([createComment('1:00 and 2:00 are the best')], 600);
+    expect(items.map(item => [item.time, item.content])).toEqual([
+      [60, '1:00 and 2:00 are the best'],
+      [120, '1:00 and 2:00 are the best'],
+    ]);
+  });
+
+  test('should place a repeated timestamp once', () => {
+    expect(commentsToDanmaku([createComment('1:00 wow\n1:00 again?')], 600)).toHaveLength(1);
+  });
+
+  test('should spread untimed comments evenly across the video', () => {
+    const items = commentsToDanmaku([createComment('a'), createComment('b')], 100);
+    expect(items.map(item => item.time)).toEqual([25, 75]);
+  });
+
+  test('should omit untimed comments when asked', () => {
+    const items = commentsToDanmaku([createComment('a'), createComment('0:05 b')], 100, {
+      untimed: 'omit',
+    });
+    expect(items.map(item => item.content)).toEqual(['b']);
+  });
+
+  test('should omit untimed comments when the duration is unknown', () => {
+    const items = commentsToDanmaku([createComment('a'), createComment('0:05 b')], NaN);
+    expect(items.map(item => item.content)).toEqual(['b']);
+  });
+
+  test('should drop timestamps past the end of the video', () => {
+    expect(commentsToDanmaku([createComment('9:59 late')], 60)).toEqual([]);
+    expect(
+      commentsToDanmaku([createComment('0:30 ok\n9:59 late')], 60).map(item => item.time)
+    ).toEqual([30]);
+  });
+
+  test('should skip blank comments', () => {
+    expect(commentsToDanmaku([createComment('  \n ')], 60)).toEqual([]);
+  });
+
+  test('should collapse and shorten long comments', () => {
+    const [danmaku] = commentsToDanmaku([createComment('first line\n\nsecond   line')], 10, {
+      maxLength: 12,
+    });
+    expect(danmaku?.content).toBe('first line…');
+  });
+
+  test('should sort timed and spread comments together', () => {
+    const items = commentsToDanmaku([createComment('untimed'), createComment('0:10 early')], 100);
+    expect(items.map(item => item.time)).toEqual([10, 50]);
+  });
+});
@@ -0,0 +1,403 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { DanmakuEngine, lowerBound, positionAt } from '../src/danmaku/engine';
+import type { ActiveDanmaku, DanmakuRenderer, DanmakuRenderStyle } from '../src/danmaku/engine';
+import type { BilibiliDanmaku } from '../types';
+
+function createDanmaku(
+  time: number,
+  content: string,
+  type: BilibiliDanmaku['type'] = 1
+): BilibiliDanmaku {
+  return {
+    time,
+    type,
+    size: 25,
+    color: 16777215,
+    timestamp: 0,
+    pool: 0,
+    userHash: 'abc',
+    id: `${time}-${content}`,
+    content,
+  };
+}
+
+class FakeRenderer implements DanmakuRenderer {
+  added: ActiveDanmaku[] = [];
+  removed: ActiveDanmaku[] = [];
+  clearCount = 0;
+  destroyed = false;
+
+  style: DanmakuRenderStyle | null = null;
+
+  measure(danmaku: BilibiliDanmaku, fontSize: number): number {
+    return (danmaku.content.length * fontSize) / 2.5;
+  }
+  add(item: ActiveDanmaku): void {
+    this.added.push(item);
+  }
+  remove(item: ActiveDanmaku): void {
+    this.removed.push(item);
+  }
+  render(): void {}
+  resize(): void {}
+  setStyle(style: DanmakuRenderStyle): void {
+    this.style = style;
+  }
+  clear(): void {
+    this.clearCount++;
+  }
+  destroy(): void {
+    this.destroyed = true;
+  }
+}
+
+describe('DanmakuEngine', () => {
+  const clock = { currentTime: 0, paused: false, playbackRate: 1 };
+  let renderer: FakeRenderer;
+  let engine: DanmakuEngine;
+
+  beforeEach(() => {
+    clock.currentTime = 0;
+    renderer = new FakeRenderer();
+    engine = new DanmakuEngine(clock, renderer, { scrollDuration: 8, fixedDuration: 4 });
+    engine.resize(800, 450);
+  });
+
+  // Play forward in small steps, as a real animation loop would
+  function advance(to: number) {
+    while (clock.currentTime < to) {
+      clock.currentTime = Math.min(clock.currentTime + 0.25, to);
+      engine.tick();
+    }
+  }
+
+  describe('scheduling', () => {
+    test('should emit items when the clock reaches their time', () => {
+      engine.load([createDanmaku(1, 'a'), createDanmaku(2, 'b')]);
+
+      clock.currentTime = 0.5;
+      engine.tick();
+      expect(renderer.added).toHaveLength(0);
+
+      clock.currentTime = 1.2;
+      engine.tick();
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['a']);
+
+      clock.currentTime = 2;
+      engine.tick();
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['a', 'b']);
+    });
+
+    test('should sort unsorted input by time', () => {
+      engine.load([createDanmaku(2, 'late'), createDanmaku(1, 'early')]);
+
+      advance(2);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['early', 'late']);
+    });
+
+    test('should remove items once their display time elapses', () => {
+      engine.load([createDanmaku(1, 'scroll'), createDanmaku(1, 'top', 5)]);
+
+      advance(1);
+      expect(engine.activeItems).toHaveLength(2);
+
+      advance(5.5);
+      expect(renderer.removed.map(item => item.danmaku.content)).toEqual(['top']);
+
+      advance(9.5);
+      expect(engine.activeItems).toHaveLength(0);
+      expect(renderer.clearCount).toBe(1);
+    });
+
+    test('should not schedule code danmaku or unreadable advanced danmaku', () => {
+      engine.load([createDanmaku(1, 'a', 7), createDanmaku(1, 'b', 8), createDanmaku(1, 'c', 2)]);
+
+      advance(1);
+      expect(engine.size).toBe(1);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['c']);
+    });
+
+    test('should show advanced danmaku for their own duration without a lane', () => {
+      engine.resize(800, 30);
+      const advanced = {
+        ...createDanmaku(1, 'raw', 7),
+        advanced: {
+          text: 'two\nlines',
+          start: { x: 0.5, y: 0.5 },
+          end: { x: 0.5, y: 0.5 },
+          alphaFrom: 1,
+          alphaTo: 1,
+          duration: 2,
+          moveDelay: 0,
+          moveDuration: 2,
+          rotateZ: 0,
+          rotateY: 0,
+          stroke: true,
+          linear: false,
+        },
+      };
+      engine.load([createDanmaku(1, 'scroll'), advanced]);
+
+      advance(1);
+      expect(engine.activeItems).toHaveLength(2);
+      expect(engine.activeItems[1]?.height).toBe(60);
+
+      advance(3);
+      expect(renderer.removed.map(item => item.danmaku.content)).toEqual(['raw']);
+    });
+
+    test('should skip items that would already have left the stage', () => {
+      engine.load([createDanmaku(1, 'a')]);
+
+      clock.currentTime = 10;
+      engine.seek(9.5);
+      engine.tick();
+
+      expect(renderer.added).toHaveLength(0);
+    });
+
+    test('should show pushed items on the next tick while playing', () => {
+      engine.load([createDanmaku(1, 'a'), createDanmaku(10, 'later')]);
+      advance(5);
+
+      engine.push([createDanmaku(5, 'live'), createDanmaku(6, 'soon')]);
+      expect(engine.size).toBe(4);
+
+      clock.currentTime = 5.1;
+      engine.tick();
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['a', 'live']);
+
+      advance(10);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual([
+        'a',
+        'live',
+        'soon',
+        'later',
+      ]);
+    });
+
+    test('should drop pushed items that are too old to show', () => {
+      advance(5);
+      engine.push([createDanmaku(2, 'stale'), createDanmaku(1, 'code', 8)]);
+
+      advance(6);
+      expect(renderer.added).toHaveLength(0);
+      expect(engine.size).toBe(1);
+      expect(engine.dropped).toBe(1);
+    });
+  });
+
+  describe('lane allocation', () => {
+    test('should defer items until a lane frees up', () => {
+      engine.resize(800, 30);
+      engine.load([createDanmaku(1, 'top', 5), createDanmaku(1, 'next', 5)]);
+
+      advance(1);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['top']);
+
+      const dropped = engine.dropped;
+      advance(5);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['top']);
+      expect(engine.dropped).toBe(dropped + 1);
+    });
+
+    test('should keep at most maxOnScreen items on stage', () => {
+      engine.setOptions({ maxOnScreen: 2 });
+      engine.load([
+        createDanmaku(1, 'a', 5),
+        createDanmaku(1, 'b', 5),
+        createDanmaku(1, 'c', 5),
+        createDanmaku(4.5, 'd', 5),
+      ]);
+
+      advance(1);
+      expect(engine.activeItems.map(item => item.danmaku.content)).toEqual(['a', 'b']);
+
+      // 'c' waits for room past maxDelay and is dropped; 'd' arrives once 'a' and 'b' leave
+      advance(5);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['a', 'b', 'd']);
+      expect(engine.dropped).toBe(1);
+    });
+
+    test('should show deferred items once a scrolling lane frees up', () => {
+      engine.resize(800, 30);
+      engine.load([createDanmaku(1, 'a'), createDanmaku(1, 'b')]);
+
+      advance(3);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['a', 'b']);
+      expect(renderer.added[1]!.startTime).toBeGreaterThan(1);
+    });
+  });
+
+  describe('seeking', () => {
+    test('should clear the stage and skip ahead on a forward jump', () => {
+      engine.load([createDanmaku(1, 'a'), createDanmaku(30, 'b'), createDanmaku(60, 'c')]);
+
+      advance(1);
+
+      clock.currentTime = 45;
+      engine.tick();
+
+      expect(renderer.clearCount).toBeGreaterThan(0);
+      expect(engine.activeItems).toHaveLength(0);
+
+      advance(60);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['a', 'c']);
+    });
+
+    test('should replay items after seeking backwards', () => {
+      engine.load([createDanmaku(1, 'a')]);
+      advance(1);
+
+      clock.currentTime = 0;
+      engine.tick();
+      advance(1);
+
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['a', 'a']);
+    });
+  });
+
+  describe('display options', () => {
+    function loadTopItems(count: number) {
+      engine.load(Array.from({ length: count }, (_, index) => createDanmaku(1, `top${index}`, 5)));
+      advance(1);
+    }
+
+    test('should only use lanes inside the display area', () => {
+      engine.resize(800, 120);
+      engine.setOptions({ displayArea: 0.5 });
+      loadTopItems(4);
+
+      expect(engine.activeItems.map(item => item.top)).toEqual([0, 30]);
+    });
+
+    test('should scale font sizes and lanes', () => {
+      engine.resize(800, 120);
+      engine.setOptions({ fontScale: 2 });
+      loadTopItems(3);
+
+      expect(engine.activeItems.map(item => item.top)).toEqual([0, 60]);
+      expect(engine.activeItems[0]).toMatchObject({ fontSize: 50, height: 60 });
+    });
+
+    test('should clear the stage when the layout changes', () => {
+      engine.load([createDanmaku(1, 'a')]);
+      advance(1);
+
+      engine.setOptions({ scrollDuration: 4 });
+      expect(engine.activeItems).toHaveLength(1);
+
+      engine.setOptions({ displayArea: 0.25 });
+      expect(engine.activeItems).toHaveLength(0);
+    });
+
+    test('should pass the style to current and future renderers', () => {
+      const style = { opacity: 0.5, fontFamily: 'serif', stroke: 'shadow' as const };
+      engine.setStyle(style);
+      expect(renderer.style).toBe(style);
+
+      const next = new FakeRenderer();
+      engine.setRenderer(next);
+      expect(next.style).toBe(style);
+    });
+  });
+
+  describe('time offset', () => {
+    test('should schedule items at their offset time', () => {
+      engine.setTimeOffset({ shift: 2 });
+      engine.load([createDanmaku(1, 'a')]);
+
+      advance(2.5);
+      expect(renderer.added).toHaveLength(0);
+
+      advance(3);
+      expect(renderer.added.map(item => item.danmaku.time)).toEqual([3]);
+    });
+
+    test('should reschedule from the current time when the offset changes', () => {
+      engine.load([createDanmaku(1, 'a'), createDanmaku(4, 'b')]);
+      advance(2);
+
+      engine.setTimeOffset({ shift: -1 });
+      expect(engine.activeItems).toHaveLength(0);
+
+      advance(3);
+      expect(renderer.added.map(item => item.danmaku.content)).toEqual(['a', 'b']);
+      expect(engine.timeOffset).toEqual({ shift: -1 });
+    });
+  });
+
+  test('should carry active items over when the renderer is swapped', () => {
+    engine.load([createDanmaku(1, 'a')]);
+    advance(1);
+
+    const next = new FakeRenderer();
+    engine.setRenderer(next);
+
+    expect(renderer.destroyed).toBe(true);
+    expect(next.added.map(item => item.danmaku.content)).toEqual(['a']);
+  });
+
+  test('should release the renderer on destroy', () => {
+    engine.destroy();
+    expect(renderer.destroyed).toBe(true);
+  });
+});
+
+describe('lowerBound', () => {
+  const items = [createDanmaku(1, 'a'), createDanmaku(2, 'b'), createDanmaku(2, 'c')];
+
+  test('should find the first item at or after the time', () => {
+    expect(lowerBound(items, 0)).toBe(0);
+    expect(lowerBound(items, 2)).toBe(1);
+    expect(lowerBound(items, 3)).toBe(3);
+  });
+});
+
+describe('positionAt', () => {
+  test('should scroll from the right edge to fully off the left edge', () => {
+    const item: ActiveDanmaku = {
+      danmaku: createDanmaku(10, 'hello'),
+      startTime: 10,
+      duration: 8,
+      fontSize: 25,
+      width: 100,
+      height: 30,
+      top: 0,
+    };
+
+    expect(positionAt(item, 10, 800)).toBe(800);
+    expect(positionAt(item, 14, 800)).toBe(350);
+    expect(positionAt(item, 18, 800)).toBe(-100);
+  });
+
+  test('should scroll reverse items from the left edge to off the right edge', () => {
+    const item: ActiveDanmaku = {
+      danmaku: createDanmaku(10, 'hello', 6),
+      startTime: 10,
+      duration: 8,
+      fontSize: 25,
+      width: 100,
+      height: 30,
+      top: 0,
+    };
+
+    expect(positionAt(item, 10, 800)).toBe(-100);
+    expect(positionAt(item, 14, 800)).toBe(350);
+    expect(positionAt(item, 18, 800)).toBe(800);
+  });
+
+  test('should center fixed items', () => {
+    const item: ActiveDanmaku = {
+      danmaku: createDanmaku(10, 'hello', 5),
+      startTime: 10,
+      duration: 4,
+      fontSize: 25,
+      width: 100,
+      height: 30,
+      top: 0,
+    };
+
+    expect(positionAt(item, 12, 800)).toBe(350);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, test, expect } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  escapeAssText,
+  escapeSrtText,
+  estimateTextWidth,
+  exportDanmaku,
+  formatAssTime,
+  formatSrtTime,
+  toAss,
+  toBilibiliXml,
+  toSrt,
+} from '../src/danmaku/export';
+import { parseDanmakuXml } from '../src/api/danmaku-xml';
+import type { BilibiliDanmaku } from '../types';
+
+const fixture = readFileSync(join(import.meta.dir, 'fixtures/danmaku/list.xml'), 'utf-8');
+
+function createDanmaku(
+  time: number,
+  content: string,
+  overrides: Partial<BilibiliDanmaku> = {}
+): BilibiliDanmaku {
+  return {
+    time,
+    type: 1,
+    size: 25,
+    color: 16777215,
+    timestamp: 0,
+    pool: 0,
+    userHash: 'abc',
+    id: `${time}-${content}`,
+    content,
+    ...overrides,
+  };
+}
+
+function dialogues(ass: string): string[] {
+  return ass.split('\n').filter(line => line.startsWith('Dialogue:'));
+}
+
+describe('timestamps', () => {
+  test('should format ASS times in centiseconds', () => {
+    expect(formatAssTime(0)).toBe('0:00:00.00');
+    expect(formatAssTime(12.345)).toBe('0:00:12.35');
+    expect(formatAssTime(3723.5)).toBe('1:02:03.50');
+  });
+
+  test('should format SRT times in milliseconds', () => {
+    expect(formatSrtTime(0)).toBe('00:00:00,000');
+    expect(formatSrtTime(3723.0456)).toBe('01:02:03,046');
+  });
+});
+
+describe('escaping', () => {
+  test('should keep ASS override characters literal', () => {
+    expect(escapeAssText('{\\b1}bold')).toBe('\\{\\\u2060b1\\}bold');
+    expect(escapeAssText('a\\nb')).toBe('a\\\u2060nb');
+  });
+
+  test('should encode markup in SRT text', () => {
+    expect(escapeSrtText('<i>Tom & Jerry</i>')).toBe('&lt;i&gt;Tom &amp; Jerry&lt;/i&gt;');
+  });
+});
+
+describe('estimateTextWidth', () => {
+  test('should count full-width characters as one em', () => {
+    expect(estimateTextWidth('弹幕', 20)).toBe(40);
+    expect(estimateTextWidth('ab', 20)).toBe(20);
+    expect(estimateTextWidth('ＡＢ', 20)).toBe(40);
+  });
+});
+
+describe('toAss', () => {
+  test('should write the script resolution and style', () => {
+    const ass = toAss([], { width: 1280, height: 720, fontFamily: 'SimHei', fontScale: 1 });
+
+    expect(ass).toContain('PlayResX: 1280\nPlayResY: 720');
+    expect(ass).toContain('Style: Danmaku,SimHei,25,&H00FFFFFF');
+  });
+
+  test('should scroll across the screen for the scroll duration', () => {
+    const [line] = dialogues(toAss([createDanmaku(10, 'hello')], { width: 1000, fontScale: 1 }));
+
+    expect(line).toBe(
+      'Dialogue: 0,0:00:10.00,0:00:18.00,Danmaku,,0,0,0,,{\\an7\\move(1000,0,-62.5,0)}hello'
+    );
+  });
+
+  test('should scroll reverse danmaku from the left', () => {
+    const [line] = dialogues(
+      toAss([createDanmaku(0, 'hi', { type: 6 })], { width: 1000, fontScale: 1 })
+    );
+    expect(line).toContain('{\\an7\\move(-25,0,1000,0)}hi');
+  });
+
+  test('should pin top and bottom danmaku for the fixed duration', () => {
+    const lines = dialogues(
+      toAss([createDanmaku(5, 'top', { type: 5 }), createDanmaku(5, 'bottom', { type: 4 })], {
+        width: 1000,
+        height: 600,
+        fontScale: 1,
+        fixedDuration: 3,
+      })
+    );
+
+    expect(lines[0]).toBe(
+      'Dialogue: 1,0:00:05.00,0:00:08.00,Danmaku,,0,0,0,,{\\an8\\pos(500,0)}top'
+    );
+    expect(lines[1]).toBe(
+      'Dialogue: 1,0:00:05.00,0:00:08.00,Danmaku,,0,0,0,,{\\an8\\pos(500,570)}bottom'
+    );
+  });
+
+  test('should stack simultaneous danmaku into separate lanes', () => {
+    const items = [createDanmaku(1, 'a'), createDanmaku(1, 'b'), createDanmaku(1, 'c')];
+    const lines = dialogues(toAss(items, { fontScale: 1 }));
+
+    expect(lines.map(line => /\\move\([\d.-]+,([\d.]+)/.exec(line)?.[1])).toEqual([
+      '0',
+      '30',
+      '60',
+    ]);
+  });
+
+  test('should reuse a lane once the previous danmaku has cleared it', () => {
+    const items = [createDanmaku(0, 'top', { type: 5 }), createDanmaku(4, 'next', { type: 5 })];
+    const lines = dialogues(toAss(items, { fontScale: 1, fixedDuration: 4 }));
+
+    expect(lines.every(line => line.includes('\\pos(960,0)'))).toBe(true);
+  });
+
+  test('should leave out danmaku that find no free lane', () => {
+    const items = Array.from({ length: 5 }, (_, index) =>
+      createDanmaku(0, `${index}`, { type: 5 })
+    );
+    expect(dialogues(toAss(items, { height: 90, fontScale: 1 }))).toHaveLength(3);
+  });
+
+  test('should convert colours and font sizes', () => {
+    const [red, black] = dialogues(
+      toAss(
+        [
+          createDanmaku(0, 'red', { color: 0xff8000, size: 18 }),
+          createDanmaku(0, 'black', { color: 0 }),
+        ],
+        { fontScale: 2 }
+      )
+    );
+
+    expect(red).toContain('\\c&H0080FF&\\fs36}');
+    expect(black).toContain('\\c&H000000&\\3c&HFFFFFF&}');
+  });
+
+  test('should escape text, split lines and show merge counts', () => {
+    const [line] = dialogues(toAss([createDanmaku(0, '{a}\nb', { count: 3 })]));
+    expect(line).toEndWith('}\\{a\\}\\Nb ×3');
+  });
+
+  test('should position advanced danmaku with move, alpha and rotation', () => {
+    const { danmaku } = parseDanmakuXml(
+      '<d p="2,7,25,16777215,0,0,u,1">[0.1,0.2,"1-0",3,"fly",30,0,0.5,0.6,1000,500]</d>'
+    );
+    const [line] = dialogues(toAss(danmaku, { width: 1000, height: 500 }));
+
+    expect(line).toBe(
+      'Dialogue: 2,0:00:02.00,0:00:05.00,Danmaku,,0,0,0,,{\\an7\\move(100,100,500,300,500,1500)\\frz-30\\alpha&H00&\\t(0,3000,\\alpha&HFF&)}fly'
+    );
+  });
+
+  test('should keep advanced font names from breaking out of the override block', () => {
+    const { danmaku } = parseDanmakuXml(
+      '<d p="2,7,25,16777215,0,0,u,1">[0.1,0.2,"1-0",3,"fly",0,0,0.1,0.2,0,0,true,"SimHei"]</d>'
+    );
+    const item = {
+      ...danmaku[0]!,
+      advanced: { ...danmaku[0]!.advanced!, fontFamily: 'Evil}\\fs99{x' },
+    };
+    const [line] = dialogues(toAss([item]));
+
+    expect(line).toContain('\\fnEvilfs99x\\');
+    expect(line!.match(/[{}]/g)).toEqual(['{', '}']);
+  });
+
+  test('should skip code, blank and unreadable advanced danmaku', () => {
+    const items = [
+      createDanmaku(0, 'code', { type: 8 }),
+      createDanmaku(0, 'not json', { type: 7 }),
+      createDanmaku(0, ' '),
+    ];
+    expect(dialogues(toAss(items))).toHaveLength(0);
+  });
+});
+
+describe('toSrt', () => {
+  test('should write numbered cues sorted by time', () => {
+    const srt = toSrt([createDanmaku(10, 'later'), createDanmaku(1.5, 'first', { type: 5 })], {
+      fixedDuration: 4,
+    });
+
+    expect(srt).toBe(
+      '1\n00:00:01,500 --> 00:00:05,500\nfirst\n\n2\n00:00:10,000 --> 00:00:18,000\nlater\n'
+    );
+  });
+
+  test('should drop blank lines that would end a cue', () => {
+    const srt = toSrt([createDanmaku(0, 'a\n\n<b>'), createDanmaku(1, '   ')]);
+    expect(srt).toBe('1\n00:00:00,000 --> 00:00:08,000\na\n&lt;b&gt;\n');
+  });
+});
+
+describe('toBilibiliXml', () => {
+  test('should round-trip through the XML parser', () => {
+    const original = parseDanmakuXml(fixture).danmaku;
+    const xml = toBilibiliXml(original, 123);
+
+    expect(xml).toContain('<chatid>123</chatid>');
+    expect(parseDanmakuXml(xml)).toEqual({
+      danmaku: [...original].sort((a, b) => a.time - b.time),
+      skipped: [],
+    });
+  });
+
+  test('should escape markup and drop characters XML cannot hold', () => {
+    const xml = toBilibiliXml([createDanmaku(1, '<a href="x">&\u0001\t\uffff</a>')]);
+
+    expect(xml).toContain('>&lt;a href=&quot;x&quot;&gt;&amp;\t&lt;/a&gt;</d>');
+    expect(parseDanmakuXml(xml).danmaku[0]?.content).toBe('<a href="x">&\t</a>');
+  });
+
+  test('should write the weight only when known', () => {
+    const xml = toBilibiliXml([
+      createDanmaku(1.25, 'a', { weight: 7 }),
+      createDanmaku(2, 'b', { id: 'x' }),
+    ]);
+
+    expect(xml).toContain('<d p="1.25,1,25,16777215,0,0,abc,1.25-a,7">a</d>');
+    expect(xml).toContain('<d p="2,1,25,16777215,0,0,abc,x">b</d>');
+  });
+});
+
+describe('exportDanmaku', () => {
+  test('should dispatch to the requested format', () => {
+    const items = [createDanmaku(0, 'a')];
+
+    expect(exportDanmaku(items, 'ass')).toStartWith('[Script Info]');
+    expect(exportDanmaku(items, 'srt')).toStartWith('1\n');
+    expect(exportDanmaku(items, 'xml', { cid: 9 })).toContain('<chatid>9</chatid>');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'bun:test';
+import { DEFAULT_FILTER_RULES, filterDanmaku } from '../src/danmaku/filter';
+import type { DanmakuFilterRules } from '../src/danmaku/filter';
+import type { BilibiliDanmaku } from '../types';
+
+function createDanmaku(
+  time: number,
+  content: string,
+  overrides: Partial<BilibiliDanmaku> = {}
+): BilibiliDanmaku {
+  return {
+    time,
+    type: 1,
+    size: 25,
+    color: 16777215,
+    timestamp: 0,
+    pool: 0,
+    userHash: 'abc',
+    id: `${time}-${content}`,
+    content,
+    ...overrides,
+  };
+}
+
+function rules(overrides: Partial<DanmakuFilterRules>): DanmakuFilterRules {
+  return { ...DEFAULT_FILTER_RULES, ...overrides };
+}
+
+function contents(items: BilibiliDanmaku[]): string[] {
+  return items.map(item => item.content);
+}
+
+describe('filterDanmaku', () => {
+  test('should keep everything with the default rules', () => {
+    const items = [createDanmaku(2, 'b'), createDanmaku(1, 'a')];
+    const result = filterDanmaku(items, DEFAULT_FILTER_RULES);
+
+    expect(contents(result.kept)).toEqual(['a', 'b']);
+    expect(Object.values(result.removed).every(count => count === 0)).toBe(true);
+  });
+
+  test('should hide keywords case-insensitively', () => {
+    const items = [createDanmaku(1, 'Spoiler: he dies'), createDanmaku(2, 'nice')];
+    const result = filterDanmaku(items, rules({ keywords: ['SPOILER', ' '] }));
+
+    expect(contents(result.kept)).toEqual(['nice']);
+    expect(result.removed.keyword).toBe(1);
+  });
+
+  test('should hide regex matches and report invalid patterns', () => {
+    const items = [createDanmaku(1, '哈哈哈哈哈'), createDanmaku(2, '哈'), createDanmaku(3, 'ok')];
+    const result = filterDanmaku(items, rules({ patterns: ['^(哈){3,}$', '[unclosed'] }));
+
+    expect(contents(result.kept)).toEqual(['哈', 'ok']);
+    expect(result.removed.pattern).toBe(1);
+    expect(result.invalidPatterns).toEqual(['[unclosed']);
+  });
+
+  test('should match the displayed text of advanced danmaku', () => {
+    const advanced = createDanmaku(1, '[0,0,1,4,"secret"]', {
+      type: 7,
+      advanced: {
+        text: 'secret',
+        start: { x: 0, y: 0 },
+        end: { x: 0, y: 0 },
+        alphaFrom: 1,
+        alphaTo: 1,
+        duration: 4,
+        moveDelay: 0,
+        moveDuration: 4,
+        rotateZ: 0,
+        rotateY: 0,
+        stroke: true,
+        linear: false,
+      },
+    });
+
+    expect(filterDanmaku([advanced], rules({ patterns: ['^secret$'] })).kept).toHaveLength(0);
+  });
+
+  test('should block users, types and pools', () => {
+    const items = [
+      createDanmaku(1, 'spam', { userHash: 'spammer' }),
+      createDanmaku(2, 'top', { type: 5 }),
+      createDanmaku(3, 'subtitle', { pool: 1 }),
+      createDanmaku(4, 'normal'),
+    ];
+    const result = filterDanmaku(
+      items,
+      rules({ blockedUsers: ['spammer'], blockedTypes: [5], blockedPools: [1] })
+    );
+
+    expect(contents(result.kept)).toEqual(['normal']);
+    expect(result.removed).toMatchObject({ user: 1, type: 1, pool: 1 });
+  });
+
+  test('should not modify the input', () => {
+    const items = [createDanmaku(2, 'b'), createDanmaku(1, 'a')];
+    filterDanmaku(items, rules({ keywords: ['a'] }));
+
+    expect(contents(items)).toEqual(['b', 'a']);
+  });
+});
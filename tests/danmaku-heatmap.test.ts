@@ -0,0 +1,67 @@
+import { describe, test, expect } from 'bun:test';
+import { densityBuckets, heatmapPath } from '../src/danmaku/heatmap';
+import type { BilibiliDanmaku } from '../types';
+
+function createDanmaku(time: number, count?: number): BilibiliDanmaku {
+  const danmaku: BilibiliDanmaku = {
+    time,
+    type: 1,
+    size: 25,
+    color: 16777215,
+    timestamp: 0,
+    pool: 0,
+    userHash: 'abc',
+    id: `${time}`,
+    content: 'hi',
+  };
+  if (count !== undefined) {
+    danmaku.count = count;
+  }
+  return danmaku;
+}
+
+describe('densityBuckets', () => {
+  test('should count danmaku per bucket and normalise to the peak', () => {
+    const items = [1, 2, 3, 4, 15, 35, 36].map(time => createDanmaku(time));
+    const values = densityBuckets(items, 40, { buckets: 4, smoothing: 0 });
+
+    expect(values).toEqual([1, 0.25, 0, 0.5]);
+  });
+
+  test('should weight merged danmaku by their count', () => {
+    const items = [createDanmaku(1), createDanmaku(15, 4)];
+    expect(densityBuckets(items, 20, { buckets: 2, smoothing: 0 })).toEqual([0.25, 1]);
+  });
+
+  test('should smooth neighbouring buckets', () => {
+    const values = densityBuckets([createDanmaku(15)], 30, { buckets: 3, smoothing: 1 });
+
+    expect(values[1]).toBe(1);
+    expect(values[0]).toBeCloseTo(2 / 3);
+    expect(values[2]).toBeCloseTo(2 / 3);
+  });
+
+  test('should ignore danmaku outside the video and include the final moment', () => {
+    const items = [createDanmaku(-1), createDanmaku(50), createDanmaku(40)];
+    expect(densityBuckets(items, 40, { buckets: 4, smoothing: 0 })).toEqual([0, 0, 0, 1]);
+  });
+
+  test('should return nothing when the duration is unknown', () => {
+    expect(densityBuckets([createDanmaku(1)], NaN)).toEqual([]);
+    expect(densityBuckets([createDanmaku(1)], 0)).toEqual([]);
+  });
+
+  test('should return a flat curve without danmaku', () => {
+    expect(densityBuckets([], 10, { buckets: 3 })).toEqual([0, 0, 0]);
+  });
+});
+
+describe('heatmapPath', () => {
+  test('should draw a closed area through the bucket centres', () => {
+    expect(heatmapPath([0, 1], 100, 10)).toBe('M0,10L0,10L25,10L75,0L100,0L100,10Z');
+  });
+
+  test('should return an empty path without values', () => {
+    expect(heatmapPath([], 100, 10)).toBe('');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { LaneAllocator } from '../src/danmaku/lanes';
+import type { LaneItem } from '../src/danmaku/lanes';
+
+function createItem(overrides: Partial<LaneItem> = {}): LaneItem {
+  return {
+    type: 1,
+    width: 100,
+    height: 30,
+    startTime: 0,
+    duration: 8,
+    ...overrides,
+  };
+}
+
+describe('LaneAllocator', () => {
+  let allocator: LaneAllocator;
+
+  beforeEach(() => {
+    allocator = new LaneAllocator(30);
+    allocator.resize(800, 90);
+  });
+
+  test('should split the stage into fixed-height lanes', () => {
+    expect(allocator.count).toBe(3);
+  });
+
+  describe('scrolling', () => {
+    test('should stack simultaneous items in separate lanes', () => {
+      expect(allocator.allocate(createItem())).toBe(0);
+      expect(allocator.allocate(createItem())).toBe(30);
+      expect(allocator.allocate(createItem())).toBe(60);
+    });
+
+    test('should return null when every lane is busy', () => {
+      allocator.allocate(createItem());
+      allocator.allocate(createItem());
+      allocator.allocate(createItem());
+
+      expect(allocator.allocate(createItem())).toBeNull();
+    });
+
+    test('should reuse a lane once the previous tail has entered the stage', () => {
+      allocator.allocate(createItem({ width: 100 }));
+
+      // Speed is (800 + 100) / 8 = 112.5px/s, so the tail enters after ~0.9s
+      expect(allocator.allocate(createItem({ startTime: 0.5 }))).toBe(30);
+      expect(allocator.allocate(createItem({ startTime: 1 }))).toBe(0);
+    });
+
+    test('should not let a faster item catch up with the previous one', () => {
+      allocator.resize(800, 30);
+      allocator.allocate(createItem({ width: 50 }));
+
+      // A much wider item moves faster and would run into the short one
+      expect(allocator.allocate(createItem({ startTime: 1, width: 800 }))).toBeNull();
+      expect(allocator.allocate(createItem({ startTime: 1, width: 50 }))).toBe(0);
+    });
+
+    test('should span several lanes for large text', () => {
+      expect(allocator.allocate(createItem({ height: 45 }))).toBe(0);
+      expect(allocator.allocate(createItem())).toBe(60);
+    });
+  });
+
+  describe('fixed items', () => {
+    test('should place top items from the top of the stage', () => {
+      expect(allocator.allocate(createItem({ type: 5, duration: 4 }))).toBe(0);
+      expect(allocator.allocate(createItem({ type: 5, duration: 4 }))).toBe(30);
+    });
+
+    test('should place bottom items from the bottom of the stage', () => {
+      expect(allocator.allocate(createItem({ type: 4, duration: 4 }))).toBe(60);
+      expect(allocator.allocate(createItem({ type: 4, duration: 4 }))).toBe(30);
+    });
+
+    test('should keep a fixed lane busy until its item expires', () => {
+      allocator.resize(800, 30);
+      allocator.allocate(createItem({ type: 5, duration: 4 }));
+
+      expect(allocator.allocate(createItem({ type: 5, startTime: 3.9, duration: 4 }))).toBeNull();
+      expect(allocator.allocate(createItem({ type: 5, startTime: 4, duration: 4 }))).toBe(0);
+    });
+
+    test('should not share lanes with scrolling items', () => {
+      allocator.allocate(createItem());
+      expect(allocator.allocate(createItem({ type: 5, duration: 4 }))).toBe(0);
+    });
+  });
+
+  test('should keep reverse items in their own lanes', () => {
+    allocator.allocate(createItem());
+    expect(allocator.allocate(createItem({ type: 6 }))).toBe(0);
+    expect(allocator.allocate(createItem({ type: 6 }))).toBe(30);
+  });
+
+  test('should free every lane on reset', () => {
+    allocator.allocate(createItem());
+    allocator.allocate(createItem());
+    allocator.allocate(createItem());
+    allocator.reset();
+
+    expect(allocator.allocate(createItem())).toBe(0);
+  });
+});
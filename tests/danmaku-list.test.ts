@@ -0,0 +1,96 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  currentDanmakuIndex,
+  formatSendTime,
+  formatVideoTime,
+  searchDanmaku,
+} from '../src/danmaku/list';
+import type { BilibiliDanmaku } from '../types';
+
+function createDanmaku(
+  time: number,
+  content: string,
+  overrides: Partial<BilibiliDanmaku> = {}
+): BilibiliDanmaku {
+  return {
+    time,
+    type: 1,
+    size: 25,
+    color: 16777215,
+    timestamp: 0,
+    pool: 0,
+    userHash: 'abc',
+    id: `${time}-${content}`,
+    content,
+    ...overrides,
+  };
+}
+
+describe('searchDanmaku', () => {
+  const items = [
+    createDanmaku(1, '前方高能预警'),
+    createDanmaku(2, 'Hello World'),
+    createDanmaku(3, 'ＡＢＣ'),
+    createDanmaku(4, '[0,0,"1-1",4,"高能文字"]', {
+      type: 7,
+      advanced: {
+        text: '高能文字',
+        start: { x: 0, y: 0 },
+        end: { x: 0, y: 0 },
+        alphaFrom: 1,
+        alphaTo: 1,
+        duration: 4,
+        moveDelay: 0,
+        moveDuration: 4,
+        rotateZ: 0,
+        rotateY: 0,
+        stroke: true,
+        linear: false,
+      },
+    }),
+  ];
+
+  test('should return everything for an empty query', () => {
+    expect(searchDanmaku(items, '  ')).toBe(items);
+  });
+
+  test('should match every term, ignoring case and width', () => {
+    expect(searchDanmaku(items, 'world hello').map(item => item.time)).toEqual([2]);
+    expect(searchDanmaku(items, 'abc').map(item => item.time)).toEqual([3]);
+    expect(searchDanmaku(items, 'hello moon')).toEqual([]);
+  });
+
+  test('should search the displayed text of advanced danmaku', () => {
+    expect(searchDanmaku(items, '高能').map(item => item.time)).toEqual([1, 4]);
+    expect(searchDanmaku(items, '1-1')).toEqual([]);
+  });
+});
+
+describe('currentDanmakuIndex', () => {
+  const items = [createDanmaku(1, 'a'), createDanmaku(2, 'b'), createDanmaku(2, 'c')];
+
+  test('should find the last danmaku sent at or before the time', () => {
+    expect(currentDanmakuIndex(items, 1.5)).toBe(0);
+    expect(currentDanmakuIndex(items, 2)).toBe(2);
+    expect(currentDanmakuIndex(items, 10)).toBe(2);
+  });
+
+  test('should return -1 before the first danmaku', () => {
+    expect(currentDanmakuIndex(items, 0.5)).toBe(-1);
+    expect(currentDanmakuIndex([], 5)).toBe(-1);
+  });
+});
+
+describe('formatting', () => {
+  test('should format video times', () => {
+    expect(formatVideoTime(0)).toBe('0:00');
+    expect(formatVideoTime(65.9)).toBe('1:05');
+    expect(formatVideoTime(3725)).toBe('1:02:05');
+  });
+
+  test('should format send times in local time', () => {
+    const timestamp = new Date(2024, 5, 1, 9, 5).getTime() / 1000;
+    expect(formatSendTime(timestamp)).toBe('06-01 09:05');
+    expect(formatSendTime(0)).toBe('');
+  });
+});
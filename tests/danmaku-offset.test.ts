@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  applyTimeOffset,
+  invertTimeOffset,
+  mapTime,
+  nudgeTimeOffset,
+  toTimeOffset,
+} from '../src/danmaku/offset';
+import type { BilibiliDanmaku, TimeOffset } from '../types';
+
+function createDanmaku(time: number): BilibiliDanmaku {
+  return {
+    time,
+    type: 1,
+    size: 25,
+    color: 16777215,
+    timestamp: 0,
+    pool: 0,
+    userHash: 'abc',
+    id: `${time}`,
+    content: `at ${time}`,
+  };
+}
+
+// Bilibili upload has a 10s intro the YouTube copy lacks, and a sponsor read
+// at 60-90s that was cut from YouTube
+const trimmed: TimeOffset = {
+  shift: -40,
+  segments: [
+    { from: 0, to: 10, offset: null },
+    { from: 10, to: 60, offset: -10 },
+    { from: 60, to: 90, offset: null },
+  ],
+};
+
+describe('mapTime', () => {
+  test('should apply the constant shift', () => {
+    expect(mapTime(12, { shift: -3.5 })).toBe(8.5);
+  });
+
+  test('should use the segment covering the time', () => {
+    expect(mapTime(10, trimmed)).toBe(0);
+    expect(mapTime(59.5, trimmed)).toBe(49.5);
+    expect(mapTime(90, trimmed)).toBe(50);
+  });
+
+  test('should drop times inside removed ranges', () => {
+    expect(mapTime(5, trimmed)).toBeNull();
+    expect(mapTime(75, trimmed)).toBeNull();
+  });
+});
+
+describe('applyTimeOffset', () => {
+  test('should return the same list when there is no offset', () => {
+    const items = [createDanmaku(1)];
+    expect(applyTimeOffset(items, { shift: 0 })).toBe(items);
+  });
+
+  test('should remap times and drop items before the video starts', () => {
+    const items = [createDanmaku(1), createDanmaku(5), createDanmaku(10)];
+    const mapped = applyTimeOffset(items, { shift: -3 });
+
+    expect(mapped.map(item => item.time)).toEqual([2, 7]);
+    expect(items[1]?.time).toBe(5);
+  });
+
+  test('should drop items in cut ranges', () => {
+    const items = [5, 20, 75, 100].map(createDanmaku);
+    expect(applyTimeOffset(items, trimmed).map(item => item.time)).toEqual([10, 60]);
+  });
+});
+
+describe('nudgeTimeOffset', () => {
+  test('should move the shift and every segment', () => {
+    expect(nudgeTimeOffset(trimmed, 0.5)).toEqual({
+      shift: -39.5,
+      segments: [
+        { from: 0, to: 10, offset: null },
+        { from: 10, to: 60, offset: -9.5 },
+        { from: 60, to: 90, offset: null },
+      ],
+    });
+  });
+});
+
+describe('invertTimeOffset', () => {
+  test('should map YouTube times back onto the Bilibili timeline', () => {
+    const offset: TimeOffset = {
+      shift: -5,
+      segments: [
+        { from: 100, to: 200, offset: -15 },
+        { from: 200, to: 230, offset: null },
+      ],
+    };
+    const inverted = invertTimeOffset(offset);
+
+    for (const time of [10, 150, 250]) {
+      expect(mapTime(mapTime(time, offset)!, inverted)).toBe(time);
+    }
+    expect(inverted.segments).toEqual([{ from: 85, to: 185, offset: 15 }]);
+  });
+
+  test('should negate a plain shift', () => {
+    expect(invertTimeOffset({ shift: 3 })).toEqual({ shift: -3 });
+  });
+});
+
+describe('toTimeOffset', () => {
+  test('should read the offset stored with a video pair', () => {
+    expect(toTimeOffset({ timeOffset: -3.5 })).toEqual({ shift: -3.5 });
+    expect(toTimeOffset({ timeOffset: 0, timeSegments: trimmed.segments! })).toEqual({
+      shift: 0,
+      segments: trimmed.segments!,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  createDensityLimiter,
+  mergeDuplicates,
+  mergeKey,
+  preprocessDanmaku,
+  sampleDanmaku,
+} from '../src/danmaku/preprocess';
+import { displayLines } from '../src/danmaku/engine';
+import type { BilibiliDanmaku } from '../types';
+
+function createDanmaku(
+  time: number,
+  content: string,
+  overrides: Partial<BilibiliDanmaku> = {}
+): BilibiliDanmaku {
+  return {
+    time,
+    type: 1,
+    size: 25,
+    color: 16777215,
+    timestamp: 0,
+    pool: 0,
+    userHash: 'abc',
+    id: `${time}-${content}`,
+    content,
+    ...overrides,
+  };
+}
+
+describe('mergeKey', () => {
+  test('should ignore width, case, punctuation and repetition length', () => {
+    expect(mergeKey('哈哈哈')).toBe(mergeKey('哈哈哈哈哈哈！'));
+    expect(mergeKey('ＡＢＣ ')).toBe(mergeKey('abc'));
+    expect(mergeKey('2333')).toBe(mergeKey('233333'));
+  });
+
+  test('should keep different text apart', () => {
+    expect(mergeKey('前方高能')).not.toBe(mergeKey('后方高能'));
+  });
+});
+
+describe('mergeDuplicates', () => {
+  test('should merge near-identical danmaku within the window', () => {
+    const items = [
+      createDanmaku(1, '哈哈哈'),
+      createDanmaku(2, '哈哈哈哈哈'),
+      createDanmaku(3, 'other'),
+      createDanmaku(5, '哈哈哈！'),
+    ];
+    const merged = mergeDuplicates(items, 10);
+
+    expect(merged.map(item => [item.content, item.count])).toEqual([
+      ['哈哈哈', 3],
+      ['other', undefined],
+    ]);
+    expect(merged[0]?.time).toBe(1);
+  });
+
+  test('should start a new group once the window has passed', () => {
+    const items = [createDanmaku(1, 'gg'), createDanmaku(5, 'gg'), createDanmaku(12, 'gg')];
+    expect(mergeDuplicates(items, 10).map(item => item.count)).toEqual([2, undefined]);
+  });
+
+  test('should add up counts of already merged items', () => {
+    const items = [createDanmaku(1, 'a', { count: 3 }), createDanmaku(2, 'a', { count: 2 })];
+    expect(mergeDuplicates(items, 10)[0]?.count).toBe(5);
+  });
+
+  test('should never merge advanced, code or empty danmaku', () => {
+    const items = [
+      createDanmaku(1, 'x', { type: 7 }),
+      createDanmaku(1, 'x', { type: 7 }),
+      createDanmaku(2, '!!!'),
+      createDanmaku(2, '???'),
+    ];
+    expect(mergeDuplicates(items, 10)).toHaveLength(4);
+  });
+
+  test('should not modify the input', () => {
+    const items = [createDanmaku(1, 'a'), createDanmaku(2, 'a')];
+    mergeDuplicates(items, 10);
+    expect(items[0]?.count).toBeUndefined();
+  });
+
+  test('should be disabled by a zero window', () => {
+    const items = [createDanmaku(1, 'a'), createDanmaku(1, 'a')];
+    expect(mergeDuplicates(items, 0)).toHaveLength(2);
+  });
+});
+
+describe('sampleDanmaku', () => {
+  test('should keep seconds under budget untouched', () => {
+    const items = [createDanmaku(0.1, 'a'), createDanmaku(0.5, 'b'), createDanmaku(1.2, 'c')];
+    expect(sampleDanmaku(items, 2)).toHaveLength(3);
+  });
+
+  test('should spread kept items across a crowded second', () => {
+    const items = Array.from({ length: 10 }, (_, index) => createDanmaku(index / 10, `${index}`));
+    const sampled = sampleDanmaku(items, 5);
+
+    expect(sampled.map(item => item.content)).toEqual(['0', '2', '4', '6', '8']);
+  });
+
+  test('should prefer merged and high-weight danmaku', () => {
+    const items = [
+      createDanmaku(0.1, 'a'),
+      createDanmaku(0.2, 'b', { weight: 9 }),
+      createDanmaku(0.3, 'c'),
+      createDanmaku(0.4, 'd', { count: 12 }),
+      createDanmaku(0.5, 'e'),
+    ];
+
+    expect(sampleDanmaku(items, 2).map(item => item.content)).toEqual(['b', 'd']);
+    expect(sampleDanmaku(items, 3).map(item => item.content)).toEqual(['a', 'b', 'd']);
+  });
+
+  test('should keep everything when disabled', () => {
+    const items = Array.from({ length: 10 }, (_, index) => createDanmaku(0, `${index}`));
+    expect(sampleDanmaku(items, 0)).toHaveLength(10);
+  });
+});
+
+describe('preprocessDanmaku', () => {
+  test('should merge before sampling', () => {
+    const items = [
+      ...Array.from({ length: 6 }, (_, index) => createDanmaku(index / 10, '哈哈哈')),
+      createDanmaku(0.7, 'a'),
+      createDanmaku(0.8, 'b'),
+    ];
+    const processed = preprocessDanmaku(items, { budget: 2 });
+
+    expect(processed.map(item => item.content)).toEqual(['哈哈哈', 'a']);
+    expect(processed[0]?.count).toBe(6);
+  });
+});
+
+describe('createDensityLimiter', () => {
+  test('should keep at most the budget within any second', () => {
+    const fits = createDensityLimiter();
+    const kept = [0, 0.2, 0.4, 0.9, 1.1, 1.3, 2.5].filter(time => fits(time, 2));
+
+    expect(kept).toEqual([0, 0.2, 1.1, 1.3, 2.5]);
+  });
+
+  test('should keep everything without a budget', () => {
+    const fits = createDensityLimiter();
+    expect([0, 0, 0].every(time => fits(time, 0))).toBe(true);
+  });
+
+  test('should start over after a backward seek', () => {
+    const fits = createDensityLimiter();
+    fits(10, 1);
+
+    expect(fits(5, 1)).toBe(true);
+  });
+});
+
+describe('displayLines', () => {
+  test('should show the merge count', () => {
+    expect(displayLines(createDanmaku(0, 'gg', { count: 4 }))).toEqual(['gg ×4']);
+    expect(displayLines(createDanmaku(0, 'gg', { count: 1 }))).toEqual(['gg']);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, test, expect } from 'bun:test';
+import { decodeDmSegMobileReply, toBilibiliDanmaku } from '../src/api/danmaku-proto';
+import { BilibiliAPI, partDuration } from '../src/api/bilibili';
+import type { BilibiliDanmaku } from '../types';
+
+const FIXTURE_DIR = `${import.meta.dir}/fixtures/danmaku`;
+
+async function loadFixture(name: string): Promise<Uint8Array> {
+  return new Uint8Array(await Bun.file(`${FIXTURE_DIR}/${name}`).arrayBuffer());
+}
+
+describe('decodeDmSegMobileReply', () => {
+  test('should decode every element of a segment', async () => {
+    const elems = decodeDmSegMobileReply(await loadFixture('seg-1.bin'));
+
+    expect(elems).toHaveLength(5);
+    expect(elems[0]).toMatchObject({
+      id: '1523452781463552000',
+      progress: 12500,
+      mode: 1,
+      fontsize: 25,
+      color: 16777215,
+      midHash: 'a1b2c3d4',
+      content: '前方高能',
+      ctime: 1717243200,
+      weight: 5,
+      pool: 0,
+      idStr: '1523452781463552000',
+    });
+  });
+
+  test('should preserve 64-bit IDs without precision loss', async () => {
+    const elems = decodeDmSegMobileReply(await loadFixture('seg-1.bin'));
+    expect(elems.map(elem => elem.id)).toContain('1523452781463552001');
+  });
+
+  test('should decode UTF-8 content including emoji', async () => {
+    const elems = decodeDmSegMobileReply(await loadFixture('seg-1.bin'));
+    expect(elems[4]?.content).toBe('哈哈哈哈😂');
+  });
+
+  test('should return no elements for an empty segment', () => {
+    expect(decodeDmSegMobileReply(new Uint8Array())).toEqual([]);
+  });
+
+  test('should reject truncated input', async () => {
+    const buffer = await loadFixture('seg-1.bin');
+    expect(() => decodeDmSegMobileReply(buffer.subarray(0, 40))).toThrow();
+  });
+});
+
+describe('toBilibiliDanmaku', () => {
+  test('should convert progress to seconds and keep every mode', async () => {
+    const danmaku = toBilibiliDanmaku(decodeDmSegMobileReply(await loadFixture('seg-1.bin')));
+
+    expect(danmaku[0]).toEqual({
+      time: 12.5,
+      type: 1,
+      size: 25,
+      color: 16777215,
+      timestamp: 1717243200,
+      pool: 0,
+      userHash: 'a1b2c3d4',
+      id: '1523452781463552000',
+      content: '前方高能',
+      weight: 5,
+    });
+    expect(danmaku.map(item => item.type)).toEqual([1, 5, 4, 7, 2]);
+  });
+});
+
+describe('BilibiliAPI.getSegmentedDanmaku', () => {
+  function mockSegments(segments: Record<number, string | null>) {
+    const requested: number[] = [];
+    const originalFetch = global.fetch;
+
+    global.fetch = (async (url: string | URL | Request) => {
+      const index = Number(new URL(url.toString()).searchParams.get('segment_index'));
+      requested.push(index);
+      const fixture = segments[index];
+      const body = fixture
+        ? await Bun.file(`${FIXTURE_DIR}/${fixture}`).arrayBuffer()
+        : new ArrayBuffer(0);
+      return new Response(body, { status: 200 });
+    }) as typeof fetch;
+
+    return { requested, restore: () => (global.fetch = originalFetch) };
+  }
+
+  test('should fetch every segment covering the duration and merge them', async () => {
+    const { requested, restore } = mockSegments({ 1: 'seg-1.bin', 2: 'seg-2.bin' });
+
+    const danmaku = await new BilibiliAPI().getSegmentedDanmaku(123, 700);
+    restore();
+
+    expect(requested).toEqual([1, 2]);
+    // The element repeated at the segment boundary is only kept once
+    expect(danmaku).toHaveLength(6);
+    expect(danmaku.map(item => item.time)).toEqual([3.2, 12.5, 45, 60, 359.9, 400.25]);
+  });
+
+  test('should keep fetching past an empty segment', async () => {
+    const { requested, restore } = mockSegments({ 1: 'seg-1.bin', 3: 'seg-2.bin' });
+
+    const danmaku = await new BilibiliAPI().getSegmentedDanmaku(123, 1000);
+    restore();
+
+    expect(requested).toEqual([1, 2, 3]);
+    expect(danmaku).toHaveLength(6);
+  });
+
+  test('should keep distinct danmaku that have no ID', async () => {
+    const api = new BilibiliAPI();
+    const idless = (time: number, content: string): BilibiliDanmaku => ({
+      time,
+      type: 1,
+      size: 25,
+      color: 16777215,
+      timestamp: 0,
+      pool: 0,
+      userHash: '',
+      id: '0',
+      content,
+    });
+    const segments: Record<number, BilibiliDanmaku[]> = {
+      1: [idless(10, '前方高能'), idless(20, '哈哈哈'), idless(359.5, '来了')],
+      2: [idless(359.5, '来了'), idless(400, '完结撒花')],
+    };
+    api.getDanmakuSegment = async (_cid, index) => segments[index] ?? [];
+
+    const danmaku = await api.getSegmentedDanmaku(123, 700);
+
+    // The element repeated at the boundary is still only kept once
+    expect(danmaku.map(item => item.content)).toEqual(['前方高能', '哈哈哈', '来了', '完结撒花']);
+  });
+
+  test('should require the duration', async () => {
+    const { requested, restore } = mockSegments({});
+
+    await expect(new BilibiliAPI().getSegmentedDanmaku(123, 0)).rejects.toThrow('Unknown duration');
+    restore();
+
+    expect(requested).toEqual([]);
+  });
+
+  test('should use the length of the requested part', () => {
+    const info = {
+      duration: 1200,
+      pages: [
+        { cid: 1, duration: 500 },
+        { cid: 2, duration: 700 },
+      ],
+    };
+
+    expect(partDuration(info, 2)).toBe(700);
+    expect(partDuration({ duration: 300 }, 9)).toBe(300);
+  });
+
+  test('should throw when a segment request fails', async () => {
+    const originalFetch = global.fetch;
+    global.fetch = (async () =>
+      new Response('', {
+        status: 412,
+        statusText: 'Precondition Failed',
+      })) as unknown as typeof fetch;
+
+    await expect(new BilibiliAPI().getDanmakuSegment(123, 1)).rejects.toThrow(
+      'Precondition Failed'
+    );
+    global.fetch = originalFetch;
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, test, expect } from 'bun:test';
+import { DEFAULT_DANMAKU_SETTINGS, toEngineOptions, toRenderStyle } from '../src/danmaku/settings';
+
+describe('danmaku settings', () => {
+  test('should map speed to scroll duration', () => {
+    expect(toEngineOptions(DEFAULT_DANMAKU_SETTINGS).scrollDuration).toBe(8);
+    expect(toEngineOptions({ ...DEFAULT_DANMAKU_SETTINGS, speed: 2 }).scrollDuration).toBe(4);
+    expect(toEngineOptions({ ...DEFAULT_DANMAKU_SETTINGS, speed: 0.5 }).scrollDuration).toBe(16);
+  });
+
+  test('should pass layout and style settings through', () => {
+    const settings = {
+      ...DEFAULT_DANMAKU_SETTINGS,
+      fontScale: 1.5,
+      displayArea: 0.25 as const,
+      opacity: 0.6,
+      stroke: 'none' as const,
+      maxOnScreen: 50,
+    };
+
+    expect(toEngineOptions(settings)).toMatchObject({
+      fontScale: 1.5,
+      displayArea: 0.25,
+      maxOnScreen: 50,
+    });
+    expect(toRenderStyle(settings)).toEqual({
+      opacity: 0.6,
+      fontFamily: DEFAULT_DANMAKU_SETTINGS.fontFamily,
+      stroke: 'none',
+    });
+  });
+});
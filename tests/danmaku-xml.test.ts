@@ -0,0 +1,124 @@
+import { describe, test, expect } from 'bun:test';
+import { decodeXmlEntities, isDanmakuMode, parseDanmakuXml } from '../src/api/danmaku-xml';
+import { BilibiliAPI } from '../src/api/bilibili';
+
+const FIXTURE = `${import.meta.dir}/fixtures/danmaku/list.xml`;
+
+describe('decodeXmlEntities', () => {
+  test('should decode named entities', () => {
+    expect(decodeXmlEntities('&lt;b&gt; &amp; &quot;x&quot; &apos;y&apos;')).toBe(
+      '<b> & "x" \'y\''
+    );
+  });
+
+  test('should decode decimal and hex references', () => {
+    expect(decodeXmlEntities('&#33;&#x1F602;&#X41;')).toBe('!😂A');
+  });
+
+  test('should leave unknown references untouched', () => {
+    expect(decodeXmlEntities('&foo; &#0; & alone')).toBe('&foo; &#0; & alone');
+  });
+
+  test('should not decode twice', () => {
+    expect(decodeXmlEntities('&amp;lt;')).toBe('&lt;');
+  });
+});
+
+describe('isDanmakuMode', () => {
+  test('should accept modes 1-8 only', () => {
+    expect([0, 1, 4, 8, 9, 1.5].map(isDanmakuMode)).toEqual([
+      false,
+      true,
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+});
+
+describe('parseDanmakuXml', () => {
+  test('should parse every valid element and report the rest', async () => {
+    const { danmaku, skipped } = parseDanmakuXml(await Bun.file(FIXTURE).text());
+
+    expect(danmaku.map(item => item.type)).toEqual([1, 5, 4, 7, 6, 2, 8]);
+    expect(skipped.map(item => item.reason)).toEqual([
+      'Unknown mode: 9',
+      'Invalid time: abc',
+      'Expected at least 8 p fields, got 3',
+    ]);
+    expect(skipped[0]?.raw).toContain('unknown mode');
+  });
+
+  test('should read all p fields including weight', async () => {
+    const { danmaku } = parseDanmakuXml(await Bun.file(FIXTURE).text());
+
+    expect(danmaku[0]).toEqual({
+      time: 12.5,
+      type: 1,
+      size: 25,
+      color: 16777215,
+      timestamp: 1717243200,
+      pool: 0,
+      userHash: 'a1b2c3d4',
+      id: '1523452781463552000',
+      content: '前方高能',
+      weight: 5,
+    });
+    expect(danmaku[2]?.weight).toBeUndefined();
+    expect(danmaku[2]?.pool).toBe(1);
+  });
+
+  test('should decode entities and keep CDATA verbatim', async () => {
+    const { danmaku } = parseDanmakuXml(await Bun.file(FIXTURE).text());
+
+    expect(danmaku[1]?.content).toBe('Tom & Jerry <3 😂!');
+    expect(danmaku[4]?.content).toBe('<reverse> & raw');
+  });
+
+  test('should accept empty and self-closing elements', async () => {
+    const { danmaku } = parseDanmakuXml(await Bun.file(FIXTURE).text());
+
+    expect(danmaku[5]?.content).toBe('');
+    expect(danmaku[6]?.content).toBe('');
+  });
+
+  test('should accept single-quoted attributes and extra attributes', () => {
+    const { danmaku } = parseDanmakuXml(`<i><d class="x" p='1,1,25,0,0,0,abc,1'>hi</d ></i>`);
+    expect(danmaku).toHaveLength(1);
+    expect(danmaku[0]?.content).toBe('hi');
+  });
+
+  test('should default a missing color to white and keep explicit black', () => {
+    const { danmaku } = parseDanmakuXml(
+      '<i><d p="1,1,25,,0,0,abc,1">a</d><d p="2,1,25,0,0,0,abc,2">b</d></i>'
+    );
+    expect(danmaku.map(d => d.color)).toEqual([16777215, 0]);
+  });
+
+  test('should report elements without a p attribute', () => {
+    const { danmaku, skipped } = parseDanmakuXml('<i><d>orphan</d></i>');
+    expect(danmaku).toHaveLength(0);
+    expect(skipped).toEqual([{ raw: '<d>orphan</d>', reason: 'Missing p attribute' }]);
+  });
+
+  test('should return nothing for a document without danmaku', () => {
+    expect(parseDanmakuXml('<i><chatid>1</chatid></i>')).toEqual({ danmaku: [], skipped: [] });
+  });
+});
+
+describe('BilibiliAPI.getDanmaku', () => {
+  test('should parse the XML list endpoint', async () => {
+    const originalFetch = global.fetch;
+    const xml = await Bun.file(FIXTURE).text();
+    global.fetch = (async () => new Response(xml, { status: 200 })) as unknown as typeof fetch;
+    const originalWarn = console.warn;
+    console.warn = () => {};
+
+    const danmaku = await new BilibiliAPI().getDanmaku(123);
+    global.fetch = originalFetch;
+    console.warn = originalWarn;
+
+    expect(danmaku).toHaveLength(7);
+  });
+});
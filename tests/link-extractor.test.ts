@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'bun:test';
+import { extractLinks, mergeLinks, resolveShortLinks } from '../src/utils/link-extractor';
+import { parseRedirectLinks } from '../src/api/youtube';
+
+describe('extractLinks', () => {
+  test('should find YouTube channels, handles and videos', () => {
+    const links = extractLinks(
+      '油管 youtube.com/channel/UCabcdefghijklmnopqrstuv，或者 youtube.com/@Moon.Lit ' +
+        '新视频 https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=1 和 youtu.be/abcdefghijk'
+    );
+
+    expect(links.youtubeChannelIds).toEqual(['UCabcdefghijklmnopqrstuv']);
+    expect(links.youtubeHandles).toEqual(['moon.lit']);
+    expect(links.youtubeVideoIds).toEqual(['dQw4w9WgXcQ', 'abcdefghijk']);
+  });
+
+  test('should read handles written without a URL', () => {
+    expect(extractLinks('YouTube：@PixelFox').youtubeHandles).toEqual(['pixelfox']);
+    expect(extractLinks('感谢 @PixelFox 的投稿').youtubeHandles).toEqual([]);
+  });
+
+  test('should find Bilibili spaces and videos', () => {
+    const links = extractLinks(
+      'space.bilibili.com/10003 | Bilibili: 10004 | B站UID：10005 | bilibili.com/video/BV1xx411c7mD'
+    );
+
+    expect(links.bilibiliUids).toEqual(['10003', '10004', '10005']);
+    expect(links.bilibiliVideoIds).toEqual(['BV1xx411c7mD']);
+  });
+
+  test('should ignore generic mentions of either platform', () => {
+    const links = extractLinks('Also on youtube.com and bilibili.com, UCLA alumni');
+
+    expect(mergeLinks(links)).toEqual(extractLinks(''));
+  });
+});
+
+describe('resolveShortLinks', () => {
+  test('should add what short links point at', async () => {
+    const links = extractLinks('主页 b23.tv/aB3dE9 和 https://b23.tv/broken1');
+    expect(links.shortLinks).toEqual(['https://b23.tv/aB3dE9', 'https://b23.tv/broken1']);
+
+    const resolved = await resolveShortLinks(links, async url => {
+      if (url.endsWith('broken1')) throw new Error('timeout');
+      return 'https://space.bilibili.com/10017?spm_id_from=333';
+    });
+    expect(resolved.bilibiliUids).toEqual(['10017']);
+  });
+});
+
+describe('parseRedirectLinks', () => {
+  test('should unwrap redirect targets from the About page', () => {
+    const html =
+      '"url":"https://www.youtube.com/redirect?event=channel_header\\u0026q=https%3A%2F%2Fb23.tv%2FaB3dE9"' +
+      ' href="https://www.youtube.com/redirect?q=https%3A%2F%2Fb23.tv%2FaB3dE9&amp;v=1"';
+
+    expect(parseRedirectLinks(html)).toEqual(['https://b23.tv/aB3dE9']);
+  });
+});
@@ -125,6 +125,99 @@ describe('MappingClient', () => {
 
       global.fetch = originalFetch;
     });
+
+    test('should look up handles by their normalized form', async () => {
+      const client = new MappingClient();
+      const requested: string[] = [];
+
+      const originalFetch = global.fetch;
+      global.fetch = (async (url: string | URL | Request) => {
+        const urlStr = url.toString();
+        requested.push(urlStr);
+
+        if (urlStr.includes('index.json')) {
+          return new Response(JSON.stringify({ '@testchannel': 'ab/cd/abcdef12.json' }), {
+            status: 200,
+          });
+        }
+        return new Response(JSON.stringify({ youtubeChannelId: 'UCtest' }), { status: 200 });
+      }) as typeof fetch;
+
+      const result = await client.getMappingByYouTubeId('TestChannel');
+      expect(result?.youtubeChannelId).toBe('UCtest');
+      expect(requested.at(-1)).toEndWith('y2b/ab/cd/abcdef12.json');
+
+      global.fetch = originalFetch;
+    });
+  });
+
+  describe('video mappings', () => {
+    const videoMapping = {
+      bvid: 'BV1xx411c7mD',
+      cid: 987654,
+      youtubeVideoId: 'dQw4w9WgXcQ',
+      timeOffset: -3.5,
+      confidence: 0.92,
+      verifiedAt: '2024-01-01T00:00:00.000Z',
+      verifiedBy: 'auto',
+    };
+
+    function mockVideoFetch(requested: string[]) {
+      return (async (url: string | URL | Request) => {
+        const urlStr = url.toString();
+        requested.push(urlStr);
+
+        if (urlStr.includes('videos/index.json')) {
+          return new Response(
+            JSON.stringify({
+              BV1xx411c7mD: 'ab/cd/abcdef12.json',
+              dQw4w9WgXcQ: 'ab/cd/abcdef12.json',
+            }),
+            { status: 200 }
+          );
+        }
+
+        return new Response(JSON.stringify(videoMapping), { status: 200 });
+      }) as typeof fetch;
+    }
+
+    test('should look up a video pair by YouTube video ID', async () => {
+      const client = new MappingClient();
+      const requested: string[] = [];
+
+      const originalFetch = global.fetch;
+      global.fetch = mockVideoFetch(requested);
+
+      const result = await client.getVideoMappingByYouTubeId('dQw4w9WgXcQ');
+      expect(result?.cid).toBe(987654);
+      expect(result?.timeOffset).toBe(-3.5);
+      expect(requested.some(url => url.endsWith('/videos/ab/cd/abcdef12.json'))).toBe(true);
+
+      global.fetch = originalFetch;
+    });
+
+    test('should look up a video pair by BV ID', async () => {
+      const client = new MappingClient();
+
+      const originalFetch = global.fetch;
+      global.fetch = mockVideoFetch([]);
+
+      const result = await client.getVideoMappingByBvid('BV1xx411c7mD');
+      expect(result?.youtubeVideoId).toBe('dQw4w9WgXcQ');
+
+      global.fetch = originalFetch;
+    });
+
+    test('should return null for an unknown video', async () => {
+      const client = new MappingClient();
+
+      const originalFetch = global.fetch;
+      global.fetch = mockVideoFetch([]);
+
+      expect(await client.getVideoMappingByYouTubeId('unknown')).toBeNull();
+
+      global.fetch = originalFetch;
+    });
   });
 
   describe('error handling', () => {
@@ -0,0 +1,28 @@
+import { describe, test, expect } from 'bun:test';
+import crypto from 'crypto';
+import { md5Hex } from '../src/utils/md5';
+
+describe('md5Hex', () => {
+  test('should match the RFC 1321 test suite', () => {
+    expect(md5Hex('')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    expect(md5Hex('a')).toBe('0cc175b9c0f1b6a831c399e269772661');
+    expect(md5Hex('abc')).toBe('900150983cd24fb0d6963f7d28e17f72');
+    expect(md5Hex('message digest')).toBe('f96b697d7cb7938d525a2f31aaf161d0');
+    expect(md5Hex('abcdefghijklmnopqrstuvwxyz')).toBe('c3fcd3d76192e4007dfb496cca67e13b');
+    expect(
+      md5Hex('12345678901234567890123456789012345678901234567890123456789012345678901234567890')
+    ).toBe('57edf4a22be3c955ac49da2e2107b67a');
+  });
+
+  test('should hash the UTF-8 bytes across block boundaries', () => {
+    for (const text of [
+      '弹幕',
+      'x'.repeat(55),
+      'y'.repeat(56),
+      'z'.repeat(64),
+      '哔哩'.repeat(50),
+    ]) {
+      expect(md5Hex(text)).toBe(crypto.createHash('md5').update(text).digest('hex'));
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  nameSimilarity,
+  nameVariants,
+  normalizeName,
+  toPinyin,
+  toSimplified,
+} from '../src/utils/name-matching';
+
+describe('normalizeName', () => {
+  test('should drop separators and platform words', () => {
+    expect(normalizeName('Test_User-Official Channel')).toBe('testuser');
+    expect(normalizeName('测试用户频道')).toBe('测试用户');
+    expect(normalizeName('测试用户官方')).toBe('测试用户');
+  });
+
+  test('should fold full-width characters and strip emoji', () => {
+    expect(normalizeName('ＴｅｓｔＵｓｅｒ１２３')).toBe('testuser123');
+    expect(normalizeName('🎮 Game★Box 🇨🇳')).toBe('gamebox');
+    expect(normalizeName('【小明】の日常！')).toBe('小明の日常');
+  });
+
+  test('should convert traditional characters to simplified', () => {
+    expect(toSimplified('夜貓電台')).toBe('夜猫电台');
+    expect(normalizeName('官方頻道測試')).toBe('测试');
+  });
+});
+
+describe('toPinyin', () => {
+  test('should transliterate without tones', () => {
+    expect(toPinyin('林间小屋')).toEqual(['linjianxiaowu']);
+    expect(toPinyin('绿')).toEqual(['lu']);
+  });
+
+  test('should try every reading of polyphones', () => {
+    expect(toPinyin('老番茄')).toEqual(['laofanqie', 'laofanjia']);
+    expect(toPinyin('长乐')).toEqual(['changle', 'changyue', 'zhangle', 'zhangyue']);
+    expect(toPinyin('长长长长')).toHaveLength(8);
+  });
+
+  test('should keep characters without a reading', () => {
+    expect(toPinyin('小明abc')).toEqual(['xiaomingabc']);
+  });
+});
+
+describe('nameSimilarity', () => {
+  test('should match romanized names', () => {
+    expect(nameSimilarity('老番茄', 'Lao Fan Qie')).toBe(1);
+    expect(nameSimilarity('Linjian Xiaowu', '林间小屋')).toBe(1);
+  });
+
+  test('should match across simplified and traditional characters', () => {
+    expect(nameSimilarity('夜猫电台', '夜貓電台')).toBe(1);
+  });
+
+  test('should match known aliases', () => {
+    expect(nameSimilarity('影视飓风', 'MediaStorm')).toBe(1);
+    expect(nameVariants('MediaStorm')).toContain('yingshijufeng');
+    expect(nameSimilarity('小明', 'Ming Studio', [['小明', 'Ming Studio']])).toBe(1);
+    expect(nameSimilarity('影视飓风', 'MediaStorm', [])).toBeLessThan(0.5);
+  });
+
+  test('should keep unrelated names apart', () => {
+    expect(nameSimilarity('山海小馆', 'Mountain Sea Diner')).toBeLessThan(0.6);
+    expect(nameSimilarity('TestUser', 'CompletelyDifferentName')).toBeLessThan(0.6);
+    expect(nameSimilarity('🎮', 'TestUser')).toBe(0);
+  });
+});
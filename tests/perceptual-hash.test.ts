@@ -0,0 +1,105 @@
+import { describe, test, expect } from 'bun:test';
+import { decodeImage } from '../src/utils/image-decoder';
+import {
+  averageHash,
+  hammingDistance,
+  hashImage,
+  hashSimilarity,
+  resizeGray,
+} from '../src/utils/perceptual-hash';
+
+const FIXTURE_DIR = `${import.meta.dir}/fixtures/avatars`;
+
+async function loadFixture(name: string): Promise<Uint8Array> {
+  return new Uint8Array(await Bun.file(`${FIXTURE_DIR}/${name}`).arrayBuffer());
+}
+
+async function hashFixture(name: string) {
+  return hashImage(decodeImage(await loadFixture(name)));
+}
+
+describe('decodeImage', () => {
+  test('should decode PNG and JPEG variants to grayscale', async () => {
+    const sizes: Record<string, number> = {
+      'avatar.png': 128,
+      'avatar-palette.png': 128,
+      'avatar-interlaced.png': 128,
+      'avatar.jpg': 256,
+      'avatar-small.jpg': 88,
+      'avatar-progressive.jpg': 128,
+      'avatar-gray.jpg': 128,
+    };
+
+    for (const [name, size] of Object.entries(sizes)) {
+      const image = decodeImage(await loadFixture(name));
+      expect([image.width, image.height]).toEqual([size, size]);
+      expect(image.data).toHaveLength(size * size);
+    }
+  });
+
+  test('should decode interlaced and palette PNGs like the plain image', async () => {
+    const plain = decodeImage(await loadFixture('avatar-interlaced.png'));
+    const palette = decodeImage(await loadFixture('avatar-palette.png'));
+
+    const differences = plain.data.map((value, index) => Math.abs(value - palette.data[index]!));
+    expect(differences.reduce((sum, value) => sum + value, 0) / differences.length).toBeLessThan(3);
+  });
+
+  test('should composite transparent corners onto white', async () => {
+    const image = decodeImage(await loadFixture('avatar.png'));
+    expect(image.data[0]).toBe(255);
+    expect(image.data[64 * 128 + 64]).toBeLessThan(255);
+  });
+
+  test('should decode progressive JPEGs like baseline ones', async () => {
+    const baseline = resizeGray(decodeImage(await loadFixture('avatar.jpg')), 16, 16);
+    const progressive = resizeGray(
+      decodeImage(await loadFixture('avatar-progressive.jpg')),
+      16,
+      16
+    );
+
+    const differences = baseline.map((value, index) => Math.abs(value - progressive[index]!));
+    expect(Math.max(...differences)).toBeLessThan(8);
+  });
+
+  test('should reject unsupported or corrupt images', async () => {
+    const png = await loadFixture('avatar.png');
+    const jpeg = await loadFixture('avatar.jpg');
+
+    expect(() => decodeImage(new TextEncoder().encode('GIF89a'))).toThrow('Unsupported');
+    expect(() => decodeImage(png.subarray(0, 40))).toThrow();
+    expect(() => decodeImage(jpeg.subarray(0, 100))).toThrow();
+  });
+});
+
+describe('perceptual hashes', () => {
+  test('should resize by area averaging', () => {
+    const image = { width: 4, height: 2, data: new Uint8Array([0, 100, 200, 200, 0, 100, 0, 0]) };
+    expect([...resizeGray(image, 2, 1)]).toEqual([50, 100]);
+    expect([...resizeGray(image, 1, 1)]).toEqual([75]);
+  });
+
+  test('should hash a flat image to all zero bits', () => {
+    const image = { width: 8, height: 8, data: new Uint8Array(64).fill(90) };
+    expect(averageHash(image)).toBe(0n);
+  });
+
+  test('should count differing bits', () => {
+    expect(hammingDistance(0b1011n, 0b0010n)).toBe(2);
+    expect(hammingDistance(2n ** 64n - 1n, 0n)).toBe(64);
+  });
+
+  test('should survive re-encoding, resizing and progressive encoding', async () => {
+    const original = await hashFixture('avatar.jpg');
+
+    for (const name of ['avatar-small.jpg', 'avatar-progressive.jpg', 'avatar-interlaced.png']) {
+      expect(hashSimilarity(original, await hashFixture(name))).toBeGreaterThan(0.9);
+    }
+  });
+
+  test('should tell different avatars apart', async () => {
+    const original = await hashFixture('avatar.jpg');
+    expect(hashSimilarity(original, await hashFixture('other.jpg'))).toBeLessThan(0.8);
+  });
+});
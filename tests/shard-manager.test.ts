@@ -1,6 +1,10 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { ShardManager } from '../src/storage/shard-manager';
-import type { UserMapping } from '../types';
+import {
+  ShardManager,
+  videoMappingIndexKeys,
+  youtubeMappingIndexKeys,
+} from '../src/storage/shard-manager';
+import type { UserMapping, VideoMapping } from '../types';
 import { rm, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 
@@ -210,6 +214,49 @@ describe('ShardManager', () => {
       expect(index['111']).toBeDefined();
       expect(index['UC1']).toBeDefined();
     });
+
+    test('should index YouTube mappings by handle too', async () => {
+      const y2bManager = new ShardManager(testDataDir, undefined, youtubeMappingIndexKeys);
+
+      await y2bManager.writeMapping('UC1', {
+        bilibiliUid: '111',
+        bilibiliUsername: 'User1',
+        youtubeChannelId: 'UC1',
+        youtubeChannelName: 'Channel',
+        youtubeHandle: '@Channel.One',
+        verificationLevel: 1,
+        verifiedAt: '2024-01-01T00:00:00.000Z',
+        verifiedBy: 'auto',
+      });
+
+      const index = await y2bManager.buildIndex();
+
+      expect(index['@channel.one']).toBe(y2bManager.getShardPath('UC1'));
+      expect(index['UC1']).toBe(y2bManager.getShardPath('UC1'));
+    });
+
+    test('should index video mappings by both video IDs', async () => {
+      const videoManager = new ShardManager<VideoMapping>(
+        testDataDir,
+        undefined,
+        videoMappingIndexKeys
+      );
+
+      await videoManager.writeMapping('dQw4w9WgXcQ', {
+        bvid: 'BV1xx411c7mD',
+        cid: 987654,
+        youtubeVideoId: 'dQw4w9WgXcQ',
+        timeOffset: 0,
+        confidence: 0.9,
+        verifiedAt: '2024-01-01T00:00:00.000Z',
+        verifiedBy: 'auto',
+      });
+
+      const index = await videoManager.buildIndex();
+
+      expect(index['BV1xx411c7mD']).toBe(videoManager.getShardPath('dQw4w9WgXcQ'));
+      expect(index['dQw4w9WgXcQ']).toBe(videoManager.getShardPath('dQw4w9WgXcQ'));
+    });
   });
 
   describe('batchWrite', () => {
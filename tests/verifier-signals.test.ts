@@ -0,0 +1,303 @@
+import { describe, test, expect } from 'bun:test';
+import { tmpdir } from 'os';
+import {
+  SignalRegistry,
+  createDefaultSignals,
+  bioLinkSignal,
+  customUrlSignal,
+  followerRatioSignal,
+  nameSimilaritySignal,
+  videoLinkSignal,
+  videoOverlapSignal,
+} from '../src/workflows/signals';
+import type { SignalContext } from '../src/workflows/signals';
+import {
+  DEFAULT_VERIFIER_CONFIG,
+  loadVerifierConfig,
+  parseVerifierConfig,
+} from '../src/workflows/verifier-config';
+import type { BilibiliVideo, YouTubeVideo } from '../types';
+
+function biliVideo(bvid: string, title: string, length: string, created: string): BilibiliVideo {
+  return {
+    bvid,
+    title,
+    length,
+    created: Date.parse(created) / 1000,
+    pic: `https://i0.hdslb.com/${bvid}.jpg`,
+  } as BilibiliVideo;
+}
+
+function ytVideo(id: string, title: string, duration: string, publishedAt: string): YouTubeVideo {
+  return {
+    id,
+    title,
+    duration,
+    publishedAt,
+    thumbnails: { medium: `https://i.ytimg.com/vi/${id}/mqdefault.jpg` },
+  } as YouTubeVideo;
+}
+
+function createContext(overrides: Partial<SignalContext> = {}): SignalContext {
+  return {
+    biliUser: {
+      uid: '123456',
+      name: 'TestUser',
+      face: '',
+      sign: '',
+      follower: 10000,
+      level: 6,
+    },
+    ytChannel: {
+      id: 'UCtest',
+      title: 'TestUser',
+      description: '',
+      customUrl: '@testuser',
+      thumbnails: { default: '', medium: '', high: '' },
+      subscriberCount: 8000,
+      verified: false,
+    },
+    getBiliVideos: async () => [],
+    getYtVideos: async () => [],
+    getYtLinks: async () => [],
+    loadImageHashes: async () => {
+      throw new Error('not used');
+    },
+    resolveShortLink: async () => null,
+    ...overrides,
+  };
+}
+
+describe('verification signals', () => {
+  test('should pair translated uploads by length, upload time and thumbnail', async () => {
+    const context = createContext({
+      getBiliVideos: async () => [
+        biliVideo('BV1', '手工做一张胡桃木茶几', '12:34', '2024-09-20T08:00:00Z'),
+        biliVideo('BV2', '榫卯结构入门', '8:05', '2024-09-13T08:00:00Z'),
+        biliVideo('BV3', 'Bilibili only', '8:05', '2024-06-01T08:00:00Z'),
+      ],
+      getYtVideos: async () => [
+        ytVideo('yt1', 'Building a Walnut Coffee Table', 'PT12M35S', '2024-09-20T15:00:00Z'),
+        ytVideo('yt2', 'Joinery Basics', 'PT8M5S', '2024-09-14T15:00:00Z'),
+        ytVideo('yt3', '榫卯结构入门', 'PT20M', '2024-09-13T09:00:00Z'),
+      ],
+      // Only BV1 and yt1 share a thumbnail; other Bilibili ones hash to all zeros, YouTube ones to all ones
+      loadImageHashes: async url => {
+        const shared = url.includes('BV1') || url.includes('yt1');
+        const hash = shared ? 0x5555555555555555n : url.includes('hdslb') ? 0n : 2n ** 64n - 1n;
+        return { aHash: hash, dHash: hash, pHash: hash };
+      },
+    });
+
+    const result = await videoOverlapSignal.evaluate(context, {});
+    expect(result?.value).toBe(1);
+    expect(result?.detail).toBe('1 of 3 uploads');
+    expect((await videoOverlapSignal.evaluate(context, { minEvidence: 3 }))?.value).toBe(1);
+    expect((await videoOverlapSignal.evaluate(context, { minEvidence: 4 }))?.value).toBe(0);
+  });
+
+  test('should not pair unrelated uploads on length and upload time alone', async () => {
+    const context = createContext({
+      getBiliVideos: async () => [
+        biliVideo('BV1', '今天做了红烧肉', '10:02', '2024-09-20T08:00:00Z'),
+      ],
+      getYtVideos: async () => [
+        ytVideo('yt1', 'Fixing an old bicycle', 'PT10M3S', '2024-09-22T08:00:00Z'),
+      ],
+      loadImageHashes: async url => {
+        const hash = url.includes('hdslb') ? 0n : 2n ** 64n - 1n;
+        return { aHash: hash, dHash: hash, pHash: hash };
+      },
+    });
+
+    expect((await videoOverlapSignal.evaluate(context, {}))?.value).toBe(0);
+  });
+
+  test('should download each thumbnail once, a few at a time', async () => {
+    const loaded: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const context = createContext({
+      getBiliVideos: async () =>
+        Array.from({ length: 10 }, (_, index) =>
+          biliVideo(`BV${index}`, `视频${index}`, '10:00', '2024-09-20T08:00:00Z')
+        ),
+      getYtVideos: async () =>
+        Array.from({ length: 10 }, (_, index) =>
+          ytVideo(`yt${index}`, `Video ${index}`, 'PT10M', '2024-09-20T08:00:00Z')
+        ),
+      loadImageHashes: async url => {
+        loaded.push(url);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+        // Far-apart hashes per index, shared by the uploads with that index
+        const index = BigInt(url.match(/(?:BV|yt)(\d+)/)![1]!);
+        const hash = ((index + 1n) * 0x9e3779b97f4a7c15n) & (2n ** 64n - 1n);
+        return { aHash: hash, dHash: hash, pHash: hash };
+      },
+    });
+
+    // Every upload has the same length and date, so only the thumbnails tell them apart
+    expect((await videoOverlapSignal.evaluate(context, {}))?.value).toBe(10);
+    expect(loaded).toHaveLength(20);
+    expect(maxInFlight).toBeLessThanOrEqual(4);
+  });
+
+  test('should pair uploads with matching thumbnails', async () => {
+    const hashes = { aHash: 0n, dHash: 0n, pHash: 0n };
+    const loaded: string[] = [];
+    const context = createContext({
+      getBiliVideos: async () => [
+        biliVideo('BV1', 'Same title', '10:00', '2024-01-01T00:00:00Z'),
+        biliVideo('BV2', 'Different', '30:00', '2024-01-01T00:00:00Z'),
+      ],
+      getYtVideos: async () => [ytVideo('yt1', 'Another title', 'PT10M1S', '2024-09-01T00:00:00Z')],
+      loadImageHashes: async url => {
+        loaded.push(url);
+        return hashes;
+      },
+    });
+
+    expect((await videoOverlapSignal.evaluate(context, {}))?.value).toBe(1);
+    expect(loaded).toEqual([
+      'https://i0.hdslb.com/BV1.jpg',
+      'https://i.ytimg.com/vi/yt1/mqdefault.jpg',
+    ]);
+  });
+
+  test('should compare names across scripts', async () => {
+    const context = createContext();
+    context.biliUser = { ...context.biliUser, name: '老番茄' };
+    context.ytChannel = { ...context.ytChannel, title: 'Lao Fan Qie Official' };
+
+    expect((await nameSimilaritySignal.evaluate(context, {}))?.value).toBe(1);
+  });
+
+  test('should compare the YouTube handle with the username', async () => {
+    const result = await customUrlSignal.evaluate(createContext(), {});
+    expect(result?.value).toBe(1);
+    expect(result?.metadata?.customUrlSimilarity).toBe(1);
+
+    const { customUrl: _, ...withoutHandle } = createContext().ytChannel;
+    expect(await customUrlSignal.evaluate(createContext({ ytChannel: withoutHandle }), {})).toBe(
+      null
+    );
+  });
+
+  test('should find links to the counterpart in video descriptions', async () => {
+    const ytVideo = { id: 'dQw4w9WgXcQ', description: '' } as YouTubeVideo;
+    const context = createContext({
+      getBiliVideos: async () => [
+        { bvid: 'BV1xx411c7mD', description: '完整版：youtu.be/dQw4w9WgXcQ' } as BilibiliVideo,
+      ],
+      getYtVideos: async () => [ytVideo],
+    });
+
+    const result = await videoLinkSignal.evaluate(context, {});
+    expect(result?.value).toBe(1);
+    expect(result?.detail).toBe('Bilibili video descriptions → video dQw4w9WgXcQ');
+
+    ytVideo.id = 'otherVideo0';
+    expect((await videoLinkSignal.evaluate(context, {}))?.value).toBe(0);
+  });
+
+  test("should not take a reuploader's source links for a bio link", async () => {
+    // A reupload account credits the original upload under every video, channel link included
+    const context = createContext({
+      getBiliVideos: async () => [
+        {
+          bvid: 'BV1xx411c7mD',
+          description: '转载自 youtube.com/watch?v=dQw4w9WgXcQ 原作者 youtube.com/@testuser',
+        } as BilibiliVideo,
+      ],
+      getYtVideos: async () => [{ id: 'dQw4w9WgXcQ', description: '' } as YouTubeVideo],
+    });
+
+    const bioLink = await bioLinkSignal.evaluate(context, {});
+    expect(bioLink?.value).toBe(0);
+    expect(bioLink?.metadata?.bioMatch).toBe(false);
+    expect((await videoLinkSignal.evaluate(context, {}))?.value).toBe(1);
+
+    // Video links only ever add a small Level 3 weight
+    const bands = DEFAULT_VERIFIER_CONFIG.signals['videoLink']?.bands ?? [];
+    expect(Math.max(...bands.map(band => band.weight))).toBeLessThanOrEqual(0.1);
+    expect(
+      DEFAULT_VERIFIER_CONFIG.shortcuts.some(shortcut => 'videoLink' in shortcut.requires)
+    ).toBe(false);
+  });
+
+  test('should skip the follower ratio without both counts', async () => {
+    expect((await followerRatioSignal.evaluate(createContext(), {}))?.value).toBe(0.8);
+
+    const context = createContext();
+    context.biliUser = { ...context.biliUser, follower: 0 };
+    expect(await followerRatioSignal.evaluate(context, {})).toBe(null);
+  });
+
+  test('should reject duplicate signal names', () => {
+    expect(() => createDefaultSignals().register(customUrlSignal)).toThrow('already registered');
+    expect(new SignalRegistry().register(customUrlSignal).has('customUrl')).toBe(true);
+  });
+});
+
+describe('verifier config', () => {
+  test('should only refer to built-in signals by default', () => {
+    const signals = createDefaultSignals();
+    const names = [
+      ...Object.keys(DEFAULT_VERIFIER_CONFIG.signals),
+      ...DEFAULT_VERIFIER_CONFIG.shortcuts.flatMap(shortcut => Object.keys(shortcut.requires)),
+    ];
+
+    expect(names.every(name => signals.has(name))).toBe(true);
+    expect(DEFAULT_VERIFIER_CONFIG.threshold).toBe(0.7);
+  });
+
+  test('should layer overrides on the defaults', () => {
+    const config = parseVerifierConfig(
+      {
+        signals: { customUrl: { bands: [{ min: 1, weight: 0.2, reason: 'Same handle' }] } },
+        threshold: 0.8,
+      },
+      DEFAULT_VERIFIER_CONFIG
+    );
+
+    expect(config.threshold).toBe(0.8);
+    expect(config.signals['customUrl']?.bands).toEqual([
+      { min: 1, weight: 0.2, reason: 'Same handle' },
+    ]);
+    expect(config.signals['nameSimilarity']).toEqual(
+      DEFAULT_VERIFIER_CONFIG.signals['nameSimilarity']!
+    );
+    expect(config.shortcuts).toEqual(DEFAULT_VERIFIER_CONFIG.shortcuts);
+  });
+
+  test('should reject malformed configs', () => {
+    expect(() => parseVerifierConfig({ threshold: 0.7 })).toThrow('required');
+    expect(() =>
+      parseVerifierConfig(
+        { signals: { nameSimilarity: { bands: [{ min: '0.8', weight: 0.4, reason: 'x' }] } } },
+        DEFAULT_VERIFIER_CONFIG
+      )
+    ).toThrow('signals.nameSimilarity.bands[0]');
+    expect(() =>
+      parseVerifierConfig(
+        { shortcuts: [{ level: 3, requires: {}, confidence: 1 }] },
+        DEFAULT_VERIFIER_CONFIG
+      )
+    ).toThrow('shortcuts[0].level');
+  });
+
+  test('should load a config file', async () => {
+    const path = `${tmpdir()}/verifier-config-${process.pid}.json`;
+    await Bun.write(path, JSON.stringify({ shortcuts: [] }));
+
+    const config = await loadVerifierConfig(path);
+    expect(config.shortcuts).toEqual([]);
+    expect(config.signals).toEqual(DEFAULT_VERIFIER_CONFIG.signals);
+
+    await Bun.file(path).delete();
+    await expect(loadVerifierConfig(path)).rejects.toThrow('not found');
+  });
+});
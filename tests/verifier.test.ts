@@ -1,5 +1,9 @@
 import { describe, test, expect, mock } from 'bun:test';
 import { UserVerifier } from '../src/workflows/verifier';
+import { decodeImage } from '../src/utils/image-decoder';
+import { hashImage } from '../src/utils/perceptual-hash';
+import { createDefaultSignals } from '../src/workflows/signals';
+import { DEFAULT_VERIFIER_CONFIG, parseVerifierConfig } from '../src/workflows/verifier-config';
 import type { BilibiliUser, YouTubeChannel } from '../types';
 
 describe('UserVerifier', () => {
@@ -65,6 +69,7 @@ describe('UserVerifier', () => {
         viewCount: 1000,
       },
     ]),
+    getChannelLinks: mock(async (): Promise<string[]> => []),
     isChannelVerified: mock(async () => false),
   } as any;
 
@@ -90,6 +95,7 @@ describe('UserVerifier', () => {
       expect(result.level).toBe(1);
       expect(result.confidence).toBeGreaterThanOrEqual(0.95);
       expect(result.metadata?.youtubeVerified).toBe(true);
+      expect(result.mapping?.youtubeHandle).toBe('@test');
     });
 
     test('should not verify as Level 1 if names do not match', async () => {
@@ -120,13 +126,13 @@ describe('UserVerifier', () => {
         uid: '123456',
         name: 'TestUser',
         face: 'avatar.jpg',
-        sign: 'Check out my YouTube channel: UCtest123',
+        sign: 'Check out my YouTube channel: UCtest1234567890123456ab',
         follower: 10000,
         level: 6,
       });
 
       mockYtApi.getChannel.mockResolvedValueOnce({
-        id: 'UCtest123',
+        id: 'UCtest1234567890123456ab',
         title: 'Test Channel',
         description: 'Test',
         customUrl: '@test',
@@ -136,7 +142,7 @@ describe('UserVerifier', () => {
         verified: false,
       });
 
-      const result = await verifier.verify('123456', 'UCtest123');
+      const result = await verifier.verify('123456', 'UCtest1234567890123456ab');
 
       expect(result.success).toBe(true);
       expect(result.level).toBe(2);
@@ -173,6 +179,53 @@ describe('UserVerifier', () => {
       expect(result.level).toBe(2);
       expect(result.metadata?.bioMatch).toBe(true);
     });
+
+    test('should verify when a channel link expands to the Bilibili space', async () => {
+      const verifier = new UserVerifier(mockBiliApi, mockYtApi, {
+        resolveShortLink: async url =>
+          url === 'https://b23.tv/aB3dE9' ? 'https://space.bilibili.com/123456' : null,
+      });
+
+      mockBiliApi.getUserInfo.mockResolvedValueOnce({
+        uid: '123456',
+        name: 'TestUser',
+        face: 'avatar.jpg',
+        sign: 'Regular bio',
+        follower: 10000,
+        level: 6,
+      });
+      mockYtApi.getChannelLinks.mockResolvedValueOnce(['https://b23.tv/aB3dE9']);
+
+      const result = await verifier.verify('123456', 'UCtest');
+
+      expect(result.level).toBe(2);
+      expect(result.reasons[0]).toContain('YouTube channel links');
+    });
+
+    test('should not count a link to YouTube in general', async () => {
+      const verifier = new UserVerifier(mockBiliApi, mockYtApi);
+
+      mockBiliApi.getUserInfo.mockResolvedValueOnce({
+        uid: '123456',
+        name: 'TestUser',
+        face: 'avatar.jpg',
+        sign: '也在 youtube.com 更新，uid 不一样',
+        follower: 10000,
+        level: 6,
+      });
+      mockYtApi.getChannel.mockResolvedValueOnce({
+        id: 'UCtest',
+        title: 'Test Channel',
+        description: 'Regular description',
+        thumbnails: { default: '', medium: '', high: '' },
+        verified: false,
+      });
+
+      const result = await verifier.verify('123456', 'UCtest');
+
+      expect(result.level).not.toBe(2);
+      expect(result.metadata.bioMatch).toBe(false);
+    });
   });
 
   describe('verify - Level 3 (Similarity-based)', () => {
@@ -344,6 +397,188 @@ describe('UserVerifier', () => {
     });
   });
 
+  describe('verify - avatar similarity', () => {
+    // Serves https://img.test/<fixture> from the avatar fixtures
+    const loadFixtureHashes = mock(async (url: string) => {
+      const name = url.replace('https://img.test/', '');
+      const file = Bun.file(`${import.meta.dir}/fixtures/avatars/${name}`);
+      return hashImage(decodeImage(new Uint8Array(await file.arrayBuffer())));
+    });
+
+    function mockAvatars(face: string, thumbnail: string) {
+      mockBiliApi.getUserInfo.mockResolvedValueOnce({
+        uid: '123456',
+        name: 'TestUser',
+        face,
+        sign: 'Regular bio',
+        follower: 10000,
+        level: 6,
+      });
+      mockYtApi.getChannel.mockResolvedValueOnce({
+        id: 'UCtest',
+        title: 'TestUser',
+        description: 'Regular description',
+        thumbnails: { default: '', medium: '', high: thumbnail },
+        subscriberCount: 100,
+        verified: false,
+      });
+      mockBiliApi.getUserVideos.mockResolvedValueOnce([]);
+      mockYtApi.getChannelVideos.mockResolvedValueOnce([]);
+    }
+
+    test('should verify matching names and avatars at Level 3', async () => {
+      const verifier = new UserVerifier(mockBiliApi, mockYtApi, {
+        loadImageHashes: loadFixtureHashes,
+      });
+      mockAvatars('https://img.test/avatar-small.jpg', 'https://img.test/avatar.jpg');
+
+      const result = await verifier.verify('123456', 'UCtest');
+
+      expect(result.level).toBe(3);
+      expect(result.confidence).toBeCloseTo(0.7);
+      expect(result.metadata.avatarSimilarity).toBeGreaterThan(0.9);
+      expect(result.reasons.some(reason => reason.startsWith('Avatars match'))).toBe(true);
+    });
+
+    test('should not count different avatars', async () => {
+      const verifier = new UserVerifier(mockBiliApi, mockYtApi, {
+        loadImageHashes: loadFixtureHashes,
+      });
+      mockAvatars('https://img.test/other.jpg', 'https://img.test/avatar.jpg');
+
+      const result = await verifier.verify('123456', 'UCtest');
+
+      expect(result.level).toBe(4);
+      expect(result.metadata.avatarSimilarity).toBeLessThan(0.8);
+    });
+
+    test('should skip placeholder avatars and failed downloads', async () => {
+      const failing = mock(async () => {
+        throw new Error('404');
+      });
+      const verifier = new UserVerifier(mockBiliApi, mockYtApi, { loadImageHashes: failing });
+      const originalWarn = console.warn;
+      console.warn = () => {};
+
+      try {
+        mockAvatars('https://i0.hdslb.com/bfs/face/member/noface.jpg', 'https://img.test/a.jpg');
+        expect(
+          (await verifier.verify('123456', 'UCtest')).metadata.avatarSimilarity
+        ).toBeUndefined();
+        expect(failing).not.toHaveBeenCalled();
+
+        mockAvatars('https://img.test/a.jpg', 'https://img.test/b.jpg');
+        const result = await verifier.verify('123456', 'UCtest');
+        expect(result.metadata.avatarSimilarity).toBeUndefined();
+        expect(result.level).toBe(4);
+      } finally {
+        console.warn = originalWarn;
+      }
+    });
+  });
+
+  describe('verify - uploads', () => {
+    test('should page through Bilibili uploads', async () => {
+      const verifier = new UserVerifier(mockBiliApi, mockYtApi);
+      const video = (bvid: string, title: string, length: string) => ({
+        bvid,
+        title,
+        length,
+        pic: '',
+        created: Date.parse('2024-01-01T08:00:00Z') / 1000,
+      });
+
+      mockBiliApi.getUserVideos.mockClear();
+      mockBiliApi.getUserVideos
+        .mockResolvedValueOnce(
+          Array.from({ length: 30 }, (_, i) => video(`BV${i}`, 'Short', '1:00'))
+        )
+        .mockResolvedValueOnce([video('BV30', 'Test Video 1', '10:01')]);
+
+      const result = await verifier.verify('123456', 'UCtest');
+
+      expect(mockBiliApi.getUserVideos.mock.calls).toEqual([
+        ['123456', 1, 30],
+        ['123456', 2, 30],
+      ]);
+      expect(result.metadata.matchingVideos).toBe(1);
+    });
+  });
+
+  describe('verify - configured signals', () => {
+    function mockBioMatch() {
+      mockBiliApi.getUserInfo.mockResolvedValueOnce({
+        uid: '123456',
+        name: 'TestUser',
+        face: 'avatar.jpg',
+        sign: 'youtube.com/@woodshop',
+        follower: 10000,
+        level: 6,
+      });
+      mockYtApi.getChannel.mockResolvedValueOnce({
+        id: 'UCtest',
+        title: 'Unrelated',
+        description: 'Regular description',
+        customUrl: '@WoodShop',
+        thumbnails: { default: '', medium: '', high: '' },
+        subscriberCount: 100,
+        verified: false,
+      });
+      mockBiliApi.getUserVideos.mockResolvedValueOnce([]);
+      mockYtApi.getChannelVideos.mockResolvedValueOnce([]);
+    }
+
+    test('should score a bio link when it is not a shortcut', async () => {
+      const config = parseVerifierConfig(
+        {
+          signals: { bioLink: { bands: [{ min: 1, weight: 0.5, reason: 'Bio link' }] } },
+          shortcuts: [],
+        },
+        DEFAULT_VERIFIER_CONFIG
+      );
+      const verifier = new UserVerifier(mockBiliApi, mockYtApi, { config });
+      mockBioMatch();
+
+      const result = await verifier.verify('123456', 'UCtest');
+
+      expect(result.level).toBe(4);
+      expect(result.confidence).toBeCloseTo(0.5);
+      expect(result.reasons).toContain('Bio link: Bilibili bio → @woodshop');
+      expect(result.metadata.bioMatch).toBe(true);
+    });
+
+    test('should use custom signals', async () => {
+      const signals = createDefaultSignals().register({
+        name: 'allowlist',
+        label: 'Allowlisted pair',
+        evaluate: async ({ biliUser, ytChannel }) => ({
+          value: biliUser.uid === '123456' && ytChannel.id === 'UCtest' ? 1 : 0,
+        }),
+      });
+      const config = parseVerifierConfig(
+        { shortcuts: [{ level: 2, requires: { allowlist: 1 }, confidence: 0.9 }] },
+        DEFAULT_VERIFIER_CONFIG
+      );
+      const verifier = new UserVerifier(mockBiliApi, mockYtApi, { config, signals });
+
+      const result = await verifier.verify('123456', 'UCtest');
+
+      expect(result.level).toBe(2);
+      expect(result.confidence).toBe(0.9);
+      expect(result.reasons).toEqual(['Allowlisted pair']);
+    });
+
+    test('should reject configs naming unknown signals', () => {
+      const config = parseVerifierConfig(
+        { signals: { subscriberGrowth: { bands: [] } } },
+        DEFAULT_VERIFIER_CONFIG
+      );
+      expect(() => new UserVerifier(mockBiliApi, mockYtApi, { config })).toThrow(
+        'subscriberGrowth'
+      );
+    });
+  });
+
   describe('error handling', () => {
     test('should handle API errors gracefully', async () => {
       const verifier = new UserVerifier(mockBiliApi, mockYtApi);
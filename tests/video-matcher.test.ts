@@ -0,0 +1,224 @@
+import { describe, test, expect, mock } from 'bun:test';
+import {
+  VideoMatcher,
+  YouTubeVideoMatcher,
+  normalizeTitle,
+  parseBilibiliLength,
+  parseIsoDuration,
+  scoreCandidate,
+} from '../src/utils/video-matcher';
+import type { BilibiliVideo, UserMapping, YouTubeVideo } from '../types';
+
+const PUBLISHED = Date.parse('2024-06-01T12:00:00Z') / 1000;
+
+function createBiliVideo(overrides: Partial<BilibiliVideo> = {}): BilibiliVideo {
+  return {
+    bvid: 'BV1xx411c7mD',
+    aid: 1,
+    title: 'My Trip to Japan',
+    pic: '',
+    author: 'TestUser',
+    mid: 123456,
+    created: PUBLISHED,
+    length: '12:34',
+    play: 1000,
+    danmaku: 100,
+    ...overrides,
+  };
+}
+
+function createYtVideo(overrides: Partial<YouTubeVideo> = {}): YouTubeVideo {
+  return {
+    id: 'dQw4w9WgXcQ',
+    title: 'My Trip to Japan',
+    description: '',
+    channelId: 'UCtest',
+    channelTitle: 'TestUser',
+    publishedAt: '2024-06-01T12:00:00Z',
+    thumbnails: { default: '', medium: '', high: '' },
+    duration: 'PT12M34S',
+    ...overrides,
+  };
+}
+
+const mapping: UserMapping = {
+  bilibiliUid: '123456',
+  bilibiliUsername: 'TestUser',
+  youtubeChannelId: 'UCtest',
+  youtubeChannelName: 'TestUser',
+  verificationLevel: 1,
+  verifiedAt: '2024-01-01T00:00:00.000Z',
+  verifiedBy: 'auto',
+};
+
+describe('parseIsoDuration', () => {
+  test('should parse hours, minutes and seconds', () => {
+    expect(parseIsoDuration('PT1H2M3S')).toBe(3723);
+    expect(parseIsoDuration('PT12M34S')).toBe(754);
+    expect(parseIsoDuration('PT45S')).toBe(45);
+    expect(parseIsoDuration('PT2H')).toBe(7200);
+  });
+
+  test('should parse day components', () => {
+    expect(parseIsoDuration('P1DT1S')).toBe(86401);
+  });
+
+  test('should return 0 for invalid input', () => {
+    expect(parseIsoDuration('')).toBe(0);
+    expect(parseIsoDuration('12:34')).toBe(0);
+  });
+});
+
+describe('parseBilibiliLength', () => {
+  test('should parse mm:ss and hh:mm:ss', () => {
+    expect(parseBilibiliLength('12:34')).toBe(754);
+    expect(parseBilibiliLength('123:45')).toBe(7425);
+    expect(parseBilibiliLength('1:02:03')).toBe(3723);
+  });
+
+  test('should return 0 for invalid input', () => {
+    expect(parseBilibiliLength('')).toBe(0);
+    expect(parseBilibiliLength('abc')).toBe(0);
+  });
+});
+
+describe('normalizeTitle', () => {
+  test('should strip bracketed tags and punctuation', () => {
+    expect(normalizeTitle('【中字】My Trip to Japan!')).toBe('mytriptojapan');
+    expect(normalizeTitle('[4K] My Trip to Japan')).toBe('mytriptojapan');
+  });
+});
+
+describe('scoreCandidate', () => {
+  test('should give a perfect score to an identical upload', () => {
+    const score = scoreCandidate(createYtVideo(), createBiliVideo());
+    expect(score.total).toBeCloseTo(1);
+  });
+
+  test('should tolerate small duration differences', () => {
+    const score = scoreCandidate(createYtVideo(), createBiliVideo({ length: '12:36' }));
+    expect(score.duration).toBe(1);
+  });
+
+  test('should match translated titles on duration and date alone', () => {
+    const score = scoreCandidate(createYtVideo(), createBiliVideo({ title: '我的日本之旅' }));
+    expect(score.title).toBeLessThan(0.2);
+    expect(score.total).toBeGreaterThanOrEqual(0.6);
+  });
+
+  test('should score unrelated uploads low', () => {
+    const score = scoreCandidate(
+      createYtVideo(),
+      createBiliVideo({
+        title: 'Cooking Pasta',
+        length: '3:10',
+        created: PUBLISHED - 90 * 86400,
+      })
+    );
+    expect(score.total).toBeLessThan(0.3);
+  });
+
+  test('should ignore signals that are unavailable', () => {
+    const score = scoreCandidate(
+      createYtVideo({ duration: '', publishedAt: '' }),
+      createBiliVideo()
+    );
+    expect(score.duration).toBeNull();
+    expect(score.publishDate).toBeNull();
+    expect(score.total).toBeCloseTo(1);
+  });
+});
+
+describe('VideoMatcher', () => {
+  function createBiliApi(pages: BilibiliVideo[][]) {
+    return {
+      getUserVideos: mock(async (_uid: string, page: number) => pages[page - 1] ?? []),
+      getVideoInfo: mock(async (bvid: string) => ({ bvid, cid: 987654 })),
+    } as any;
+  }
+
+  test('should return the best scoring upload with its cid', async () => {
+    const biliApi = createBiliApi([
+      [
+        createBiliVideo({ bvid: 'BV1', title: 'Unrelated', length: '1:00' }),
+        createBiliVideo({ bvid: 'BV2' }),
+      ],
+    ]);
+    const matcher = new VideoMatcher(biliApi);
+
+    const match = await matcher.findMatch(mapping, createYtVideo());
+
+    expect(match?.bvid).toBe('BV2');
+    expect(match?.cid).toBe(987654);
+    expect(match?.confidence).toBeGreaterThan(0.9);
+    expect(biliApi.getVideoInfo).toHaveBeenCalledWith('BV2');
+  });
+
+  test('should return null when no candidate is confident enough', async () => {
+    const biliApi = createBiliApi([
+      [createBiliVideo({ title: 'Unrelated', length: '1:00', created: PUBLISHED - 90 * 86400 })],
+    ]);
+    const matcher = new VideoMatcher(biliApi);
+
+    expect(await matcher.findMatch(mapping, createYtVideo())).toBeNull();
+    expect(biliApi.getVideoInfo).not.toHaveBeenCalled();
+  });
+
+  test('should page through uploads until they predate the search window', async () => {
+    const biliApi = createBiliApi([
+      [createBiliVideo({ bvid: 'BV1', created: PUBLISHED + 10 * 86400, title: 'Newer' })],
+      [createBiliVideo({ bvid: 'BV2' })],
+      [createBiliVideo({ bvid: 'BV3', created: PUBLISHED - 60 * 86400, title: 'Older' })],
+      [createBiliVideo({ bvid: 'BV4', created: PUBLISHED - 90 * 86400, title: 'Oldest' })],
+    ]);
+    const matcher = new VideoMatcher(biliApi, { pageSize: 1, maxPages: 5 });
+
+    const match = await matcher.findMatch(mapping, createYtVideo());
+
+    expect(match?.bvid).toBe('BV2');
+    expect(biliApi.getUserVideos).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('YouTubeVideoMatcher', () => {
+  function createYtApi(videos: YouTubeVideo[]) {
+    return {
+      getChannelVideos: mock(async () => videos),
+    } as any;
+  }
+
+  test('should return the best scoring upload of the mapped channel', async () => {
+    const ytApi = createYtApi([
+      createYtVideo({ id: 'other', title: 'Unrelated', publishedAt: '2024-03-01T00:00:00Z' }),
+      createYtVideo({ id: 'original' }),
+    ]);
+    const matcher = new YouTubeVideoMatcher(ytApi);
+
+    const match = await matcher.findMatch(mapping, createBiliVideo());
+
+    expect(match?.videoId).toBe('original');
+    expect(match?.confidence).toBeGreaterThan(0.9);
+    expect(match?.reasons).toContain('Duration score: 100.0%');
+    expect(ytApi.getChannelVideos).toHaveBeenCalledWith('UCtest', 50);
+  });
+
+  test('should tell same-titled uploads apart by their listed durations', async () => {
+    const ytApi = createYtApi([
+      createYtVideo({ id: 'short', duration: 'PT1M' }),
+      createYtVideo({ id: 'full' }),
+    ]);
+
+    const match = await new YouTubeVideoMatcher(ytApi).findMatch(mapping, createBiliVideo());
+
+    expect(match?.videoId).toBe('full');
+    expect(ytApi.getChannelVideos).toHaveBeenCalledTimes(1);
+  });
+
+  test('should return null when no upload is confident enough', async () => {
+    const ytApi = createYtApi([
+      createYtVideo({ title: 'Unrelated', duration: 'PT1M', publishedAt: '2023-01-01T00:00:00Z' }),
+    ]);
+
+    expect(await new YouTubeVideoMatcher(ytApi).findMatch(mapping, createBiliVideo())).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  isChannelId,
+  normalizeHandle,
+  parseChannelPage,
+  parseChannelReference,
+} from '../src/utils/youtube-channel';
+
+describe('parseChannelReference', () => {
+  test('should read channel IDs', () => {
+    const reference = { kind: 'id', value: 'UCabcdefghijklmnopqrstuv' } as const;
+
+    expect(
+      parseChannelReference('https://www.youtube.com/channel/UCabcdefghijklmnopqrstuv/videos')
+    ).toEqual(reference);
+    expect(parseChannelReference('UCabcdefghijklmnopqrstuv')).toEqual(reference);
+    expect(isChannelId('UCabcdefghijklmnopqrstuv')).toBe(true);
+    expect(isChannelId('@moonlitkitchen')).toBe(false);
+  });
+
+  test('should read handles and legacy names', () => {
+    expect(parseChannelReference('https://www.youtube.com/@MoonlitKitchen/videos?view=0')).toEqual({
+      kind: 'handle',
+      value: '@moonlitkitchen',
+    });
+    expect(parseChannelReference('@MoonlitKitchen')).toEqual({
+      kind: 'handle',
+      value: '@moonlitkitchen',
+    });
+    expect(parseChannelReference('https://www.youtube.com/c/MoonlitKitchen')).toEqual({
+      kind: 'handle',
+      value: '@moonlitkitchen',
+    });
+    expect(parseChannelReference('https://www.youtube.com/user/moonlit2009')).toEqual({
+      kind: 'username',
+      value: 'moonlit2009',
+    });
+  });
+
+  test('should ignore pages that are not channels', () => {
+    expect(parseChannelReference('https://www.youtube.com/watch?v=dQw4w9WgXcQ')).toBeNull();
+    expect(parseChannelReference('https://www.youtube.com/')).toBeNull();
+  });
+});
+
+describe('normalizeHandle', () => {
+  test('should decode and lowercase handles', () => {
+    expect(normalizeHandle('MoonlitKitchen')).toBe('@moonlitkitchen');
+    expect(normalizeHandle('@%E5%BD%B1%E8%A7%86%E9%A3%93%E9%A3%8E')).toBe('@影视飓风');
+    expect(normalizeHandle('@100%')).toBe('@100%');
+  });
+});
+
+describe('parseChannelPage', () => {
+  test('should read the channel ID and handle from ytInitialData', () => {
+    const html =
+      '<link rel="canonical" href="https://www.youtube.com/channel/UCabcdefghijklmnopqrstuv">' +
+      '<script>var ytInitialData = {"metadata":{"channelMetadataRenderer":{"title":"Moonlit",' +
+      '"externalId":"UCabcdefghijklmnopqrstuv",' +
+      '"vanityChannelUrl":"http://www.youtube.com/@MoonlitKitchen"}}};</script>';
+
+    expect(parseChannelPage(html)).toEqual({
+      channelId: 'UCabcdefghijklmnopqrstuv',
+      handle: '@moonlitkitchen',
+    });
+  });
+
+  test('should fall back to the canonical link', () => {
+    const html =
+      '<link rel="canonical" href="https://www.youtube.com/channel/UCabcdefghijklmnopqrstuv">';
+
+    expect(parseChannelPage(html)).toEqual({ channelId: 'UCabcdefghijklmnopqrstuv', handle: null });
+    expect(parseChannelPage('<html></html>')).toEqual({ channelId: null, handle: null });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  parsePlayerResponse,
+  requestPlayerVideo,
+  servePlayerRequests,
+} from '../src/utils/youtube-player';
+
+function createResponse(videoId: string) {
+  return {
+    videoDetails: {
+      videoId,
+      title: 'My Trip to Japan',
+      shortDescription: 'Day one in Kyoto',
+      channelId: 'UCtest1234567890123456ab',
+      author: 'TestUser',
+      lengthSeconds: '754',
+    },
+    microformat: { playerMicroformatRenderer: { publishDate: '2024-06-01T05:00:00-07:00' } },
+  };
+}
+
+describe('parsePlayerResponse', () => {
+  test('should read the video details', () => {
+    expect(parsePlayerResponse(createResponse('dQw4w9WgXcQ'), 'dQw4w9WgXcQ')).toMatchObject({
+      id: 'dQw4w9WgXcQ',
+      title: 'My Trip to Japan',
+      description: 'Day one in Kyoto',
+      channelId: 'UCtest1234567890123456ab',
+      channelTitle: 'TestUser',
+      publishedAt: '2024-06-01T05:00:00-07:00',
+      duration: 'PT754S',
+    });
+  });
+
+  test('should ignore a response for another video', () => {
+    expect(parsePlayerResponse(createResponse('previous000'), 'dQw4w9WgXcQ')).toBeNull();
+    expect(parsePlayerResponse(undefined, 'dQw4w9WgXcQ')).toBeNull();
+  });
+});
+
+describe('requestPlayerVideo', () => {
+  test('should get the channel of the video in the player', async () => {
+    const target = new EventTarget();
+    servePlayerRequests(target, () => createResponse('dQw4w9WgXcQ'));
+
+    const video = await requestPlayerVideo(target, 'dQw4w9WgXcQ');
+    expect(video?.channelId).toBe('UCtest1234567890123456ab');
+  });
+
+  test('should wait for the player to switch videos', async () => {
+    const target = new EventTarget();
+    let response = createResponse('previous000');
+    servePlayerRequests(target, () => response);
+    setTimeout(() => (response = createResponse('dQw4w9WgXcQ')), 30);
+
+    const video = await requestPlayerVideo(target, 'dQw4w9WgXcQ', { interval: 10 });
+    expect(video?.id).toBe('dQw4w9WgXcQ');
+  });
+
+  test('should give up when nothing answers or the load is stale', async () => {
+    const target = new EventTarget();
+    expect(
+      await requestPlayerVideo(target, 'dQw4w9WgXcQ', { timeout: 30, interval: 10 })
+    ).toBeNull();
+
+    servePlayerRequests(target, () => createResponse('previous000'));
+    expect(await requestPlayerVideo(target, 'dQw4w9WgXcQ', { isStale: () => true })).toBeNull();
+  });
+});
@@ -27,7 +27,7 @@ declare module 'wxt/browser' {
  */
 interface ImportMetaEnv {
   readonly VITE_GITHUB_TOKEN?: string;
-  readonly VITE_YOUTUBE_API_KEY?: string;
+  readonly VITE_WORKER_URL?: string;
   readonly VITE_CDN_BASE_URL?: string;
 }
 
@@ -16,6 +16,8 @@ export interface UserMapping {
   youtubeChannelId: string;
   /** YouTube channel name */
   youtubeChannelName: string;
+  /** YouTube handle (e.g. "@name"), so channel pages opened by handle find the mapping */
+  youtubeHandle?: string;
   /** YouTube channel avatar URL */
   youtubeAvatar?: string;
   /** Verification confidence level (1=highest, 4=manual review) */
@@ -28,6 +30,54 @@ export interface UserMapping {
   metadata?: VerificationMetadata;
 }
 
+/**
+ * Video pairing between a Bilibili upload and its YouTube counterpart
+ */
+export interface VideoMapping {
+  /** Bilibili video BV ID */
+  bvid: string;
+  /** Bilibili video part ID used for danmaku lookup */
+  cid: number;
+  /** YouTube video ID */
+  youtubeVideoId: string;
+  /** Seconds added to Bilibili danmaku times to align them with the YouTube upload */
+  timeOffset: number;
+  /** Piecewise corrections for parts of the upload that were cut or moved */
+  timeSegments?: TimeOffsetSegment[];
+  /** Match confidence (0-1) */
+  confidence: number;
+  /** Bilibili uploader UID */
+  bilibiliUid?: string;
+  /** YouTube channel ID */
+  youtubeChannelId?: string;
+  /** Timestamp when verified */
+  verifiedAt: string;
+  /** How the pairing was verified */
+  verifiedBy: 'auto' | 'manual';
+}
+
+/**
+ * Time shift applied to one range of the Bilibili upload
+ */
+export interface TimeOffsetSegment {
+  /** Start of the range on the Bilibili timeline (seconds, inclusive) */
+  from: number;
+  /** End of the range on the Bilibili timeline (seconds, exclusive) */
+  to: number;
+  /** Seconds added within the range, replacing the constant shift; null drops the range */
+  offset: number | null;
+}
+
+/**
+ * Mapping from Bilibili danmaku times to YouTube playback times
+ */
+export interface TimeOffset {
+  /** Seconds added to every danmaku outside the segments */
+  shift: number;
+  /** Ranges with their own shift, e.g. around a trimmed intro or sponsor segment */
+  segments?: TimeOffsetSegment[];
+}
+
 /**
  * Metadata collected during verification
  */
@@ -42,10 +92,16 @@ export interface VerificationMetadata {
   usernameSimilarity?: number;
   /** Whether bio contains cross-platform link */
   bioMatch?: boolean;
+  /** Whether recent video descriptions link the counterpart */
+  videoLinkMatch?: boolean;
   /** Whether YouTube channel is verified */
   youtubeVerified?: boolean;
-  /** Number of matching video titles */
+  /** Number of Bilibili uploads paired with a YouTube upload */
   matchingVideos?: number;
+  /** Similarity of the YouTube handle to the Bilibili username (0-1) */
+  customUrlSimilarity?: number;
+  /** YouTube subscribers per Bilibili follower */
+  followerRatio?: number;
   /** GitHub issue number if submitted by user */
   issueNumber?: number;
 }
@@ -66,6 +122,27 @@ export interface BilibiliUser {
   };
 }
 
+/**
+ * Bilibili live room
+ */
+export interface BilibiliLiveRoom {
+  roomId: number;
+  /** Streamer UID */
+  uid: string;
+  title: string;
+  /** 0=offline, 1=live, 2=rotating replays */
+  liveStatus: 0 | 1 | 2;
+}
+
+/**
+ * Connection details for a live room's danmaku stream
+ */
+export interface BilibiliDanmuInfo {
+  token: string;
+  /** WebSocket endpoints in the server's order of preference */
+  urls: string[];
+}
+
 /**
  * Bilibili video information
  */
@@ -80,16 +157,23 @@ export interface BilibiliVideo {
   length: string;
   play: number;
   danmaku: number;
+  description?: string;
 }
 
+/**
+ * Bilibili danmaku mode
+ * 1-3=scroll, 4=bottom, 5=top, 6=reverse scroll, 7=advanced (positioned), 8=code
+ */
+export type DanmakuMode = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
 /**
  * Bilibili danmaku item
  */
 export interface BilibiliDanmaku {
   /** Timestamp in seconds */
   time: number;
-  /** Type: 1=scroll, 4=bottom, 5=top */
-  type: 1 | 4 | 5;
+  /** Danmaku mode */
+  type: DanmakuMode;
   /** Font size */
   size: number;
   /** Color (decimal) */
@@ -104,6 +188,54 @@ export interface BilibiliDanmaku {
   id: string;
   /** Content */
   content: string;
+  /** Block weight (0-10), used by Bilibili's smart filter */
+  weight?: number;
+  /** Parsed payload of an advanced (mode 7) danmaku; `content` keeps the raw payload */
+  advanced?: AdvancedDanmaku;
+  /** Number of near-identical danmaku merged into this one */
+  count?: number;
+}
+
+/**
+ * Point on the stage, as fractions (0-1) of its width and height
+ */
+export interface StagePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Advanced (mode 7) danmaku with absolute position, fading, rotation and motion
+ */
+export interface AdvancedDanmaku {
+  /** Displayed text (may contain line breaks) */
+  text: string;
+  /** Start position */
+  start: StagePoint;
+  /** End position; equal to `start` for static items */
+  end: StagePoint;
+  /** Motion path replacing the straight start → end movement */
+  path?: StagePoint[];
+  /** Opacity (0-1) when the item appears */
+  alphaFrom: number;
+  /** Opacity (0-1) when the item disappears */
+  alphaTo: number;
+  /** Time on screen in seconds */
+  duration: number;
+  /** Delay before the item starts moving (seconds) */
+  moveDelay: number;
+  /** Time the movement takes (seconds) */
+  moveDuration: number;
+  /** Rotation around the Z axis in degrees */
+  rotateZ: number;
+  /** Rotation around the Y axis in degrees */
+  rotateY: number;
+  /** Whether the text is outlined */
+  stroke: boolean;
+  /** Font family override */
+  fontFamily?: string;
+  /** Move at constant speed instead of easing out */
+  linear: boolean;
 }
 
 /**
@@ -143,6 +275,18 @@ export interface YouTubeVideo {
   viewCount?: number;
 }
 
+/**
+ * Top-level YouTube comment
+ */
+export interface YouTubeComment {
+  id: string;
+  /** Plain comment text as written by the author */
+  text: string;
+  author: string;
+  publishedAt: string;
+  likeCount: number;
+}
+
 /**
  * Shard configuration
  */
@@ -159,8 +303,8 @@ export interface ShardConfig {
  * Mapping index for fast lookup
  */
 export interface MappingIndex {
-  /** Map of user ID to shard path */
-  [userId: string]: string;
+  /** Map of user or video ID to shard path */
+  [id: string]: string;
 }
 
 /**
@@ -185,6 +329,55 @@ export interface VerificationResult {
   mapping?: UserMapping;
 }
 
+/**
+ * Score a verification signal contributes when its value falls in [min, max]
+ */
+export interface SignalBand {
+  min?: number;
+  max?: number;
+  /** Added to the Level 3 confidence */
+  weight: number;
+  /** Reason reported when the band matches */
+  reason: string;
+}
+
+/**
+ * Scoring for one verification signal
+ */
+export interface SignalConfig {
+  /** Checked in order; the first band containing the value counts */
+  bands: SignalBand[];
+  /** Signal-specific tuning, e.g. the title similarity a video overlap needs */
+  options?: Record<string, number>;
+}
+
+/**
+ * Level decided by a few signals alone, skipping the weighted score
+ */
+export interface VerificationShortcut {
+  level: 1 | 2;
+  /** Minimum value of each signal, checked in order */
+  requires: Record<string, number>;
+  confidence: number;
+  /** Adds `weight` times the signal's value to the confidence */
+  bonus?: {
+    signal: string;
+    weight: number;
+  };
+}
+
+/**
+ * Verifier configuration
+ */
+export interface VerifierConfig {
+  /** Signals summed into the Level 3 confidence, in reporting order */
+  signals: Record<string, SignalConfig>;
+  /** Tried in order before scoring */
+  shortcuts: VerificationShortcut[];
+  /** Minimum Level 3 confidence; anything lower needs manual review */
+  threshold: number;
+}
+
 /**
  * Scanner configuration
  */
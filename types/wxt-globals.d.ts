@@ -3,6 +3,7 @@
 declare const defineBackground: (fn: () => void) => void;
 declare const defineContentScript: (config: {
   matches: string[];
+  world?: 'ISOLATED' | 'MAIN';
   main: () => void | Promise<void>;
 }) => void;
 declare const browser: typeof chrome;
@@ -1,4 +1,5 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { cors } from 'hono/cors';
 import { Octokit } from '@octokit/rest';
 import { z } from 'zod';
@@ -26,8 +27,13 @@ interface RateLimitData {
   resetAt: number;
 }
 
-async function checkRateLimit(env: any, ip: string): Promise<boolean> {
-  const key = `ratelimit:${ip}`;
+async function checkRateLimit(
+  env: any,
+  ip: string,
+  scope: string,
+  limit: number
+): Promise<boolean> {
+  const key = `ratelimit:${scope}:${ip}`;
   const now = Date.now();
 
   const data = (await env.RATE_LIMIT_KV.get(key, 'json')) as RateLimitData | null;
@@ -42,7 +48,7 @@ async function checkRateLimit(env: any, ip: string): Promise<boolean> {
     return true;
   }
 
-  if (data.count >= 10) {
+  if (data.count >= limit) {
     return false;
   }
 
@@ -56,6 +62,11 @@ async function checkRateLimit(env: any, ip: string): Promise<boolean> {
   return true;
 }
 
+// Get client IP
+function clientIp(c: Context): string {
+  return c.req.header('CF-Connecting-IP') || c.req.header('X-Real-IP') || 'unknown';
+}
+
 // Health check
 app.get('/', c => {
   return c.json({ status: 'ok', service: 'BiliTube-Wormhole Submission API' });
@@ -65,11 +76,8 @@ app.get('/', c => {
 app.post('/submit', async c => {
   const env = c.env as any;
 
-  // Get client IP
-  const ip = c.req.header('CF-Connecting-IP') || c.req.header('X-Real-IP') || 'unknown';
-
   // Check rate limit
-  const allowed = await checkRateLimit(env, ip);
+  const allowed = await checkRateLimit(env, clientIp(c), 'submit', 10);
   if (!allowed) {
     return c.json({ error: 'Rate limit exceeded. Please try again later.' }, 429);
   }
@@ -129,4 +137,35 @@ ${notes ? `### Notes\n${notes}` : ''}
   }
 });
 
+// YouTube Data API resources the extension reads; search is left out for its quota cost
+const YOUTUBE_RESOURCES = new Set(['channels', 'playlistItems', 'videos', 'commentThreads']);
+
+// Proxy YouTube Data API reads, so the API key stays here instead of shipping in the extension
+app.get('/youtube/:resource', async c => {
+  const env = c.env as any;
+  const resource = c.req.param('resource');
+
+  // Errors use the Data API's shape, which the extension's client already reports
+  if (!YOUTUBE_RESOURCES.has(resource)) {
+    return c.json({ error: { message: `Unsupported resource: ${resource}` } }, 404);
+  }
+
+  const allowed = await checkRateLimit(env, clientIp(c), 'youtube', 300);
+  if (!allowed) {
+    return c.json({ error: { message: 'Rate limit exceeded. Please try again later.' } }, 429);
+  }
+
+  const url = new URL(`https://www.googleapis.com/youtube/v3/${resource}`);
+  for (const [key, value] of new URL(c.req.url).searchParams) {
+    if (key !== 'key') url.searchParams.append(key, value);
+  }
+  url.searchParams.set('key', env.YOUTUBE_API_KEY);
+
+  const response = await fetch(url.toString());
+  return new Response(response.body, {
+    status: response.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
+
 export default app;
@@ -11,6 +11,8 @@ export default defineConfig({
       'https://www.bilibili.com/*',
       'https://www.youtube.com/*',
       'https://api.bilibili.com/*',
+      'https://api.live.bilibili.com/*',
+      'https://www.googleapis.com/*',
       'https://cdn.jsdelivr.net/*',
       'https://raw.githubusercontent.com/*',
     ],